@@ -0,0 +1,350 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {RecurrenteClient} from '../src/api/client';
+import {ValidationError} from '../src/api/errors';
+import {parseCatalogManifest} from '../src/catalog/manifest';
+import {
+  planCatalogSync,
+  applyCatalogSync,
+  formatCatalogSyncPlan,
+} from '../src/catalog/sync';
+import {run, CliIO} from '../src/cli/index';
+import {MockRecurrenteServer} from '../src/testing';
+import {createFakeClient} from './helpers/fake-client';
+
+const manifestYaml = `
+products:
+  - external_id: camiseta
+    name: Camiseta
+    prices:
+      - external_id: unica
+        amount_in_cents: 10000
+  - external_id: plan-pro
+    name: Plan Pro
+    metadata:
+      tier: pro
+    prices:
+      - external_id: mensual
+        amount_in_cents: 15000
+        billing_interval: month
+      - external_id: anual
+        amount_in_cents: 150000
+        billing_interval: year
+`;
+
+describe('parseCatalogManifest', () => {
+  it('should parse YAML and JSON manifests in snake_case or camelCase', () => {
+    const manifest = parseCatalogManifest(manifestYaml);
+
+    expect(manifest.products[1]).toEqual({
+      externalId: 'plan-pro',
+      name: 'Plan Pro',
+      metadata: {tier: 'pro'},
+      prices: [
+        {externalId: 'mensual', amountInCents: 15000, billingInterval: 'month'},
+        {externalId: 'anual', amountInCents: 150000, billingInterval: 'year'},
+      ],
+    });
+    expect(parseCatalogManifest(JSON.stringify(manifest), 'json')).toEqual(
+      manifest
+    );
+  });
+
+  it('should report every problem in the manifest', () => {
+    const manifest = JSON.stringify({
+      products: [
+        {
+          externalId: 'mixto',
+          name: 'Mixto',
+          prices: [
+            {externalId: 'a', amountInCents: 100},
+            {externalId: 'b', amountInCents: 100, billingInterval: 'month'},
+          ],
+        },
+        {
+          externalId: 'camiseta',
+          name: '',
+          color: 'azul',
+          prices: [{externalId: 'a', amountInCents: 0}],
+        },
+      ],
+    });
+
+    expect(() => parseCatalogManifest(manifest, 'json')).toThrow(
+      expect.objectContaining({
+        errors: {
+          'products[0].prices': ['must be all one-time or all recurring'],
+          'products[1].name': ['must not be empty'],
+          'products[1].color': ['is not a known property'],
+          'products[1].prices[0].amountInCents': [
+            'must be greater than or equal to 1',
+          ],
+        },
+      })
+    );
+  });
+
+  it('should reject duplicated external IDs', () => {
+    const product = {
+      externalId: 'camiseta',
+      name: 'Camiseta',
+      prices: [{externalId: 'a', amountInCents: 100}],
+    };
+    const parse = (products: object[]) => () =>
+      parseCatalogManifest(JSON.stringify({products}), 'json');
+
+    expect(parse([product, product])).toThrow(
+      expect.objectContaining({
+        errors: {'products[1].externalId': ['is duplicated']},
+      })
+    );
+    expect(
+      parse([{...product, prices: [...product.prices, ...product.prices]}])
+    ).toThrow(
+      expect.objectContaining({
+        errors: {'products[0].prices[1].externalId': ['is duplicated']},
+      })
+    );
+  });
+
+  it('should reject manifests that cannot be parsed', () => {
+    expect(() => parseCatalogManifest('products: [', 'yaml')).toThrow(
+      ValidationError
+    );
+  });
+});
+
+describe('catalog sync', () => {
+  const server = new MockRecurrenteServer();
+  let client: RecurrenteClient;
+
+  beforeAll(async () => {
+    await server.start();
+    client = new RecurrenteClient(server.clientConfig());
+  });
+
+  afterAll(async () => {
+    await server.stop();
+  });
+
+  beforeEach(() => {
+    server.reset();
+  });
+
+  const sync = async (manifest: string) => {
+    const plan = await planCatalogSync(client, parseCatalogManifest(manifest));
+    return {plan, result: await applyCatalogSync(client, plan)};
+  };
+
+  it('should create the products of the manifest and then do nothing', async () => {
+    const {plan, result} = await sync(manifestYaml);
+
+    expect(plan.actions.map(action => action.type)).toEqual([
+      'create',
+      'create',
+    ]);
+    const product = result.created['plan-pro'];
+    expect(product.prices.map(price => price.billingInterval)).toEqual([
+      'month',
+      'year',
+    ]);
+    expect(product.metadata).toEqual({
+      tier: 'pro',
+      external_id: 'plan-pro',
+      external_price_ids: JSON.stringify({
+        mensual: product.prices[0].id,
+        anual: product.prices[1].id,
+      }),
+    });
+
+    const again = await planCatalogSync(
+      client,
+      parseCatalogManifest(manifestYaml)
+    );
+    expect(again).toEqual({
+      actions: [],
+      conflicts: [],
+      unchanged: ['camiseta', 'plan-pro'],
+    });
+  });
+
+  it('should patch changed fields and prices and remove dropped prices', async () => {
+    const {result} = await sync(manifestYaml);
+    const [monthly, yearly] = result.created['plan-pro'].prices;
+    const changed = manifestYaml
+      .replace('name: Plan Pro', 'name: Plan Profesional')
+      .replace('amount_in_cents: 15000', 'amount_in_cents: 17500')
+      .replace(/ {6}- external_id: anual\n.*\n.*\n/, '');
+
+    const plan = await planCatalogSync(client, parseCatalogManifest(changed));
+
+    expect(plan.actions).toEqual([
+      {
+        type: 'update',
+        externalId: 'plan-pro',
+        productId: result.created['plan-pro'].id,
+        request: {
+          name: 'Plan Profesional',
+          pricesAttributes: [
+            {id: monthly.id, amountInCents: 17500},
+            {id: yearly.id, _destroy: true},
+          ],
+          metadata: expect.objectContaining({
+            external_price_ids: JSON.stringify({mensual: monthly.id}),
+          }),
+        },
+        changes: [
+          'name: "Plan Pro" -> "Plan Profesional"',
+          `price mensual (${monthly.id}): amountInCents 15000 -> 17500`,
+          `price anual (${yearly.id}): remove`,
+          'metadata: updated',
+        ],
+      },
+    ]);
+    expect(formatCatalogSyncPlan(plan).split('\n')).toEqual([
+      `~ update plan-pro (${result.created['plan-pro'].id})`,
+      '    name: "Plan Pro" -> "Plan Profesional"',
+      `    price mensual (${monthly.id}): amountInCents 15000 -> 17500`,
+      `    price anual (${yearly.id}): remove`,
+      '    metadata: updated',
+      '0 to create, 1 to update, 1 unchanged, 0 conflict(s)',
+    ]);
+
+    const {updated} = await applyCatalogSync(client, plan);
+    expect(updated['plan-pro'].prices).toEqual([
+      expect.objectContaining({id: monthly.id, amountInCents: 17500}),
+    ]);
+    await expect(
+      planCatalogSync(client, parseCatalogManifest(changed))
+    ).resolves.toHaveProperty('actions', []);
+  });
+
+  it('should report prices that cannot be added and refuse to apply', async () => {
+    await sync(manifestYaml);
+    const added = manifestYaml.replace(
+      '        amount_in_cents: 10000\n',
+      '        amount_in_cents: 10000\n      - external_id: doble\n        amount_in_cents: 18000\n'
+    );
+
+    const plan = await planCatalogSync(client, parseCatalogManifest(added));
+
+    expect(plan.conflicts).toEqual([
+      {
+        externalId: 'camiseta',
+        message: expect.stringContaining(
+          'price doble (GTQ 18000) cannot be added to an existing product'
+        ),
+      },
+    ]);
+    await expect(applyCatalogSync(client, plan)).rejects.toMatchObject({
+      name: 'ValidationError',
+      errors: {camiseta: [expect.stringContaining('price doble')]},
+    });
+  });
+
+  it('should adopt unrecorded prices with the same attributes', async () => {
+    const product = await client.createProduct({
+      name: 'Camiseta',
+      pricesAttributes: [
+        {currency: 'GTQ', chargeType: 'one_time', amountInCents: 10000},
+      ],
+      phoneRequirement: 'none',
+      addressRequirement: 'none',
+      billingInfoRequirement: 'none',
+      metadata: {external_id: 'camiseta'},
+    });
+
+    const plan = await planCatalogSync(
+      client,
+      parseCatalogManifest(manifestYaml)
+    );
+
+    expect(plan.actions[0]).toEqual({
+      type: 'update',
+      externalId: 'camiseta',
+      productId: product.id,
+      request: {
+        metadata: {
+          external_id: 'camiseta',
+          external_price_ids: JSON.stringify({unica: product.prices[0].id}),
+        },
+      },
+      changes: ['metadata: updated'],
+    });
+  });
+
+  it('should record created prices by their attributes, not their order', async () => {
+    const {client: fake, calls} = createFakeClient(config => {
+      if (config.method === 'get') {
+        return {data: []};
+      }
+      if (config.method === 'patch') {
+        return {data: {id: 'prod_1', prices: []}};
+      }
+      // Echoes the requested prices in reverse order
+      const sent = JSON.parse(config.data);
+      const prices = (sent.product ?? sent).prices_attributes;
+      return {
+        data: {
+          id: 'prod_1',
+          prices: prices
+            .map((price: object, index: number) => ({
+              ...price,
+              id: `price_${index}`,
+            }))
+            .reverse(),
+        },
+      };
+    });
+
+    const plan = await planCatalogSync(
+      fake,
+      parseCatalogManifest(manifestYaml)
+    );
+    await applyCatalogSync(fake, plan);
+
+    const metadata = calls
+      .filter(call => call.method === 'patch')
+      .map(call => JSON.parse(call.data).metadata.external_price_ids);
+    expect(metadata).toEqual([
+      JSON.stringify({unica: 'price_0'}),
+      JSON.stringify({mensual: 'price_0', anual: 'price_1'}),
+    ]);
+  });
+
+  it('should show a dry run from the CLI and apply it with --apply', async () => {
+    const file = path.join(os.tmpdir(), `catalog-${process.pid}.yaml`);
+    fs.writeFileSync(file, manifestYaml);
+    const stdout: string[] = [];
+    const io: CliIO = {
+      stdout: text => stdout.push(text),
+      stderr: () => {},
+      env: {
+        RECURRENTE_PUBLIC_KEY: server.publicKey,
+        RECURRENTE_SECRET_KEY: server.secretKey,
+        RECURRENTE_BASE_URL: server.url,
+      },
+    };
+
+    try {
+      await expect(run(['catalog', 'sync', file], io)).resolves.toBe(0);
+      expect(stdout.pop()).toBe(
+        [
+          '+ create camiseta (1 price)',
+          '+ create plan-pro (2 prices)',
+          '2 to create, 0 to update, 0 unchanged, 0 conflict(s)',
+        ].join('\n')
+      );
+      expect(server.requests.map(request => request.method)).toEqual(['GET']);
+
+      await expect(run(['catalog', 'sync', file, '--apply'], io)).resolves.toBe(
+        0
+      );
+      expect(stdout.pop()).toMatch(/Applied 2 change\(s\)$/);
+      await expect(client.getAllProducts()).resolves.toHaveLength(2);
+    } finally {
+      fs.unlinkSync(file);
+    }
+  });
+});
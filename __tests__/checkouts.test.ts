@@ -0,0 +1,137 @@
+import {createFakeClient} from './helpers/fake-client';
+
+const checkout = (id: string, status = 'unpaid') => ({
+  id,
+  status,
+  checkout_url: `https://app.recurrente.com/checkout-session/${id}`,
+  items: [
+    {
+      price_id: null,
+      name: 'Envío',
+      amount_in_cents: 2500,
+      currency: 'GTQ',
+      quantity: 1,
+    },
+  ],
+  total_in_cents: 2500,
+  success_url: null,
+  cancel_url: null,
+  created_at: '2024-05-01T00:00:00Z',
+  expires_at: null,
+  metadata: {},
+});
+
+// Creates a strict client whose transport serves the checkouts endpoints
+const createClient = () =>
+  createFakeClient(
+    config => {
+      if (config.method === 'post' && config.url === '/checkouts/') {
+        return {
+          status: 201,
+          data: {
+            id: 'ch_1',
+            checkout_url: 'https://app.recurrente.com/checkout-session/ch_1',
+          },
+        };
+      }
+      if (config.method === 'post') {
+        return {data: checkout('ch_1', 'expired')};
+      }
+      const page = Number(/page=(\d+)/.exec(config.url || '')?.[1]);
+      return {data: page <= 2 ? [checkout(`ch_${page}`)] : []};
+    },
+    {decoding: 'strict'}
+  );
+
+describe('Checkouts', () => {
+  it('should send the checkout in snake_case', async () => {
+    const {client, calls} = createClient();
+
+    await client.checkouts.create({
+      items: [
+        {priceId: 'price_1', quantity: 2},
+        {
+          name: 'Envío',
+          amountInCents: 2500,
+          currency: 'GTQ',
+          imageUrl: 'https://example.com/envio.png',
+        },
+      ],
+      successUrl: 'https://example.com/success',
+      cancelUrl: 'https://example.com/cancel',
+      userId: 'us_1',
+      expiresAt: '2024-05-02T00:00:00Z',
+      metadata: {orderRef: 'A-1'},
+    });
+
+    expect(calls).toHaveLength(1);
+    expect(calls[0].method).toBe('post');
+    expect(calls[0].url).toBe('/checkouts/');
+    expect(JSON.parse(calls[0].data)).toEqual({
+      items: [
+        {price_id: 'price_1', quantity: 2},
+        {
+          name: 'Envío',
+          amount_in_cents: 2500,
+          currency: 'GTQ',
+          image_url: 'https://example.com/envio.png',
+        },
+      ],
+      success_url: 'https://example.com/success',
+      cancel_url: 'https://example.com/cancel',
+      user_id: 'us_1',
+      expires_at: '2024-05-02T00:00:00Z',
+      metadata: {orderRef: 'A-1'},
+    });
+  });
+
+  it('should decode the ID and URL of the created checkout', async () => {
+    const {client} = createClient();
+
+    await expect(
+      client.checkouts.create({items: [{priceId: 'price_1'}]})
+    ).resolves.toEqual({
+      id: 'ch_1',
+      checkoutUrl: 'https://app.recurrente.com/checkout-session/ch_1',
+    });
+  });
+
+  it('should expire a checkout with a POST to its expire path', async () => {
+    const {client, calls} = createClient();
+
+    const expired = await client.checkouts.expire('ch_1');
+
+    expect(calls.map(call => [call.method, call.url])).toEqual([
+      ['post', '/checkouts/ch_1/expire'],
+    ]);
+    expect(calls[0].data).toBeUndefined();
+    expect(expired).toMatchObject({id: 'ch_1', status: 'expired'});
+  });
+
+  it('should request the pages of the list in order', async () => {
+    const {client, calls} = createClient();
+
+    const checkouts = await client.checkouts.list().toArray();
+
+    expect(checkouts.map(item => item.checkoutUrl)).toEqual([
+      'https://app.recurrente.com/checkout-session/ch_1',
+      'https://app.recurrente.com/checkout-session/ch_2',
+    ]);
+    expect(calls.map(call => call.url)).toEqual([
+      '/checkouts?page=1',
+      '/checkouts?page=2',
+      '/checkouts?page=3',
+    ]);
+  });
+
+  it('should start the list at the requested page', async () => {
+    const {client, calls} = createClient();
+
+    await client.checkouts.list({startPage: 2}).toArray();
+
+    expect(calls.map(call => call.url)).toEqual([
+      '/checkouts?page=2',
+      '/checkouts?page=3',
+    ]);
+  });
+});
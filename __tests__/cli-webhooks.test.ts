@@ -0,0 +1,251 @@
+import axios from 'axios';
+import http from 'http';
+import {AddressInfo} from 'net';
+import {run, CliIO} from '../src/cli/index';
+import {startWebhookListener, WebhookListener} from '../src/cli/webhooks';
+import {
+  createSignedWebhook,
+  signWebhookPayload,
+} from '../src/utils/webhook-fixtures';
+
+const secret = `whsec_${Buffer.from('cli-webhooks-secret').toString('base64')}`;
+
+describe('recurrente webhooks', () => {
+  let stdout: string[];
+  let stderr: string[];
+  let io: CliIO;
+  let listener: WebhookListener | undefined;
+
+  beforeEach(() => {
+    stdout = [];
+    stderr = [];
+    io = {
+      stdout: text => stdout.push(text),
+      stderr: text => stderr.push(text),
+      env: {RECURRENTE_SVIX_SIGNING_SECRET: secret},
+    };
+  });
+
+  afterEach(async () => {
+    await listener?.close();
+    listener = undefined;
+  });
+
+  const post = (url: string, payload: string, headers: object) =>
+    axios.post(url, payload, {
+      headers: {...headers, 'Content-Type': 'application/json'},
+      validateStatus: () => true,
+    });
+
+  describe('listen', () => {
+    it('should verify and print incoming events', async () => {
+      listener = await startWebhookListener({secret, port: 0}, io);
+      const {event, payload, headers} = createSignedWebhook(
+        'payment_intent.succeeded',
+        {secret}
+      );
+
+      const response = await post(listener.url, payload, headers);
+
+      expect(response.status).toBe(200);
+      expect(stdout).toHaveLength(1);
+      expect(stdout[0]).toContain(`payment_intent.succeeded  ${event.id}`);
+      expect(stdout[0]).toContain(`"id": "${event.checkout.id}"`);
+    });
+
+    it('should print one JSON object per event with --output json', async () => {
+      listener = await startWebhookListener(
+        {secret, port: 0, output: 'json'},
+        io
+      );
+      const {event, payload, headers} = createSignedWebhook(
+        'subscription.cancel',
+        {secret}
+      );
+
+      await post(listener.url, payload, headers);
+
+      expect(stdout.map(line => JSON.parse(line))).toEqual([event]);
+    });
+
+    it('should print events of unknown types', async () => {
+      listener = await startWebhookListener({secret, port: 0}, io);
+      const payload = JSON.stringify({
+        id: 'evt_1',
+        event_type: 'invoice.paid',
+        invoice_id: 'in_1',
+      });
+
+      const response = await post(
+        listener.url,
+        payload,
+        signWebhookPayload(payload, {secret})
+      );
+
+      expect(response.status).toBe(200);
+      expect(stdout).toHaveLength(1);
+      expect(stdout[0]).toMatch(
+        /invoice.paid {2}evt_1 {2}\(unknown event type\)/
+      );
+      expect(stdout[0]).toContain('"invoiceId": "in_1"');
+    });
+
+    it('should print decoding warnings to stderr', async () => {
+      listener = await startWebhookListener({secret, port: 0}, io);
+      const payload = JSON.stringify({
+        id: 'evt_1',
+        event_type: 'subscription.cancel',
+      });
+
+      const response = await post(
+        listener.url,
+        payload,
+        signWebhookPayload(payload, {secret})
+      );
+
+      expect(response.status).toBe(200);
+      expect(stderr).toEqual([
+        'Warning: Unexpected SubscriptionCancel payload',
+      ]);
+    });
+
+    it('should reject deliveries with an invalid signature', async () => {
+      listener = await startWebhookListener({secret, port: 0}, io);
+      const {payload, headers} = createSignedWebhook('subscription.cancel', {
+        secret: `whsec_${Buffer.from('another-secret').toString('base64')}`,
+      });
+
+      const response = await post(listener.url, payload, headers);
+
+      expect(response.status).toBe(400);
+      expect(stdout).toHaveLength(0);
+      expect(stderr[0]).toMatch(/^Rejected delivery: /);
+    });
+
+    it('should forward verified deliveries and answer with their status', async () => {
+      const received: {body: string; headers: http.IncomingHttpHeaders}[] = [];
+      const app = http.createServer((request, response) => {
+        let body = '';
+        request.on('data', chunk => (body += chunk));
+        request.on('end', () => {
+          received.push({body, headers: request.headers});
+          response.statusCode = 422;
+          response.setHeader('Content-Type', 'application/problem+json');
+          response.end('{"error":"unknown customer"}');
+        });
+      });
+      await new Promise<void>(resolve => app.listen(0, '127.0.0.1', resolve));
+      const {port} = app.address() as AddressInfo;
+
+      try {
+        listener = await startWebhookListener(
+          {secret, port: 0, forwardTo: `http://127.0.0.1:${port}/hook`},
+          io
+        );
+        const {payload, headers} = createSignedWebhook('subscription.create', {
+          secret,
+        });
+
+        const response = await post(listener.url, payload, headers);
+
+        expect(response.status).toBe(422);
+        expect(response.headers['content-type']).toBe(
+          'application/problem+json'
+        );
+        expect(response.data).toEqual({error: 'unknown customer'});
+        expect(received).toEqual([
+          {
+            body: payload,
+            headers: expect.objectContaining({
+              'svix-id': headers['svix-id'],
+              'svix-signature': headers['svix-signature'],
+            }),
+          },
+        ]);
+        expect(stderr).toContain(
+          `Forwarded to http://127.0.0.1:${port}/hook: 422`
+        );
+      } finally {
+        await new Promise(resolve => app.close(resolve));
+      }
+    });
+
+    it('should answer 502 when the forward target is down', async () => {
+      listener = await startWebhookListener(
+        {secret, port: 0, forwardTo: 'http://127.0.0.1:1/hook'},
+        io
+      );
+      const {payload, headers} = createSignedWebhook('subscription.create', {
+        secret,
+      });
+
+      const response = await post(listener.url, payload, headers);
+
+      expect(response.status).toBe(502);
+      expect(stderr[0]).toMatch(/^Could not forward to http:\/\/127.0.0.1:1/);
+    });
+  });
+
+  describe('trigger', () => {
+    const cli = async (...argv: string[]) => {
+      const code = await run(argv, io);
+      return {code, stdout: stdout.join('\n'), stderr: stderr.join('\n')};
+    };
+
+    it('should send a signed event the listener accepts', async () => {
+      listener = await startWebhookListener({secret, port: 0}, io);
+
+      const result = await cli(
+        'webhooks',
+        'trigger',
+        'subscription.past_due',
+        '--to',
+        listener.url,
+        '--data',
+        '{"customer_email": "ana@example.com"}'
+      );
+
+      expect(result.code).toBe(0);
+      expect(result.stdout).toContain('subscription.past_due  ');
+      expect(result.stdout).toContain('"customerEmail": "ana@example.com"');
+      expect(result.stdout).toMatch(
+        /^Sent subscription.past_due \S+ to .* \(HTTP 200\)$/m
+      );
+    });
+
+    it('should fail when the endpoint rejects the event', async () => {
+      listener = await startWebhookListener(
+        {secret: 'whsec_b3RoZXI=', port: 0},
+        io
+      );
+
+      const result = await cli(
+        'webhooks',
+        'trigger',
+        'subscription.cancel',
+        '--to',
+        listener.url
+      );
+
+      expect(result.code).toBe(1);
+      expect(result.stderr).toContain('(HTTP 400)');
+    });
+
+    it('should report unknown event types and a missing secret', async () => {
+      await expect(
+        cli('webhooks', 'trigger', 'invoice.paid')
+      ).resolves.toMatchObject({
+        code: 2,
+        stderr: expect.stringContaining('Unknown event type: invoice.paid'),
+      });
+
+      io.env = {};
+      await expect(
+        cli('webhooks', 'trigger', 'subscription.cancel')
+      ).resolves.toMatchObject({
+        code: 2,
+        stderr: expect.stringContaining('RECURRENTE_SVIX_SIGNING_SECRET'),
+      });
+    });
+  });
+});
@@ -0,0 +1,270 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {run, CliIO} from '../src/cli/index';
+import {parseArgs} from '../src/cli/args';
+import {MockRecurrenteServer} from '../src/testing';
+
+describe('parseArgs', () => {
+  it('should separate positionals from flags in any position', () => {
+    expect(
+      parseArgs(['products', '-o', 'json', 'get', '--yes', '--page=2', 'x'])
+    ).toEqual({
+      positionals: ['products', 'get', 'x'],
+      flags: {output: 'json', yes: true, page: '2'},
+    });
+  });
+
+  it('should reject flags without a value', () => {
+    expect(() => parseArgs(['products', 'list', '--page'])).toThrow(
+      'Missing value for --page'
+    );
+  });
+});
+
+describe('recurrente CLI', () => {
+  const server = new MockRecurrenteServer();
+  let env: Record<string, string | undefined>;
+
+  // Runs the CLI, capturing what it prints
+  const cli = async (...argv: string[]) => {
+    const stdout: string[] = [];
+    const stderr: string[] = [];
+    const io: CliIO = {
+      stdout: text => stdout.push(text),
+      stderr: text => stderr.push(text),
+      env,
+    };
+    const code = await run(argv, io);
+    return {code, stdout: stdout.join('\n'), stderr: stderr.join('\n')};
+  };
+
+  const json = async (...argv: string[]) =>
+    JSON.parse((await cli(...argv, '--output', 'json')).stdout);
+
+  beforeAll(async () => {
+    await server.start();
+  });
+
+  afterAll(async () => {
+    await server.stop();
+  });
+
+  beforeEach(() => {
+    server.reset();
+    env = {
+      RECURRENTE_PUBLIC_KEY: server.publicKey,
+      RECURRENTE_SECRET_KEY: server.secretKey,
+      RECURRENTE_BASE_URL: server.url,
+      RECURRENTE_CONFIG: path.join(os.tmpdir(), 'recurrente-missing.json'),
+    };
+  });
+
+  it('should ping the API', async () => {
+    await expect(cli('ping')).resolves.toEqual({
+      code: 0,
+      stdout: 'Test request succeeded. Status: Hello, Mock Merchant',
+      stderr: '',
+    });
+  });
+
+  it('should create, list, update and delete products', async () => {
+    const created = await json(
+      'products',
+      'create',
+      '--name',
+      'Camiseta',
+      '--amount',
+      '1000'
+    );
+    const recurring = await json(
+      'products',
+      'create',
+      '--data',
+      JSON.stringify({
+        product: {
+          name: 'Plan Mensual',
+          prices_attributes: [
+            {
+              currency: 'GTQ',
+              charge_type: 'recurring',
+              amount_in_cents: 500,
+              billing_interval: 'month',
+              billing_interval_count: 1,
+            },
+          ],
+        },
+      })
+    );
+
+    const list = await cli('products', 'list');
+    expect(list.stdout.split('\n')).toEqual([
+      expect.stringMatching(/^ID\s+NAME\s+STATUS\s+PRICES$/),
+      expect.stringMatching(
+        new RegExp(`^${created.id}\\s+Camiseta\\s+active\\s+GTQ 10.00$`)
+      ),
+      expect.stringMatching(/Plan Mensual\s+active\s+GTQ 5.00 every 1 month$/),
+    ]);
+
+    await cli('products', 'update', created.id, '--name', 'Camiseta Azul');
+    await expect(json('products', 'get', created.id)).resolves.toMatchObject({
+      id: created.id,
+      name: 'Camiseta Azul',
+    });
+
+    await expect(
+      cli('products', 'delete', recurring.id, '--yes')
+    ).resolves.toMatchObject({code: 0, stdout: 'Product deleted successfully'});
+    await expect(json('products', 'list', '--all')).resolves.toHaveLength(1);
+  });
+
+  it('should show and cancel subscriptions', async () => {
+    const plan = await json(
+      'products',
+      'create',
+      '--name',
+      'Plan',
+      '--amount',
+      '500',
+      '--interval',
+      'month'
+    );
+    const {id} = server.addSubscription({priceId: plan.prices[0].id});
+
+    const shown = await cli('subscriptions', 'get', id);
+    expect(shown.stdout).toMatch(/^Status\s+active$/m);
+
+    await expect(
+      json('subscriptions', 'cancel', id, '--yes', '--at-period-end')
+    ).resolves.toHaveProperty('cancelAtPeriodEnd', true);
+    await expect(
+      cli('subscriptions', 'cancel', id, '--yes')
+    ).resolves.toHaveProperty('code', 0);
+    await expect(json('subscriptions', 'get', id)).resolves.toHaveProperty(
+      'status',
+      'canceled'
+    );
+  });
+
+  it('should require --yes for destructive commands', async () => {
+    const result = await cli('products', 'delete', 'prod_1');
+
+    expect(result.code).toBe(2);
+    expect(result.stderr).toContain('Pass --yes to delete prod_1');
+    expect(server.requests).toHaveLength(0);
+  });
+
+  it('should print API errors and exit with status 1', async () => {
+    const missing = await cli('products', 'get', 'prod_missing');
+    expect(missing).toMatchObject({
+      code: 1,
+      stderr: expect.stringContaining('(HTTP 404)'),
+    });
+
+    const invalid = await cli(
+      'products',
+      'create',
+      '--data',
+      '{"name": "Sin precios", "prices_attributes": []}'
+    );
+    expect(invalid.code).toBe(1);
+    expect(invalid.stderr).toMatch(/^ {2}pricesAttributes/m);
+  });
+
+  it('should report usage errors with status 2', async () => {
+    await expect(cli('invoices', 'list')).resolves.toMatchObject({
+      code: 2,
+      stderr: expect.stringContaining('Unknown command: invoices list'),
+    });
+    await expect(cli('ping', '-o', 'yaml')).resolves.toHaveProperty('code', 2);
+    await expect(cli('--help')).resolves.toMatchObject({
+      code: 0,
+      stdout: expect.stringContaining('Usage: recurrente'),
+    });
+  });
+
+  it('should print the package version', async () => {
+    const {version} = JSON.parse(
+      fs.readFileSync(path.join(__dirname, '..', 'package.json'), 'utf8')
+    );
+
+    await expect(cli('--version')).resolves.toEqual({
+      code: 0,
+      stdout: version,
+      stderr: '',
+    });
+    await expect(cli('-v')).resolves.toHaveProperty('stdout', version);
+  });
+
+  it('should prefer flags over the environment', async () => {
+    const result = await cli('ping', '--secret-key', 'sk_test_wrong');
+
+    expect(result.code).toBe(1);
+    expect(result.stderr).toContain('(HTTP 401)');
+  });
+
+  describe('profiles', () => {
+    const file = path.join(os.tmpdir(), `recurrente-cli-${process.pid}.json`);
+
+    beforeAll(() => {
+      fs.writeFileSync(
+        file,
+        JSON.stringify({
+          default: {publicKey: 'pk_wrong', secretKey: 'sk_wrong'},
+          mock: {publicKey: server.publicKey, secretKey: server.secretKey},
+        })
+      );
+    });
+
+    afterAll(() => {
+      fs.unlinkSync(file);
+    });
+
+    beforeEach(() => {
+      env = {RECURRENTE_BASE_URL: server.url, RECURRENTE_CONFIG: file};
+    });
+
+    it('should read the credentials of the selected profile', async () => {
+      await expect(cli('ping', '--profile', 'mock')).resolves.toHaveProperty(
+        'code',
+        0
+      );
+      await expect(cli('ping')).resolves.toHaveProperty('code', 1);
+    });
+
+    it('should prefer a profile given with --profile over the environment', async () => {
+      env = {
+        ...env,
+        RECURRENTE_PUBLIC_KEY: 'pk_wrong',
+        RECURRENTE_SECRET_KEY: 'sk_wrong',
+      };
+
+      await expect(cli('ping', '--profile', 'mock')).resolves.toHaveProperty(
+        'code',
+        0
+      );
+      await expect(
+        cli('ping', '--profile', 'mock', '--secret-key', 'sk_wrong')
+      ).resolves.toHaveProperty('code', 1);
+
+      env.RECURRENTE_PROFILE = 'mock';
+      await expect(cli('ping')).resolves.toHaveProperty('code', 1);
+    });
+
+    it('should reject unknown profiles', async () => {
+      await expect(cli('ping', '--profile', 'staging')).resolves.toMatchObject({
+        code: 2,
+        stderr: expect.stringContaining(`Unknown profile "staging" in ${file}`),
+      });
+    });
+
+    it('should explain where credentials can come from', async () => {
+      env = {RECURRENTE_CONFIG: path.join(os.tmpdir(), 'missing.json')};
+
+      const result = await cli('ping');
+
+      expect(result.code).toBe(2);
+      expect(result.stderr).toContain('Missing Recurrente credentials');
+    });
+  });
+});
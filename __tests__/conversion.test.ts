@@ -0,0 +1,394 @@
+import {toSnakeCase, toCamelCase} from '../src/utils/conversion';
+import {
+  Decoder,
+  decode,
+  webhookEventDecoders,
+  createProductResponseDecoder,
+  getProductResponseDecoder,
+  getAllProductsResponseDecoder,
+  createSubscriptionResponseDecoder,
+  subscriptionStatusResponseDecoder,
+  getAllSubscriptionsResponseDecoder,
+  prorationPreviewDecoder,
+  createCheckoutResponseDecoder,
+  checkoutResponseDecoder,
+  getAllCheckoutsResponseDecoder,
+  paymentIntentResponseDecoder,
+  refundResponseDecoder,
+  getAllRefundsResponseDecoder,
+  customerDecoder,
+  getAllCustomersResponseDecoder,
+  getAllCustomerPaymentsResponseDecoder,
+} from '../src/utils/decoders';
+import {
+  createWebhookEvent,
+  serializeWebhookEvent,
+} from '../src/utils/webhook-fixtures';
+import {verifySvixSignature} from '../src/webhooks';
+import {
+  CreateProductRequest,
+  UpdateProductRequest,
+  ProductSubscription,
+  CreateCheckoutRequest,
+  WebhookEventType,
+  CreateRefundRequest,
+  PauseSubscriptionRequest,
+  ChangeSubscriptionPriceRequest,
+  CreateCustomerRequest,
+  UpdateCustomerRequest,
+} from '../src/types/globals';
+import {secret, signedHeaders} from './helpers/webhooks';
+
+const metadata = {orderId: '1234', user_ref: 'abc', 'Mixed-Key': 'x'};
+
+// One fully populated example of every request type
+const requests: Record<string, object> = {
+  CreateProductRequest: {
+    name: 'Product',
+    description: 'Description',
+    imageUrl: 'https://www.example.com/image.png',
+    pricesAttributes: [
+      {currency: 'GTQ', chargeType: 'one_time', amountInCents: 1000},
+    ],
+    cancelUrl: 'https://www.example.com/cancel',
+    successUrl: 'https://www.example.com/success',
+    customTermsAndConditions: 'Terms',
+    phoneRequirement: 'none',
+    addressRequirement: 'optional',
+    billingInfoRequirement: 'none',
+    adjustableQuantity: true,
+    metadata,
+  } as CreateProductRequest,
+  UpdateProductRequest: {
+    name: 'Updated',
+    pricesAttributes: [
+      {id: 'price_1', amountInCents: 2000, billingIntervalCount: 1},
+      {id: 'price_2', _destroy: true},
+    ],
+    metadata,
+  } as UpdateProductRequest,
+  ProductSubscription: {
+    product: {
+      name: 'Subscription',
+      pricesAttributes: [
+        {
+          currency: 'USD',
+          chargeType: 'recurring',
+          amountInCents: 500,
+          billingIntervalCount: 1,
+          billingInterval: 'month',
+          freeTrialIntervalCount: 1,
+          freeTrialInterval: 'week',
+          periodsBeforeAutomaticCancellation: 12,
+          periodsBeforeAllowedToCancel: 3,
+        },
+      ],
+      phoneRequirement: 'required',
+    },
+    metadata,
+  } as ProductSubscription,
+  CreateCheckoutRequest: {
+    items: [
+      {priceId: 'price_1', quantity: 2},
+      {name: 'Item', amountInCents: 1500, currency: 'GTQ', imageUrl: 'x'},
+    ],
+    successUrl: 'https://www.example.com/success',
+    userId: 'us_1',
+    expiresAt: '2024-01-01T00:00:00.000Z',
+    metadata,
+  } as CreateCheckoutRequest,
+  CreateRefundRequest: {
+    paymentIntentId: 'pa_1',
+    amountInCents: 100,
+    reason: 'Damaged',
+    metadata,
+  } as CreateRefundRequest,
+  PauseSubscriptionRequest: {
+    resumesAt: '2024-01-01T00:00:00.000Z',
+  } as PauseSubscriptionRequest,
+  ChangeSubscriptionPriceRequest: {
+    priceId: 'price_2',
+    prorationBehavior: 'create_prorations',
+  } as ChangeSubscriptionPriceRequest,
+  CreateCustomerRequest: {
+    email: 'customer@example.com',
+    firstName: 'Jane',
+    lastName: 'Doe',
+    phoneNumber: '+50255555555',
+    metadata,
+  } as CreateCustomerRequest,
+  UpdateCustomerRequest: {fullName: 'Jane Doe'} as UpdateCustomerRequest,
+};
+
+const product = {
+  id: 'prod_1',
+  status: 'active',
+  name: 'Plan',
+  success_url: 'https://example.com/success',
+  cancel_url: 'https://example.com/cancel',
+  phone_requirement: 'none',
+  address_requirement: 'none',
+  billing_info_requirement: 'none',
+  prices: [
+    {
+      id: 'price_1',
+      amount_in_cents: 1000,
+      currency: 'GTQ',
+      billing_interval_count: 0,
+      billing_interval: '',
+      charge_type: 'one_time',
+    },
+  ],
+  storefront_link: 'https://app.recurrente.com/s/plan',
+  metadata,
+};
+
+const customer = {
+  id: 'us_1',
+  email: 'ana@example.com',
+  full_name: 'Ana López',
+  first_name: 'Ana',
+  last_name: 'López',
+  phone_number: null,
+  created_at: '2024-05-01T00:00:00Z',
+  metadata,
+};
+
+const subscription = {
+  id: 'su_1',
+  description: 'Plan',
+  status: 'active',
+  created_at: '2024-05-01T00:00:00Z',
+  updated_at: '2024-05-01T00:00:00Z',
+  current_period_start: '2024-05-01T00:00:00Z',
+  current_period_end: '2024-06-01T00:00:00Z',
+  tax_name: null,
+  tax_id: null,
+  subscriber: customer,
+  checkout: {id: 'ch_1'},
+  product: {id: 'prod_1'},
+};
+
+const checkout = {
+  id: 'ch_1',
+  status: 'unpaid',
+  checkout_url: 'https://app.recurrente.com/checkout-session/ch_1',
+  items: [
+    {
+      price_id: 'price_1',
+      name: 'Plan',
+      amount_in_cents: 1000,
+      currency: 'GTQ',
+      quantity: 1,
+    },
+  ],
+  total_in_cents: 1000,
+  success_url: null,
+  cancel_url: null,
+  created_at: '2024-05-01T00:00:00Z',
+  expires_at: null,
+  metadata,
+};
+
+const refund = {
+  id: 're_1',
+  status: 'succeeded',
+  amount_in_cents: 100,
+  currency: 'GTQ',
+  reason: null,
+  payment_intent: {id: 'pa_1'},
+  created_at: '2024-05-01T00:00:00Z',
+  metadata,
+};
+
+// One example of every response type, in the snake_case sent by Recurrente
+const responses: [Decoder<unknown>, unknown][] = [
+  [
+    createProductResponseDecoder,
+    {
+      ...product,
+      prices: [
+        {
+          id: 'price_1',
+          amount_in_cents: 1000,
+          currency: 'GTQ',
+          charge_type: 'one_time',
+        },
+      ],
+    },
+  ],
+  [getProductResponseDecoder, product],
+  [getAllProductsResponseDecoder, [product, product]],
+  [
+    createSubscriptionResponseDecoder,
+    {
+      ...product,
+      status: 'pending',
+      prices: [
+        {
+          id: 'price_2',
+          amount_in_cents: 500,
+          currency: 'USD',
+          billing_interval_count: 1,
+          billing_interval: 'month',
+          charge_type: 'recurring',
+        },
+      ],
+    },
+  ],
+  [subscriptionStatusResponseDecoder, subscription],
+  [getAllSubscriptionsResponseDecoder, [subscription]],
+  [
+    prorationPreviewDecoder,
+    {
+      subscription_id: 'su_1',
+      current_price_id: 'price_1',
+      new_price_id: 'price_2',
+      proration_amount_in_cents: 500,
+      next_invoice_amount_in_cents: 1500,
+      currency: 'GTQ',
+      effective_at: '2024-05-15T00:00:00Z',
+    },
+  ],
+  [
+    createCheckoutResponseDecoder,
+    {id: 'ch_1', checkout_url: checkout.checkout_url},
+  ],
+  [checkoutResponseDecoder, checkout],
+  [getAllCheckoutsResponseDecoder, [checkout]],
+  [
+    paymentIntentResponseDecoder,
+    {
+      id: 'pa_1',
+      status: 'succeeded',
+      amount_in_cents: 1000,
+      refunded_amount_in_cents: 100,
+      currency: 'GTQ',
+    },
+  ],
+  [refundResponseDecoder, refund],
+  [getAllRefundsResponseDecoder, [refund]],
+  [customerDecoder, customer],
+  [getAllCustomersResponseDecoder, [customer]],
+  [
+    getAllCustomerPaymentsResponseDecoder,
+    [
+      {
+        id: 'pa_1',
+        status: 'succeeded',
+        amount_in_cents: 1000,
+        currency: 'GTQ',
+        created_at: '2024-05-01T00:00:00Z',
+        checkout: {id: 'ch_1'},
+        product: null,
+      },
+    ],
+  ],
+];
+
+describe('Case conversion', () => {
+  it.each(Object.entries(requests))('should round-trip %s', (type, request) => {
+    expect(toCamelCase(toSnakeCase(request, {type}), {type})).toEqual(request);
+  });
+
+  it.each(responses.map(([expected, data]) => [expected.name, expected, data]))(
+    'should round-trip %s',
+    (type, expected, data) => {
+      const camelCase = toCamelCase(data, {type});
+
+      expect(() =>
+        decode(expected as Decoder<unknown>, camelCase, {mode: 'strict'})
+      ).not.toThrow();
+      expect(toSnakeCase(camelCase, {type})).toEqual(data);
+    }
+  );
+
+  it.each(Object.keys(webhookEventDecoders) as WebhookEventType[])(
+    'should round-trip %s webhook payloads',
+    eventType => {
+      const event = createWebhookEvent(eventType);
+      if (event.eventType === 'payment_intent.succeeded') {
+        event.checkout.metadata = metadata;
+      }
+      const payload = serializeWebhookEvent(event);
+
+      expect(
+        verifySvixSignature(payload, signedHeaders(payload), {
+          secret,
+          mode: 'strict',
+        })
+      ).toEqual(event);
+    }
+  );
+
+  it('should convert keys but leave metadata untouched', () => {
+    const snake = toSnakeCase(requests.CreateProductRequest, {
+      type: 'CreateProductRequest',
+    }) as Record<string, unknown>;
+
+    expect(snake).toHaveProperty('prices_attributes.0.amount_in_cents', 1000);
+    expect(snake.metadata).toEqual(metadata);
+  });
+
+  it('should leave nested metadata of responses untouched', () => {
+    const event = toCamelCase(
+      {
+        event_type: 'payment_intent.succeeded',
+        checkout: {id: 'ch_1', metadata: {user_ref: 'abc', orderId: '1'}},
+        payment: {paymentable: {address: {address_line_1: 'Street'}}},
+      },
+      {type: 'PaymentIntentSucceeded'}
+    );
+
+    expect(event).toEqual({
+      eventType: 'payment_intent.succeeded',
+      checkout: {id: 'ch_1', metadata: {user_ref: 'abc', orderId: '1'}},
+      payment: {paymentable: {address: {addressLine1: 'Street'}}},
+    });
+  });
+
+  it('should convert properties named like opaque ones at other paths', () => {
+    expect(
+      toCamelCase(
+        {
+          metadata: {user_ref: 'abc'},
+          subscriber: {metadata: {user_ref: 'abc'}},
+        },
+        {type: 'SubscriptionStatusResponse'}
+      )
+    ).toEqual({
+      metadata: {userRef: 'abc'},
+      subscriber: {metadata: {user_ref: 'abc'}},
+    });
+  });
+
+  it('should accept further opaque paths', () => {
+    expect(
+      toSnakeCase(
+        {items: [{extraData: {someKey: 1}}]},
+        {opaquePaths: ['items[].extraData']}
+      )
+    ).toEqual({items: [{extra_data: {someKey: 1}}]});
+  });
+
+  it('should keep the extra opaque fields of webhook payloads', () => {
+    const payload = JSON.stringify({
+      id: 'evt_1',
+      event_type: 'invoice.created',
+      custom_fields: {Tax_ID: '1', order_ref: 'A-1'},
+      invoice: {tax_invoice_url: null},
+    });
+
+    expect(
+      verifySvixSignature(payload, signedHeaders(payload), {
+        secret,
+        opaquePaths: ['customFields'],
+      })
+    ).toEqual({
+      id: 'evt_1',
+      eventType: 'invoice.created',
+      customFields: {Tax_ID: '1', order_ref: 'A-1'},
+      invoice: {taxInvoiceUrl: null},
+    });
+  });
+});
@@ -0,0 +1,101 @@
+import {createFakeClient} from './helpers/fake-client';
+
+const customer = {
+  id: 'us_1',
+  email: 'ana+pagos@example.com',
+  full_name: 'Ana López',
+  first_name: 'Ana',
+  last_name: 'López',
+  phone_number: null,
+  created_at: '2024-05-01T00:00:00Z',
+  metadata: {crm_id: 'C-1'},
+};
+
+// Creates a strict client whose transport serves two pages of customers
+const createClient = () =>
+  createFakeClient(
+    config => {
+      if (config.method !== 'get' || config.url === '/customers/us_1') {
+        return {data: customer};
+      }
+      const page = config.params?.page ?? 1;
+      if (config.url !== '/customers' || page > 2) {
+        return {data: []};
+      }
+      return {data: [{...customer, id: `us_${page}`}]};
+    },
+    {decoding: 'strict'}
+  );
+
+describe('Customers', () => {
+  it('should decode customers into camelCase', async () => {
+    const {client} = createClient();
+
+    await expect(client.customers.retrieve('us_1')).resolves.toEqual({
+      id: 'us_1',
+      email: 'ana+pagos@example.com',
+      fullName: 'Ana López',
+      firstName: 'Ana',
+      lastName: 'López',
+      phoneNumber: null,
+      createdAt: '2024-05-01T00:00:00Z',
+      metadata: {crm_id: 'C-1'},
+    });
+  });
+
+  it('should send new customers in snake_case', async () => {
+    const {client, calls} = createClient();
+
+    await client.customers.create({
+      email: 'ana+pagos@example.com',
+      fullName: 'Ana López',
+      phoneNumber: '+50255555555',
+    });
+    await client.customers.update('us_1', {lastName: 'López'});
+
+    expect(calls.map(call => [call.method, call.url])).toEqual([
+      ['post', '/customers/'],
+      ['patch', '/customers/us_1'],
+    ]);
+    expect(JSON.parse(calls[0].data)).toEqual({
+      email: 'ana+pagos@example.com',
+      full_name: 'Ana López',
+      phone_number: '+50255555555',
+    });
+    expect(JSON.parse(calls[1].data)).toEqual({last_name: 'López'});
+  });
+
+  it('should search by email through the query string of every page', async () => {
+    const {client, calls} = createClient();
+
+    const found = await client.customers.searchByEmail('ana+pagos@example.com');
+
+    expect(found.map(item => item.id)).toEqual(['us_1', 'us_2']);
+    expect(calls.map(call => client.http.getUri(call))).toEqual(
+      [1, 2, 3].map(
+        page =>
+          `https://app.recurrente.com/api/customers?email=ana%2Bpagos%40example.com&page=${page}`
+      )
+    );
+  });
+
+  it('should list from the requested page without filters', async () => {
+    const {client, calls} = createClient();
+
+    await client.customers.list(undefined, {startPage: 2}).toArray();
+
+    expect(calls.map(call => call.params)).toEqual([{page: 2}, {page: 3}]);
+  });
+
+  it('should page through the subscriptions and payments of a customer', async () => {
+    const {client, calls} = createClient();
+
+    await client.customers.listSubscriptions('us_1').toArray();
+    await client.customers.listPayments('us_1', {startPage: 4}).toArray();
+
+    expect(calls.map(call => call.url)).toEqual([
+      '/customers/us_1/subscriptions?page=1',
+      '/customers/us_1/payments?page=4',
+    ]);
+  });
+});
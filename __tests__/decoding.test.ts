@@ -0,0 +1,144 @@
+import {DecodingError} from '../src';
+import {decodeWebhookEvent} from '../src/webhooks';
+import {DecodingMode} from '../src/types/globals';
+import {createFakeClient} from './helpers/fake-client';
+
+const product = {
+  id: 'prod_1',
+  status: 'active',
+  name: 'Plan',
+  success_url: 'https://example.com/success',
+  cancel_url: 'https://example.com/cancel',
+  phone_requirement: 'none',
+  address_requirement: 'none',
+  billing_info_requirement: 'none',
+  prices: [
+    {
+      id: 'price_1',
+      amount_in_cents: 1000,
+      currency: 'GTQ',
+      billing_interval_count: 0,
+      billing_interval: '',
+      charge_type: 'one_time',
+    },
+  ],
+  storefront_link: 'https://app.recurrente.com/s/plan',
+  metadata: {order_ref: 'A-1'},
+};
+
+// Creates a client whose transport always answers with the given body
+const createClient = (data: unknown, decoding?: DecodingMode) =>
+  createFakeClient(() => ({data, headers: {'x-request-id': 'req_1'}}), {
+    decoding,
+  });
+
+describe('Response decoding', () => {
+  it('should return matching responses without warnings', async () => {
+    const {client, warn} = createClient(product, 'strict');
+
+    const result = await client.getProduct('prod_1');
+
+    expect(result.storefrontLink).toBe(product.storefront_link);
+    expect(result.metadata).toEqual({order_ref: 'A-1'});
+    expect(warn).not.toHaveBeenCalled();
+  });
+
+  it('should throw on schema drift in strict mode', async () => {
+    const {client} = createClient(
+      {...product, storefront_link: undefined, new_field: true},
+      'strict'
+    );
+
+    const error = await client.getProduct('prod_1').catch(e => e);
+
+    expect(error).toBeInstanceOf(DecodingError);
+    expect(error.type).toBe('GetProductResponse');
+    expect(error.requestId).toBe('req_1');
+    expect(error.issues).toEqual({
+      storefrontLink: ['is required'],
+      newField: ['is not a known property'],
+    });
+  });
+
+  it('should pass unknown fields through silently in lenient mode', async () => {
+    const {client, warn} = createClient({...product, new_field: true});
+
+    const result = await client.getProduct('prod_1');
+
+    expect(result).toHaveProperty('newField', true);
+    expect(warn).not.toHaveBeenCalled();
+  });
+
+  it('should warn about mismatched fields in lenient mode', async () => {
+    const {client, warn} = createClient({
+      ...product,
+      storefront_link: undefined,
+      new_field: true,
+    });
+
+    const result = await client.getProduct('prod_1');
+
+    expect(result).toHaveProperty('newField', true);
+    expect(warn).toHaveBeenCalledWith('Unexpected GetProductResponse payload', {
+      type: 'GetProductResponse',
+      method: 'GET',
+      path: '/products/prod_1',
+      requestId: 'req_1',
+      issues: [{path: 'storefrontLink', message: 'is required'}],
+    });
+  });
+
+  it('should report the path of nested mismatches', async () => {
+    const {client} = createClient(
+      [{...product, prices: [{...product.prices[0], currency: 'EUR'}]}],
+      'strict'
+    );
+
+    const error = await client.getAllProducts().catch(e => e);
+
+    expect(error.issues).toEqual({
+      '[0].prices[0].currency': ["must be one of 'GTQ', 'USD'"],
+    });
+  });
+});
+
+describe('Webhook decoding', () => {
+  const event = {
+    id: 'evt_1',
+    eventType: 'subscription.cancel',
+    apiVersion: '2024-04-24',
+    createdAt: '2024-05-01T00:00:00Z',
+    customerEmail: 'ana@example.com',
+    customerId: 'cus_1',
+    customerName: 'Ana',
+  };
+
+  it('should decode events with the decoder of their type', () => {
+    expect(decodeWebhookEvent(event, {mode: 'strict'})).toBe(event);
+    expect(() =>
+      decodeWebhookEvent({...event, customerId: 1}, {mode: 'strict'})
+    ).toThrow(DecodingError);
+  });
+
+  it('should pass unknown event types through', () => {
+    const warn = jest.fn();
+    const unknownEvent = {...event, eventType: 'invoice.sent', invoiceId: 'i'};
+
+    expect(
+      decodeWebhookEvent(unknownEvent, {mode: 'strict', logger: {warn}})
+    ).toBe(unknownEvent);
+    expect(warn).not.toHaveBeenCalled();
+  });
+
+  it('should not write to the console without a logger', () => {
+    const consoleWarn = jest.spyOn(console, 'warn').mockImplementation();
+
+    try {
+      const mismatched = {...event, customerId: 1};
+      expect(decodeWebhookEvent(mismatched)).toBe(mismatched);
+      expect(consoleWarn).not.toHaveBeenCalled();
+    } finally {
+      consoleWarn.mockRestore();
+    }
+  });
+});
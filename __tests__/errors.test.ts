@@ -0,0 +1,84 @@
+import {AxiosError, AxiosHeaders} from 'axios';
+import {
+  handleAxiosError,
+  RecurrenteError,
+  AuthenticationError,
+  ValidationError,
+  NotFoundError,
+  RateLimitError,
+  ServerError,
+  NetworkError,
+  TimeoutError,
+} from '../src/api/errors';
+
+// Builds an AxiosError as thrown by the client for a given response
+const axiosErrorWithResponse = (
+  status: number,
+  data: unknown,
+  headers: Record<string, string> = {}
+): AxiosError => {
+  const config = {
+    method: 'post',
+    url: '/products/',
+    headers: new AxiosHeaders(),
+  };
+  return new AxiosError(
+    `Request failed with status code ${status}`,
+    'ERR_BAD_RESPONSE',
+    config,
+    {},
+    {status, statusText: '', data, headers, config}
+  );
+};
+
+describe('handleAxiosError', () => {
+  it('should map status codes to error classes', () => {
+    expect(handleAxiosError(axiosErrorWithResponse(401, {}))).toBeInstanceOf(
+      AuthenticationError
+    );
+    expect(handleAxiosError(axiosErrorWithResponse(404, {}))).toBeInstanceOf(
+      NotFoundError
+    );
+    expect(handleAxiosError(axiosErrorWithResponse(502, {}))).toBeInstanceOf(
+      ServerError
+    );
+    expect(handleAxiosError(axiosErrorWithResponse(409, {}))).toBeInstanceOf(
+      RecurrenteError
+    );
+  });
+
+  it('should expose the request context and raw body', () => {
+    const body = {message: 'Invalid', errors: {name: ['is required']}};
+    const error = handleAxiosError(
+      axiosErrorWithResponse(422, body, {'x-request-id': 'req_123'})
+    );
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error).toBeInstanceOf(Error);
+    expect(error.message).toBe('Invalid');
+    expect(error.status).toBe(422);
+    expect(error.requestId).toBe('req_123');
+    expect(error.method).toBe('POST');
+    expect(error.path).toBe('/products/');
+    expect(error.body).toEqual(body);
+    expect((error as ValidationError).errors).toEqual({name: ['is required']});
+  });
+
+  it('should read Retry-After on rate limit errors', () => {
+    const error = handleAxiosError(
+      axiosErrorWithResponse(429, {}, {'retry-after': '3'})
+    );
+
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect((error as RateLimitError).retryAfter).toBe(3);
+  });
+
+  it('should distinguish timeouts from other network failures', () => {
+    const timeout = new AxiosError('timeout of 10ms exceeded', 'ECONNABORTED');
+    const reset = new AxiosError('socket hang up', 'ECONNRESET');
+
+    expect(handleAxiosError(timeout)).toBeInstanceOf(TimeoutError);
+    expect(handleAxiosError(reset)).toBeInstanceOf(NetworkError);
+    expect(handleAxiosError(reset)).not.toBeInstanceOf(TimeoutError);
+  });
+});
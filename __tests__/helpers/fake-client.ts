@@ -0,0 +1,61 @@
+import {AxiosError, AxiosResponse, InternalAxiosRequestConfig} from 'axios';
+import {RecurrenteClient} from '../../src';
+import {RecurrenteClientConfig} from '../../src/types/globals';
+
+/**
+ * A response of the fake transport. Defaults to 200 with an empty object.
+ */
+export interface FakeReply {
+  status?: number;
+  data?: unknown;
+  headers?: Record<string, string>;
+}
+
+/**
+ * Answers a request sent through the fake transport.
+ */
+export type FakeResponder = (
+  config: InternalAxiosRequestConfig,
+  calls: InternalAxiosRequestConfig[]
+) => FakeReply;
+
+/**
+ * Creates a client whose transport records every request it receives and
+ * answers with `respond`, without touching the network. Replies with an error
+ * status are thrown as an `AxiosError`, like the real adapter does.
+ *
+ * @param {FakeResponder} [respond] - Builds the reply from the request and the calls so far.
+ * @param {Partial<RecurrenteClientConfig>} [config] - Overrides for the client configuration.
+ * @returns {{client: RecurrenteClient, calls: InternalAxiosRequestConfig[], warn: jest.Mock}} The client, the recorded requests and the logger's `warn`.
+ */
+export const createFakeClient = (
+  respond: FakeResponder = () => ({}),
+  config: Partial<RecurrenteClientConfig> = {}
+) => {
+  const warn = jest.fn();
+  const client = new RecurrenteClient({
+    publicKey: 'pk_test',
+    secretKey: 'sk_test',
+    logger: {warn},
+    ...config,
+  });
+  const calls: InternalAxiosRequestConfig[] = [];
+
+  client.http.defaults.adapter = async request => {
+    calls.push(request);
+    const {status = 200, data = {}, headers = {}} = respond(request, calls);
+    const response: AxiosResponse = {
+      status,
+      statusText: '',
+      data,
+      headers,
+      config: request,
+    };
+    if (status >= 400) {
+      throw new AxiosError('Failed', 'ERR_BAD_RESPONSE', request, {}, response);
+    }
+    return response;
+  };
+
+  return {client, calls, warn};
+};
@@ -0,0 +1,34 @@
+import {SignWebhookOptions} from '../../src/types/globals';
+import {signWebhookPayload} from '../../src/utils/webhook-fixtures';
+
+/**
+ * The signing secret of the test deliveries.
+ */
+export const secret = `whsec_${Buffer.from('test-secret').toString('base64')}`;
+
+/**
+ * A `subscription.cancel` delivery, in the snake_case sent by Recurrente.
+ */
+export const payload = JSON.stringify({
+  id: 'evt_1',
+  event_type: 'subscription.cancel',
+  api_version: '2024-04-24',
+  created_at: '2024-05-01T00:00:00Z',
+  customer_email: 'ana@example.com',
+  customer_id: 'cus_1',
+  customer_name: 'Ana',
+});
+
+/**
+ * Signs a body the way Svix does: with `secret`, as message `msg_1` sent now,
+ * unless the options say otherwise.
+ *
+ * @param {string} [body] - The request body. Defaults to `payload`.
+ * @param {Partial<SignWebhookOptions>} [options] - The secret, message ID or signing time to use instead.
+ * @returns {Record<string, string>} The `svix-*` headers of the delivery, free to alter.
+ */
+export const signedHeaders = (
+  body = payload,
+  options: Partial<SignWebhookOptions> = {}
+): Record<string, string> =>
+  signWebhookPayload(body, {secret, id: 'msg_1', ...options});
@@ -0,0 +1,95 @@
+import {AxiosAdapter, AxiosResponse} from 'axios';
+import {CreateProductRequest} from '../src/types/globals';
+import {createFakeClient} from './helpers/fake-client';
+
+const productData: CreateProductRequest = {
+  name: 'Product',
+  pricesAttributes: [
+    {currency: 'GTQ', chargeType: 'one_time', amountInCents: 1000},
+  ],
+  phoneRequirement: 'none',
+  addressRequirement: 'none',
+  billingInfoRequirement: 'none',
+};
+
+// Creates a client whose transport creates a new product on every call
+const createClient = (retry?: false) =>
+  createFakeClient(
+    (config, calls) => ({status: 201, data: {id: `prod_${calls.length}`}}),
+    {retry}
+  );
+
+describe('Idempotency keys', () => {
+  it('should send the idempotency key as a header', async () => {
+    const {client, calls} = createClient();
+
+    await client.createProduct(productData, {idempotencyKey: 'key_1'});
+    expect(calls[0].headers['Idempotency-Key']).toBe('key_1');
+  });
+
+  it('should return the first result when a key is reused', async () => {
+    const {client, calls} = createClient();
+
+    const first = await client.createProduct(productData, {
+      idempotencyKey: 'key_1',
+    });
+    const second = await client.createProduct(productData, {
+      idempotencyKey: 'key_1',
+    });
+    const third = await client.createProduct(productData, {
+      idempotencyKey: 'key_2',
+    });
+
+    expect(calls).toHaveLength(2);
+    expect(second.id).toBe(first.id);
+    expect(third.id).not.toBe(first.id);
+  });
+
+  it('should replay only the status, headers and body of the first response', async () => {
+    const {client} = createClient();
+    const adapter = client.http.defaults.adapter as AxiosAdapter;
+    client.http.defaults.adapter = async config => ({
+      ...(await adapter(config)),
+      request: {socket: 'open'},
+    });
+    const responses: AxiosResponse[] = [];
+    client.http.interceptors.response.use(response => {
+      responses.push(response);
+      return response;
+    });
+
+    await client.createProduct(productData, {idempotencyKey: 'key_1'});
+    await client.createProduct(productData, {idempotencyKey: 'key_1'});
+
+    expect(responses[0].request).toEqual({socket: 'open'});
+    expect(responses[1]).toEqual({
+      status: 201,
+      statusText: '',
+      headers: responses[0].headers,
+      data: {id: 'prod_1'},
+      config: expect.objectContaining({url: '/products/'}),
+    });
+    expect(responses[1]).not.toHaveProperty('request');
+    expect(responses[1].config).not.toBe(responses[0].config);
+  });
+
+  it('should generate a key for creations when retries are enabled', async () => {
+    const {client, calls} = createClient();
+
+    await client.createProduct(productData);
+    await client.createProduct(productData);
+
+    expect(calls).toHaveLength(2);
+    expect(calls[0].headers['Idempotency-Key']).toBeTruthy();
+    expect(calls[1].headers['Idempotency-Key']).not.toBe(
+      calls[0].headers['Idempotency-Key']
+    );
+  });
+
+  it('should not generate a key when retries are disabled', async () => {
+    const {client, calls} = createClient(false);
+
+    await client.createProduct(productData);
+    expect(calls[0].headers['Idempotency-Key']).toBeUndefined();
+  });
+});
@@ -0,0 +1,288 @@
+import axios from 'axios';
+import {RecurrenteClient} from '../src';
+import {MockRecurrenteServer} from '../src/testing';
+import {
+  AuthenticationError,
+  NotFoundError,
+  RateLimitError,
+  ServerError,
+  TimeoutError,
+  ValidationError,
+} from '../src/api/errors';
+import {
+  CreateProductRequest,
+  ProductSubscription,
+  RecurrenteClientConfig,
+} from '../src/types/globals';
+
+const oneTimeProduct: CreateProductRequest = {
+  name: 'Camiseta',
+  pricesAttributes: [
+    {currency: 'GTQ', chargeType: 'one_time', amountInCents: 1000},
+  ],
+  phoneRequirement: 'none',
+  addressRequirement: 'none',
+  billingInfoRequirement: 'none',
+  metadata: {sku: 'TSHIRT-1'},
+};
+
+const recurringProduct = (amountInCents = 500): ProductSubscription => ({
+  product: {
+    name: 'Plan Mensual',
+    pricesAttributes: [
+      {
+        currency: 'GTQ',
+        chargeType: 'recurring',
+        amountInCents,
+        billingIntervalCount: 1,
+        billingInterval: 'month',
+      },
+    ],
+  },
+});
+
+describe('MockRecurrenteServer', () => {
+  const server = new MockRecurrenteServer();
+  let client: RecurrenteClient;
+
+  const createClient = (config: Partial<RecurrenteClientConfig> = {}) =>
+    new RecurrenteClient({
+      ...server.clientConfig(),
+      decoding: 'strict',
+      retry: {initialDelay: 1, maxDelay: 5},
+      logger: {warn: () => {}},
+      ...config,
+    });
+
+  beforeAll(async () => {
+    await server.start();
+  });
+
+  afterAll(async () => {
+    await server.stop();
+  });
+
+  beforeEach(() => {
+    server.reset();
+    client = createClient();
+  });
+
+  it('should answer the test endpoint', async () => {
+    await expect(client.test()).resolves.toEqual({
+      message: 'Test request succeeded. Status: Hello, Mock Merchant',
+    });
+  });
+
+  it('should reject unknown credentials', async () => {
+    const other = createClient({secretKey: 'sk_test_other'});
+
+    await expect(other.test()).rejects.toBeInstanceOf(AuthenticationError);
+  });
+
+  it('should serve products that pass strict decoding', async () => {
+    const created = await client.createProduct(oneTimeProduct);
+    const product = await client.getProduct(created.id);
+
+    expect(product).toMatchObject({
+      id: created.id,
+      name: 'Camiseta',
+      metadata: {sku: 'TSHIRT-1'},
+      prices: [{amountInCents: 1000, chargeType: 'one_time'}],
+    });
+    await expect(client.getAllProducts()).resolves.toEqual([product]);
+  });
+
+  it('should send snake_case payloads over the wire', async () => {
+    await client.createProduct(oneTimeProduct);
+
+    const response = await axios.get(`${server.url}/api/products`, {
+      headers: {
+        'X-PUBLIC-KEY': server.publicKey,
+        'X-SECRET-KEY': server.secretKey,
+      },
+    });
+
+    expect(response.data[0]).toMatchObject({
+      storefront_link: expect.any(String),
+      prices: [{amount_in_cents: 1000, charge_type: 'one_time'}],
+    });
+    expect(server.requests[0]).toMatchObject({
+      method: 'POST',
+      path: '/products',
+      body: {prices_attributes: [{amount_in_cents: 1000}]},
+    });
+  });
+
+  it('should paginate product lists', async () => {
+    const small = new MockRecurrenteServer({pageSize: 2});
+    await small.start();
+    const smallClient = createClient(small.clientConfig());
+
+    for (let i = 0; i < 3; i++) {
+      await smallClient.createProduct(oneTimeProduct);
+    }
+
+    await expect(smallClient.getAllProducts(2)).resolves.toHaveLength(1);
+    await small.stop();
+  });
+
+  it('should update and delete products like the API', async () => {
+    const {id, prices} = await client.createProduct(oneTimeProduct);
+
+    await client.updateProduct(id, {
+      name: 'Camiseta Azul',
+      pricesAttributes: [{id: prices[0].id, amountInCents: 2000}],
+    });
+    const removed = await client.updateProduct(id, {
+      pricesAttributes: [{id: prices[0].id, _destroy: true}],
+    });
+
+    expect(removed.name).toBe('Camiseta Azul');
+    expect(removed.prices).toEqual([
+      expect.objectContaining({id: prices[0].id, amountInCents: 2000}),
+    ]);
+
+    await client.deleteProduct(id);
+    await expect(client.getProduct(id)).rejects.toBeInstanceOf(NotFoundError);
+  });
+
+  it('should respond with validation errors in snake_case', async () => {
+    const {id} = await client.createProduct(oneTimeProduct);
+
+    const error = await client
+      .updateProduct(id, {pricesAttributes: [{id: 'price_unknown'}]})
+      .catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect((error as ValidationError).errors).toEqual({
+      'prices_attributes[0].id': ['does not belong to the product'],
+    });
+  });
+
+  it('should manage the lifecycle of subscriptions', async () => {
+    const product = await client.createSubscription(recurringProduct());
+    const upgrade = await client.createSubscription(recurringProduct(900));
+    const {id} = server.addSubscription({
+      priceId: product.prices[0].id,
+      subscriber: {email: 'eva@example.com', fullName: 'Eva Pérez'},
+    });
+
+    const paused = await client.pauseSubscription(id);
+    expect(paused.status).toBe('paused');
+    await expect(client.pauseSubscription(id)).rejects.toBeInstanceOf(
+      ValidationError
+    );
+    await expect(client.resumeSubscription(id)).resolves.toHaveProperty(
+      'status',
+      'active'
+    );
+
+    const preview = await client.previewSubscriptionPriceChange(id, {
+      priceId: upgrade.prices[0].id,
+    });
+    expect(preview).toMatchObject({
+      currentPriceId: product.prices[0].id,
+      newPriceId: upgrade.prices[0].id,
+      currency: 'GTQ',
+    });
+    expect(preview.prorationAmountInCents).toBeGreaterThan(0);
+    expect(preview.prorationAmountInCents).toBeLessThanOrEqual(400);
+
+    const changed = await client.changeSubscriptionPrice(id, {
+      priceId: upgrade.prices[0].id,
+    });
+    expect(changed.product.id).toBe(upgrade.id);
+
+    await expect(client.cancelAtPeriodEnd(id)).resolves.toHaveProperty(
+      'cancelAtPeriodEnd',
+      true
+    );
+    await client.cancelSubscription(id);
+    await expect(client.getSubscription(id)).resolves.toMatchObject({
+      status: 'canceled',
+      subscriber: {email: 'eva@example.com', firstName: 'Eva'},
+    });
+  });
+
+  it('should filter subscriptions', async () => {
+    const product = await client.createSubscription(recurringProduct());
+    const priceId = product.prices[0].id;
+    server.addSubscription({priceId});
+    server.addSubscription({priceId, status: 'past_due'});
+    server.addSubscription({
+      priceId,
+      status: 'past_due',
+      subscriber: {email: 'eva@example.com'},
+    });
+
+    const pastDue = await client
+      .listSubscriptions({
+        status: 'past_due',
+        subscriberEmail: 'eva@example.com',
+      })
+      .toArray();
+
+    expect(pastDue).toHaveLength(1);
+    expect(pastDue[0].subscriber.email).toBe('eva@example.com');
+  });
+
+  it('should only add subscriptions to recurring prices', async () => {
+    const {prices} = await client.createProduct(oneTimeProduct);
+
+    expect(() => server.addSubscription({priceId: prices[0].id})).toThrow(
+      `Cannot add a subscription: ${prices[0].id} is not a recurring price`
+    );
+  });
+
+  it('should let the client retry injected server errors', async () => {
+    server.injectFault({path: '/products', status: 503, times: 2});
+    const {id} = await client.createProduct(oneTimeProduct, {
+      idempotencyKey: 'create-tshirt',
+    });
+
+    await expect(client.getProduct(id)).resolves.toHaveProperty('id', id);
+    expect(server.requests.map(request => request.method)).toEqual([
+      'POST',
+      'POST',
+      'POST',
+      'GET',
+    ]);
+  });
+
+  it('should surface faults that outlast the retries', async () => {
+    server.injectFault({method: 'GET', status: 500, times: Infinity});
+
+    await expect(client.test()).rejects.toBeInstanceOf(ServerError);
+    expect(server.requests).toHaveLength(3);
+  });
+
+  it('should rate limit with a Retry-After header', async () => {
+    server.injectFault({status: 429, retryAfter: 30, times: Infinity});
+
+    const error = await client.test().catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect((error as RateLimitError).retryAfter).toBe(30);
+  });
+
+  it('should delay responses to exercise timeouts', async () => {
+    server.injectFault({path: /^\/test/, latency: 200});
+    const impatient = createClient({timeout: 50, retry: false});
+
+    await expect(impatient.test()).rejects.toBeInstanceOf(TimeoutError);
+    await expect(impatient.test()).resolves.toHaveProperty('message');
+  });
+
+  it('should replay requests with the same idempotency key', async () => {
+    const first = await client.createProduct(oneTimeProduct, {
+      idempotencyKey: 'create-tshirt',
+    });
+    // A second client, so the response does not come from the client cache
+    const second = await createClient().createProduct(oneTimeProduct, {
+      idempotencyKey: 'create-tshirt',
+    });
+
+    expect(second.id).toBe(first.id);
+    await expect(client.getAllProducts()).resolves.toHaveLength(1);
+  });
+});
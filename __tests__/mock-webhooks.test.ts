@@ -0,0 +1,218 @@
+import http from 'http';
+import {AddressInfo} from 'net';
+import {RecurrenteClient} from '../src';
+import {MockRecurrenteServer} from '../src/testing';
+import {
+  createNodeWebhookHandler,
+  registerWebhookHandler,
+  verifySvixSignature,
+} from '../src/webhooks';
+import {
+  ProductSubscription,
+  RecurrenteWebhookEvent,
+  WebhookEventType,
+} from '../src/types/globals';
+
+const DAY = 24 * 60 * 60 * 1000;
+const secret = 'whsec_' + Buffer.from('e2e-secret').toString('base64');
+
+const monthlyPlan: ProductSubscription = {
+  product: {
+    name: 'Plan Mensual',
+    pricesAttributes: [
+      {
+        currency: 'GTQ',
+        chargeType: 'recurring',
+        amountInCents: 500,
+        billingIntervalCount: 1,
+        billingInterval: 'month',
+      },
+    ],
+  },
+};
+
+describe('MockRecurrenteServer webhooks', () => {
+  const received: RecurrenteWebhookEvent[] = [];
+  const receiver = http.createServer(
+    createNodeWebhookHandler({
+      verification: {secret},
+      decoding: {mode: 'strict'},
+    })
+  );
+  let server: MockRecurrenteServer;
+  let client: RecurrenteClient;
+  let priceId: string;
+
+  const receivedTypes = () => received.map(event => event.eventType);
+
+  beforeAll(async () => {
+    const eventTypes: WebhookEventType[] = [
+      'payment_intent.succeeded',
+      'payment_intent.failed',
+      'subscription.create',
+      'subscription.past_due',
+      'subscription.paused',
+      'subscription.cancel',
+    ];
+    eventTypes.forEach(eventType =>
+      registerWebhookHandler(eventType, event => {
+        received.push(event);
+      })
+    );
+
+    await new Promise<void>(resolve =>
+      receiver.listen(0, '127.0.0.1', resolve)
+    );
+    const {port} = receiver.address() as AddressInfo;
+
+    server = new MockRecurrenteServer({
+      webhooks: {url: `http://127.0.0.1:${port}/webhooks`, secret},
+    });
+    await server.start();
+  });
+
+  afterAll(async () => {
+    await server.stop();
+    await new Promise(resolve => receiver.close(resolve));
+  });
+
+  beforeEach(async () => {
+    server.reset();
+    received.length = 0;
+    client = new RecurrenteClient({
+      ...server.clientConfig(),
+      decoding: 'strict',
+    });
+    priceId = (await client.createSubscription(monthlyPlan)).prices[0].id;
+  });
+
+  it('should send signed events when a checkout is completed', async () => {
+    const {checkoutId, subscription} = await server.completeCheckout({
+      priceId,
+      subscriber: {email: 'eva@example.com', fullName: 'Eva Pérez'},
+      metadata: {orderId: '1234'},
+    });
+
+    expect(receivedTypes()).toEqual([
+      'payment_intent.succeeded',
+      'subscription.create',
+    ]);
+    expect(received[0]).toMatchObject({
+      amountInCents: 500,
+      currency: 'GTQ',
+      customer: {email: 'eva@example.com', fullName: 'Eva Pérez'},
+      checkout: {id: checkoutId, metadata: {orderId: '1234'}},
+    });
+    expect(received[1]).toMatchObject({
+      customerEmail: 'eva@example.com',
+      customerId: subscription?.subscriber.id,
+    });
+    expect(server.webhooks.map(delivery => delivery.status)).toEqual([
+      200, 200,
+    ]);
+  });
+
+  it('should only charge checkouts of one-time prices', async () => {
+    const {prices} = await client.createProduct({
+      name: 'Camiseta',
+      pricesAttributes: [
+        {currency: 'GTQ', chargeType: 'one_time', amountInCents: 1000},
+      ],
+      phoneRequirement: 'none',
+      addressRequirement: 'none',
+      billingInfoRequirement: 'none',
+    });
+
+    const result = await server.completeCheckout({priceId: prices[0].id});
+
+    expect(result.subscription).toBeUndefined();
+    expect(receivedTypes()).toEqual(['payment_intent.succeeded']);
+  });
+
+  it('should renew subscriptions when the clock advances', async () => {
+    const {subscription} = await server.completeCheckout({priceId});
+    const id = subscription!.id;
+    const periodEnd = subscription!.currentPeriodEnd;
+
+    const sent = await server.advanceClock(35 * DAY);
+
+    expect(sent.map(delivery => delivery.event.eventType)).toEqual([
+      'payment_intent.succeeded',
+    ]);
+    expect(sent[0].event.createdAt).toBe(periodEnd);
+    expect(server.now().getTime()).toBeGreaterThan(Date.now() + 34 * DAY);
+    await expect(client.getSubscription(id)).resolves.toMatchObject({
+      status: 'active',
+      currentPeriodStart: periodEnd,
+    });
+  });
+
+  it('should make subscriptions past due, then cancel them, when payments are declined', async () => {
+    const {subscription} = await server.completeCheckout({priceId});
+    received.length = 0;
+
+    await server.advanceClock(32 * DAY, {declinePayments: true});
+    expect(receivedTypes()).toEqual([
+      'payment_intent.failed',
+      'subscription.past_due',
+    ]);
+
+    await server.advanceClock(32 * DAY, {declinePayments: true});
+    expect(receivedTypes().slice(2)).toEqual([
+      'payment_intent.failed',
+      'subscription.cancel',
+    ]);
+    await expect(
+      client.getSubscription(subscription!.id)
+    ).resolves.toHaveProperty('status', 'canceled');
+  });
+
+  it('should cancel subscriptions at the end of the period', async () => {
+    const {subscription} = await server.completeCheckout({priceId});
+    await client.cancelAtPeriodEnd(subscription!.id);
+    received.length = 0;
+
+    await server.advanceClock(32 * DAY);
+
+    expect(receivedTypes()).toEqual(['subscription.cancel']);
+  });
+
+  it('should send events for changes made through the API', async () => {
+    const {subscription} = await server.completeCheckout({priceId});
+    received.length = 0;
+
+    await client.pauseSubscription(subscription!.id);
+    await client.cancelSubscription(subscription!.id);
+    await server.flushWebhooks();
+
+    expect(receivedTypes()).toEqual([
+      'subscription.paused',
+      'subscription.cancel',
+    ]);
+  });
+
+  it('should record signed events when no URL is configured', async () => {
+    const offline = new MockRecurrenteServer();
+    await offline.start();
+    const offlineClient = new RecurrenteClient(offline.clientConfig());
+    const plan = await offlineClient.createSubscription(monthlyPlan);
+
+    await offline.completeCheckout({priceId: plan.prices[0].id});
+    await offline.stop();
+
+    const [{payload, headers, event, status}] = offline.webhooks;
+    expect(status).toBeUndefined();
+    expect(
+      verifySvixSignature(payload, headers, {secret: offline.webhookSecret})
+    ).toEqual(event);
+    expect(received).toEqual([]);
+  });
+
+  it('should reject checkouts of unknown prices', async () => {
+    await expect(
+      server.completeCheckout({priceId: 'price_unknown'})
+    ).rejects.toThrow(
+      'Cannot complete a checkout: price price_unknown does not exist'
+    );
+  });
+});
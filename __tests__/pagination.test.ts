@@ -0,0 +1,57 @@
+import {PaginatedList} from '../src/utils/pagination';
+
+// Simulates an endpoint with 25 items served 10 per page
+const createList = (onPage?: (items: number[], page: number) => void) => {
+  const requestedPages: number[] = [];
+  const list = new PaginatedList<number>(
+    async page => {
+      requestedPages.push(page);
+      const start = (page - 1) * 10;
+      return Array.from({length: 10}, (_, i) => start + i + 1).filter(
+        n => n <= 25
+      );
+    },
+    {onPage}
+  );
+  return {list, requestedPages};
+};
+
+describe('PaginatedList', () => {
+  it('should walk every page until an empty one', async () => {
+    const {list, requestedPages} = createList();
+    const items: number[] = [];
+
+    for await (const item of list) {
+      items.push(item);
+    }
+
+    expect(items).toHaveLength(25);
+    expect(requestedPages).toEqual([1, 2, 3, 4]);
+  });
+
+  it('should only fetch the pages needed for first()', async () => {
+    const {list, requestedPages} = createList();
+
+    expect(await list.first(12)).toEqual([
+      1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12,
+    ]);
+    expect(requestedPages).toEqual([1, 2]);
+  });
+
+  it('should invoke the per-page callbacks', async () => {
+    const seen: number[] = [];
+    const {list} = createList((items, page) => {
+      seen.push(page);
+    });
+
+    await list.toArray();
+    expect(seen).toEqual([1, 2, 3]);
+
+    const sizes: number[] = [];
+    await list.eachPage(items => {
+      sizes.push(items.length);
+      return sizes.length < 2;
+    });
+    expect(sizes).toEqual([10, 10]);
+  });
+});
@@ -0,0 +1,54 @@
+import {ValidationError} from '../src';
+import {createFakeClient} from './helpers/fake-client';
+
+// Creates a client whose transport serves a payment intent of GTQ 100.00
+// with GTQ 30.00 already refunded
+const createClient = () =>
+  createFakeClient(config => ({
+    data:
+      config.method === 'get'
+        ? {
+            id: 'pa_1',
+            status: 'succeeded',
+            amount_in_cents: 10000,
+            refunded_amount_in_cents: 3000,
+            currency: 'GTQ',
+          }
+        : {
+            id: 're_1',
+            status: 'succeeded',
+            amount_in_cents: JSON.parse(config.data).amount_in_cents,
+          },
+  }));
+
+describe('Refunds', () => {
+  it('should create a partial refund within the refundable amount', async () => {
+    const {client, calls} = createClient();
+
+    const refund = await client.refunds.create({
+      paymentIntentId: 'pa_1',
+      amountInCents: 7000,
+    });
+
+    expect(refund.amountInCents).toBe(7000);
+    expect(calls.map(call => call.method)).toEqual(['get', 'post']);
+  });
+
+  it('should reject partial refunds above the refundable amount', async () => {
+    const {client, calls} = createClient();
+
+    await expect(
+      client.refunds.create({paymentIntentId: 'pa_1', amountInCents: 7001})
+    ).rejects.toBeInstanceOf(ValidationError);
+    expect(calls.map(call => call.method)).toEqual(['get']);
+  });
+
+  it('should reject non-positive amounts without calling the API', async () => {
+    const {client, calls} = createClient();
+
+    await expect(
+      client.refunds.create({paymentIntentId: 'pa_1', amountInCents: 0})
+    ).rejects.toBeInstanceOf(ValidationError);
+    expect(calls).toHaveLength(0);
+  });
+});
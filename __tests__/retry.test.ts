@@ -0,0 +1,116 @@
+import {RateLimitError, ServerError} from '../src/api/errors';
+import {createFakeClient} from './helpers/fake-client';
+
+// Creates a client whose transport replies with the given statuses in order
+const clientWithResponses = (
+  statuses: number[],
+  retry = {},
+  headers: Record<string, string> = {}
+) =>
+  createFakeClient(
+    (config, calls) => {
+      const status = statuses[Math.min(calls.length, statuses.length) - 1];
+      return {
+        status,
+        data: {message: status === 200 ? 'ok' : 'Server error'},
+        headers: status === 200 ? {} : headers,
+      };
+    },
+    {retry: {initialDelay: 1, maxDelay: 5, ...retry}}
+  );
+
+describe('Retry policy', () => {
+  it('should retry GET requests on transient failures', async () => {
+    const {client, calls} = clientWithResponses([502, 503, 200]);
+
+    await expect(client.test()).resolves.toHaveProperty('message');
+    expect(calls).toHaveLength(3);
+  });
+
+  it('should give up after maxAttempts', async () => {
+    const {client, calls} = clientWithResponses([500], {maxAttempts: 2});
+
+    await expect(client.getProduct('prod_1')).rejects.toBeInstanceOf(
+      ServerError
+    );
+    expect(calls).toHaveLength(2);
+  });
+
+  it('should not retry non-transient status codes', async () => {
+    const {client, calls} = clientWithResponses([404, 200]);
+
+    await expect(client.getProduct('prod_1')).rejects.toThrow();
+    expect(calls).toHaveLength(1);
+  });
+
+  it('should retry POST requests with the generated idempotency key', async () => {
+    const {client, calls} = clientWithResponses([502, 200]);
+
+    await client.http.post('/products/', {name: 'Product'});
+    expect(calls).toHaveLength(2);
+    expect(calls[1].headers['Idempotency-Key']).toBe(
+      calls[0].headers['Idempotency-Key']
+    );
+  });
+
+  it('should retry POST requests that carry an idempotency key', async () => {
+    const {client, calls} = clientWithResponses([502, 200]);
+
+    await client.http.post(
+      '/products/',
+      {name: 'Product'},
+      {headers: {'Idempotency-Key': 'key_1'}}
+    );
+    expect(calls).toHaveLength(2);
+  });
+
+  it('should wait as long as Retry-After asks, even past the backoff', async () => {
+    const {client, calls} = clientWithResponses(
+      [429, 200],
+      {maxDelay: 1000},
+      {'retry-after': '0.05'}
+    );
+    const start = Date.now();
+
+    await expect(client.test()).resolves.toHaveProperty('message');
+    expect(calls).toHaveLength(2);
+    expect(Date.now() - start).toBeGreaterThanOrEqual(45);
+  });
+
+  it('should not retry when Retry-After is longer than maxDelay', async () => {
+    const {client, calls} = clientWithResponses(
+      [429, 200],
+      {},
+      {
+        'retry-after': '30',
+        'x-request-id': 'req_1',
+      }
+    );
+
+    const error = await client.test().catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect(error).toMatchObject({
+      retryAfter: 30,
+      status: 429,
+      requestId: 'req_1',
+      method: 'GET',
+    });
+    expect(calls).toHaveLength(1);
+  });
+
+  it('should keep server errors whose Retry-After is longer than maxDelay', async () => {
+    const {client, calls} = clientWithResponses(
+      [503, 200],
+      {},
+      {'retry-after': '30'}
+    );
+
+    const error = await client.test().catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(ServerError);
+    expect(error).not.toBeInstanceOf(RateLimitError);
+    expect(error).toMatchObject({status: 503});
+    expect(calls).toHaveLength(1);
+  });
+});
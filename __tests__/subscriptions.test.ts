@@ -0,0 +1,134 @@
+import {createFakeClient} from './helpers/fake-client';
+
+describe('Subscription lifecycle', () => {
+  it('should pause with the resume date in snake_case', async () => {
+    const {client, calls} = createFakeClient();
+
+    await client.pauseSubscription('su_1', {resumesAt: '2024-06-01T00:00:00Z'});
+    await client.pauseSubscription('su_2');
+
+    expect(calls.map(call => [call.method, call.url])).toEqual([
+      ['post', '/subscriptions/su_1/pause'],
+      ['post', '/subscriptions/su_2/pause'],
+    ]);
+    expect(JSON.parse(calls[0].data)).toEqual({
+      resumes_at: '2024-06-01T00:00:00Z',
+    });
+    expect(JSON.parse(calls[1].data)).toEqual({});
+  });
+
+  it('should resume with an empty POST', async () => {
+    const {client, calls} = createFakeClient();
+
+    await client.resumeSubscription('su_1');
+
+    expect(calls.map(call => [call.method, call.url])).toEqual([
+      ['post', '/subscriptions/su_1/resume'],
+    ]);
+    expect(calls[0].data).toBeUndefined();
+  });
+
+  it('should cancel at period end by patching the subscription', async () => {
+    const {client, calls} = createFakeClient();
+
+    await client.cancelAtPeriodEnd('su_1');
+
+    expect(calls.map(call => [call.method, call.url])).toEqual([
+      ['patch', '/subscriptions/su_1'],
+    ]);
+    expect(JSON.parse(calls[0].data)).toEqual({cancel_at_period_end: true});
+  });
+
+  it('should change the price by patching the subscription', async () => {
+    const {client, calls} = createFakeClient();
+
+    await client.changeSubscriptionPrice(
+      'su_1',
+      {priceId: 'price_2', prorationBehavior: 'none'},
+      {idempotencyKey: 'key_1'}
+    );
+
+    expect(calls.map(call => [call.method, call.url])).toEqual([
+      ['patch', '/subscriptions/su_1'],
+    ]);
+    expect(JSON.parse(calls[0].data)).toEqual({
+      price_id: 'price_2',
+      proration_behavior: 'none',
+    });
+    expect(calls[0].headers['Idempotency-Key']).toBe('key_1');
+  });
+
+  it('should preview a price change through the query string', async () => {
+    const {client, calls} = createFakeClient(() => ({
+      data: {
+        subscription_id: 'su_1',
+        current_price_id: 'price_1',
+        new_price_id: 'price_2',
+        proration_amount_in_cents: 500,
+        next_invoice_amount_in_cents: 15500,
+        currency: 'GTQ',
+        effective_at: '2024-05-15T00:00:00Z',
+      },
+    }));
+
+    const preview = await client.previewSubscriptionPriceChange('su_1', {
+      priceId: 'price_2',
+      prorationBehavior: 'create_prorations',
+    });
+
+    expect(calls.map(call => client.http.getUri(call))).toEqual([
+      'https://app.recurrente.com/api/subscriptions/su_1/proration_preview?price_id=price_2&proration_behavior=create_prorations',
+    ]);
+    expect(calls[0].method).toBe('get');
+    expect(preview).toMatchObject({
+      prorationAmountInCents: 500,
+      nextInvoiceAmountInCents: 15500,
+    });
+  });
+});
+
+describe('listSubscriptions', () => {
+  it('should send dates as ISO strings and status lists as arrays', async () => {
+    const {client, calls} = createFakeClient(() => ({data: []}));
+
+    await client
+      .listSubscriptions({
+        status: ['active', 'past_due'],
+        productId: 'prod_1',
+        subscriberEmail: 'ana@example.com',
+        createdAfter: new Date(Date.UTC(2024, 0, 1)),
+        currentPeriodEndBefore: '2024-06-30',
+      })
+      .toArray();
+
+    expect(calls).toHaveLength(1);
+    expect(calls[0].url).toBe('/subscriptions');
+    expect(calls[0].params).toEqual({
+      page: 1,
+      status: ['active', 'past_due'],
+      product_id: 'prod_1',
+      subscriber_email: 'ana@example.com',
+      created_after: '2024-01-01T00:00:00.000Z',
+      current_period_end_before: '2024-06-30',
+    });
+    expect(decodeURIComponent(client.http.getUri(calls[0]))).toBe(
+      'https://app.recurrente.com/api/subscriptions?page=1&status[]=active&status[]=past_due&product_id=prod_1&subscriber_email=ana@example.com&created_after=2024-01-01T00:00:00.000Z&current_period_end_before=2024-06-30'
+    );
+  });
+
+  it('should leave out unset filters and keep them on every page', async () => {
+    const {client, calls} = createFakeClient((config, sent) => ({
+      data: sent.length < 3 ? [{}] : [],
+    }));
+
+    await client
+      .listSubscriptions({status: 'paused', productId: undefined})
+      .toArray();
+
+    expect(calls.map(call => call.params)).toEqual([
+      {page: 1, status: 'paused'},
+      {page: 2, status: 'paused'},
+      {page: 3, status: 'paused'},
+    ]);
+  });
+});
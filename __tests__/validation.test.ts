@@ -0,0 +1,108 @@
+import {ValidationError} from '../src';
+import {ProductSubscription} from '../src/types/globals';
+import {createFakeClient} from './helpers/fake-client';
+
+const subscription = (
+  price: Partial<ProductSubscription['product']['pricesAttributes'][0]>
+): ProductSubscription => ({
+  product: {
+    name: 'Plan',
+    pricesAttributes: [
+      {
+        currency: 'GTQ',
+        chargeType: 'recurring',
+        amountInCents: 1000,
+        billingIntervalCount: 1,
+        billingInterval: 'month',
+        ...price,
+      },
+    ],
+  },
+});
+
+describe('Request validation', () => {
+  it('should send valid payloads', async () => {
+    const {client, calls} = createFakeClient();
+
+    await client.createSubscription(subscription({}));
+
+    expect(calls).toHaveLength(1);
+  });
+
+  it('should report every invalid field without calling the API', async () => {
+    const {client, calls} = createFakeClient();
+
+    const error = await client
+      .createSubscription(
+        subscription({
+          amountInCents: -500,
+          billingIntervalCount: 0,
+          currency: 'EUR' as 'GTQ',
+        })
+      )
+      .catch(e => e);
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(Object.keys(error.errors)).toEqual([
+      'product.pricesAttributes[0].currency',
+      'product.pricesAttributes[0].amountInCents',
+      'product.pricesAttributes[0].billingIntervalCount',
+    ]);
+    expect(calls).toHaveLength(0);
+  });
+
+  it('should require a free trial interval and its count together', async () => {
+    const {client, calls} = createFakeClient();
+
+    const error = await client
+      .createSubscription(subscription({freeTrialInterval: 'month'}))
+      .catch(e => e);
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error.errors).toEqual({
+      'product.pricesAttributes[0].freeTrialIntervalCount': [
+        'is required when freeTrialInterval is set',
+      ],
+    });
+    expect(calls).toHaveLength(0);
+  });
+
+  it('should require name, amount and currency for ad-hoc checkout items', async () => {
+    const {client, calls} = createFakeClient();
+
+    const error = await client.checkouts
+      .create({items: [{priceId: 'pr_1'}, {name: 'Donation'}]})
+      .catch(e => e);
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(Object.keys(error.errors)).toEqual([
+      'items[1].amountInCents',
+      'items[1].currency',
+    ]);
+    expect(calls).toHaveLength(0);
+  });
+
+  it('should reject empty identifiers', async () => {
+    const {client, calls} = createFakeClient();
+
+    await expect(client.getProduct('')).rejects.toBeInstanceOf(ValidationError);
+    await expect(client.customers.retrieve(' ')).rejects.toBeInstanceOf(
+      ValidationError
+    );
+    expect(calls).toHaveLength(0);
+  });
+
+  it('should reject malformed customer emails', async () => {
+    const {client} = createFakeClient();
+
+    const malformed = await client.customers
+      .create({email: 'not-an-email'})
+      .catch(e => e);
+    const empty = await client.customers.create({email: ''}).catch(e => e);
+
+    expect(malformed.errors).toEqual({
+      email: ['must be a valid email address'],
+    });
+    expect(empty.errors).toEqual({email: ['must not be empty']});
+  });
+});
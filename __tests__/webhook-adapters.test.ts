@@ -0,0 +1,218 @@
+import http from 'http';
+import {AddressInfo} from 'net';
+import {
+  WebhookRouter,
+  createNodeWebhookHandler,
+  createFastifyWebhookHandler,
+  processWebhook,
+} from '../src/webhooks';
+import {WebhookEndpointOptions} from '../src/types/globals';
+import {secret, payload, signedHeaders} from './helpers/webhooks';
+
+// Starts an http server with the handler and sends the body to it
+const post = async (
+  options: WebhookEndpointOptions,
+  body: string | undefined,
+  headers: Record<string, string>,
+  method = 'POST'
+) => {
+  const server = http.createServer(createNodeWebhookHandler(options));
+  await new Promise<void>(resolve => server.listen(0, resolve));
+  const {port} = server.address() as AddressInfo;
+
+  try {
+    const response = await fetch(`http://127.0.0.1:${port}/`, {
+      method,
+      headers: {'content-type': 'application/json', ...headers},
+      body,
+    });
+    return {status: response.status, body: await response.json()};
+  } finally {
+    await new Promise(resolve => server.close(resolve));
+  }
+};
+
+describe('Webhook endpoints', () => {
+  const env = process.env.RECURRENTE_SVIX_SIGNING_SECRET;
+
+  beforeAll(() => {
+    process.env.RECURRENTE_SVIX_SIGNING_SECRET = secret;
+  });
+
+  afterAll(() => {
+    process.env.RECURRENTE_SVIX_SIGNING_SECRET = env;
+  });
+
+  it('should verify and dispatch deliveries read from the request stream', async () => {
+    const handler = jest.fn();
+    const router = new WebhookRouter().on('subscription.cancel', handler);
+
+    const response = await post({router}, payload, signedHeaders(payload));
+
+    expect(response).toEqual({status: 200, body: {received: true}});
+    expect(handler).toHaveBeenCalledWith(
+      expect.objectContaining({customerId: 'cus_1'}),
+      {id: 'msg_1', duplicate: false}
+    );
+  });
+
+  it('should respond 400 to deliveries with an invalid signature', async () => {
+    const onError = jest.fn();
+    const router = new WebhookRouter();
+
+    const response = await post(
+      {router, onError},
+      payload.replace('cus_1', 'cus_2'),
+      signedHeaders(payload)
+    );
+
+    expect(response).toEqual({
+      status: 400,
+      body: {error: 'Invalid webhook signature'},
+    });
+    expect(onError).toHaveBeenCalledTimes(1);
+  });
+
+  it('should respond 405 to requests other than POST', async () => {
+    const handler = jest.fn();
+    const router = new WebhookRouter().on('*', handler);
+
+    const response = await post({router}, undefined, signedHeaders(), 'GET');
+
+    expect(response).toEqual({
+      status: 405,
+      body: {error: 'Method not allowed'},
+    });
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('should respond 413 to bodies larger than maxBodySize', async () => {
+    const handler = jest.fn();
+    const router = new WebhookRouter().on('*', handler);
+
+    const response = await post(
+      {router, maxBodySize: payload.length - 1},
+      payload,
+      signedHeaders(payload)
+    );
+
+    expect(response).toEqual({
+      status: 413,
+      body: {error: 'Webhook body too large'},
+    });
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('should stop reading streamed bodies past maxBodySize', async () => {
+    const server = http.createServer(
+      createNodeWebhookHandler({router: new WebhookRouter(), maxBodySize: 10})
+    );
+    await new Promise<void>(resolve => server.listen(0, resolve));
+    const {port} = server.address() as AddressInfo;
+
+    try {
+      const status = await new Promise<number | undefined>(
+        (resolve, reject) => {
+          // Without a Content-Length, the body is sent in chunks
+          const request = http.request({port, method: 'POST'}, response => {
+            response.resume();
+            resolve(response.statusCode);
+          });
+          request.on('error', reject);
+          request.write('x'.repeat(8));
+          request.end('x'.repeat(8));
+        }
+      );
+
+      expect(status).toBe(413);
+    } finally {
+      await new Promise(resolve => server.close(resolve));
+    }
+  });
+
+  it('should accept bodies up to maxBodySize', async () => {
+    const router = new WebhookRouter({unhandled: 'ignore'});
+
+    const response = await post(
+      {router, maxBodySize: payload.length},
+      payload,
+      signedHeaders(payload)
+    );
+
+    expect(response.status).toBe(200);
+  });
+
+  it('should respond 500 when a handler fails, so the delivery is retried', async () => {
+    const error = new Error('Database unavailable');
+    const onError = jest.fn();
+    const router = new WebhookRouter().on('*', () => {
+      throw error;
+    });
+
+    const response = await processWebhook(payload, signedHeaders(payload), {
+      router,
+      onError,
+    });
+
+    expect(response.status).toBe(500);
+    expect(onError).toHaveBeenCalledWith(error);
+  });
+
+  it('should respond 422 to unhandled events with the throw policy', async () => {
+    const response = await processWebhook(payload, signedHeaders(payload), {
+      router: new WebhookRouter({unhandled: 'throw'}),
+    });
+
+    expect(response.status).toBe(422);
+  });
+
+  it('should pass its unhandled and logger options to the router', async () => {
+    const logger = {warn: jest.fn()};
+    const router = new WebhookRouter({unhandled: 'ignore'});
+
+    const rejected = await processWebhook(payload, signedHeaders(payload), {
+      router,
+      unhandled: 'throw',
+    });
+    const warned = await processWebhook(payload, signedHeaders(payload), {
+      router,
+      unhandled: 'warn',
+      logger,
+    });
+    const ignored = await processWebhook(payload, signedHeaders(payload), {
+      router,
+      logger,
+    });
+
+    expect(rejected.status).toBe(422);
+    expect(warned.status).toBe(200);
+    expect(ignored.status).toBe(200);
+    expect(logger.warn).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reply through Fastify with the raw string body', async () => {
+    const reply = {code: jest.fn(), send: jest.fn()};
+    reply.code.mockReturnValue(reply);
+    const router = new WebhookRouter({unhandled: 'ignore'});
+
+    await createFastifyWebhookHandler({router})(
+      {body: payload, headers: signedHeaders(payload)},
+      reply
+    );
+
+    expect(reply.code).toHaveBeenCalledWith(200);
+    expect(reply.send).toHaveBeenCalledWith({received: true});
+  });
+
+  it('should refuse bodies that were parsed before verification', async () => {
+    const reply = {code: jest.fn(), send: jest.fn()};
+    reply.code.mockReturnValue(reply);
+
+    await createFastifyWebhookHandler({router: new WebhookRouter()})(
+      {body: JSON.parse(payload), headers: signedHeaders(payload)},
+      reply
+    );
+
+    expect(reply.code).toHaveBeenCalledWith(500);
+  });
+});
@@ -0,0 +1,77 @@
+import {WebhookRouter, handleWebhookRequest} from '../src/webhooks';
+import {secret, payload, signedHeaders} from './helpers/webhooks';
+
+// Builds a delivery signed the way Svix does
+const signedRequest = (body: string, init: RequestInit = {}) =>
+  new Request('https://example.com/webhooks/recurrente', {
+    method: 'POST',
+    headers: {'Content-Type': 'application/json', ...signedHeaders(body)},
+    body,
+    ...init,
+  });
+
+describe('handleWebhookRequest', () => {
+  const env = process.env.RECURRENTE_SVIX_SIGNING_SECRET;
+
+  beforeAll(() => {
+    process.env.RECURRENTE_SVIX_SIGNING_SECRET = secret;
+  });
+
+  afterAll(() => {
+    process.env.RECURRENTE_SVIX_SIGNING_SECRET = env;
+  });
+
+  it('dispatches a signed delivery and responds with 200', async () => {
+    const handler = jest.fn();
+    const router = new WebhookRouter().on('subscription.cancel', handler);
+
+    const response = await handleWebhookRequest(signedRequest(payload), {
+      router,
+    });
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-type')).toBe('application/json');
+    expect(await response.json()).toEqual({received: true});
+    expect(handler).toHaveBeenCalledWith(
+      expect.objectContaining({id: 'evt_1', customerEmail: 'ana@example.com'}),
+      {id: 'msg_1', duplicate: false}
+    );
+  });
+
+  it('responds with 400 when the signature does not match the body', async () => {
+    const request = signedRequest(payload, {
+      body: payload.replace('Ana', 'Eva'),
+    });
+
+    const response = await handleWebhookRequest(request, {
+      router: new WebhookRouter(),
+    });
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({
+      error: 'Invalid webhook signature',
+    });
+  });
+
+  it('responds with 405 to requests other than POST', async () => {
+    const request = new Request('https://example.com/webhooks/recurrente');
+
+    const response = await handleWebhookRequest(request);
+
+    expect(response.status).toBe(405);
+  });
+
+  it('does not load Node-only modules or the HTTP client', () => {
+    const nodeOnly = ['dotenv', 'axios', 'fs', 'http', 'https', 'crypto'];
+
+    jest.isolateModules(() => {
+      nodeOnly.forEach(name =>
+        jest.doMock(name, () => {
+          throw new Error(`${name} must not be loaded`);
+        })
+      );
+
+      expect(() => require('../src/webhooks')).not.toThrow();
+    });
+  });
+});
@@ -0,0 +1,108 @@
+import {
+  createWebhookEvent,
+  createSignedWebhook,
+  serializeWebhookEvent,
+  signWebhookPayload,
+  webhookEventTypes,
+} from '../src/testing';
+import {
+  verifySvixSignature,
+  processWebhook,
+  WebhookRouter,
+} from '../src/webhooks';
+import {WebhookEventType} from '../src/types/globals';
+
+const secret = 'whsec_' + Buffer.from('test-secret').toString('base64');
+
+describe('Webhook test fixtures', () => {
+  it.each(webhookEventTypes)(
+    'should build a %s event that verifies and decodes strictly',
+    eventType => {
+      const {event, payload, headers} = createSignedWebhook(eventType, {
+        secret,
+      });
+
+      expect(
+        verifySvixSignature(payload, headers, {secret, mode: 'strict'})
+      ).toEqual(event);
+    }
+  );
+
+  it('should cover every known event type', () => {
+    expect(webhookEventTypes).toEqual([
+      'payment_intent.succeeded',
+      'payment_intent.failed',
+      'subscription.create',
+      'subscription.past_due',
+      'subscription.paused',
+      'subscription.cancel',
+      'refund.created',
+    ]);
+  });
+
+  it('should merge overrides recursively and keep metadata keys as they are', () => {
+    const event = createWebhookEvent('payment_intent.succeeded', {
+      amountInCents: 9900,
+      checkout: {metadata: {orderId: '1234'}},
+    });
+
+    expect(event.amountInCents).toBe(9900);
+    expect(event.checkout.metadata).toEqual({orderId: '1234'});
+    expect(event.checkout.paymentMethod.card.last4).toBe('4242');
+
+    expect(JSON.parse(serializeWebhookEvent(event))).toMatchObject({
+      amount_in_cents: 9900,
+      checkout: {
+        metadata: {orderId: '1234'},
+        payment_method: {id: 'pm_fixture'},
+      },
+    });
+  });
+
+  it('should not share state between fixture events', () => {
+    createWebhookEvent('refund.created', {
+      customer: {email: 'eva@example.com'},
+    });
+
+    expect(createWebhookEvent('refund.created').customer.email).toBe(
+      'ana.lopez@example.com'
+    );
+  });
+
+  it('should reject unknown event types', () => {
+    expect(() =>
+      createWebhookEvent('invoice.created' as WebhookEventType)
+    ).toThrow('Unknown webhook event type: invoice.created');
+  });
+
+  it('should sign with the given message ID and timestamp', () => {
+    const timestamp = new Date('2024-05-01T12:00:00Z');
+
+    const headers = signWebhookPayload('{}', {secret, id: 'msg_1', timestamp});
+
+    expect(headers).toEqual({
+      'svix-id': 'msg_1',
+      'svix-timestamp': '1714564800',
+      'svix-signature': expect.stringMatching(/^v1,/),
+    });
+  });
+
+  it('should produce deliveries accepted by the webhook endpoints', async () => {
+    const handler = jest.fn();
+    const {payload, headers} = createSignedWebhook('subscription.cancel', {
+      secret,
+      overrides: {customerEmail: 'eva@example.com'},
+    });
+
+    const response = await processWebhook(payload, headers, {
+      router: new WebhookRouter().on('subscription.cancel', handler),
+      verification: {secret},
+    });
+
+    expect(response.status).toBe(200);
+    expect(handler).toHaveBeenCalledWith(
+      expect.objectContaining({customerEmail: 'eva@example.com'}),
+      expect.objectContaining({id: headers['svix-id']})
+    );
+  });
+});
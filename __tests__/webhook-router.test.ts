@@ -0,0 +1,182 @@
+import {
+  WebhookRouter,
+  UnhandledWebhookEventError,
+  handleWebhookEvent,
+  registerWebhookHandler,
+} from '../src/webhooks';
+import {RecurrenteWebhookEvent} from '../src/types/globals';
+
+const subscriptionCancel = {
+  id: 'evt_1',
+  eventType: 'subscription.cancel',
+  apiVersion: '2024-04-24',
+  createdAt: '2024-05-01T00:00:00Z',
+  customerEmail: 'ana@example.com',
+  customerId: 'cus_1',
+  customerName: 'Ana',
+} as RecurrenteWebhookEvent;
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('WebhookRouter', () => {
+  it('should run every matching handler, including wildcards', async () => {
+    const calls: string[] = [];
+    const router = new WebhookRouter()
+      .on('subscription.cancel', () => {
+        calls.push('exact');
+      })
+      .on('subscription.*', event => {
+        calls.push(`resource:${event.customerId}`);
+      })
+      .on('payment_intent.*', () => {
+        calls.push('other');
+      })
+      .on('*', () => {
+        calls.push('all');
+      });
+
+    const result = await router.dispatch(subscriptionCancel);
+
+    expect(calls).toEqual(['exact', 'resource:cus_1', 'all']);
+    expect(result).toMatchObject({handlerCount: 3, failures: [], ok: true});
+  });
+
+  it('should await async handlers in registration order', async () => {
+    const calls: string[] = [];
+    const router = new WebhookRouter()
+      .on('*', async () => {
+        await delay(20);
+        calls.push('slow');
+      })
+      .on('*', async () => {
+        calls.push('fast');
+      });
+
+    await router.dispatch(subscriptionCancel);
+
+    expect(calls).toEqual(['slow', 'fast']);
+  });
+
+  it('should run handlers concurrently in parallel mode', async () => {
+    const calls: string[] = [];
+    const router = new WebhookRouter({execution: 'parallel'})
+      .on('*', async () => {
+        await delay(20);
+        calls.push('slow');
+      })
+      .on('*', async () => {
+        calls.push('fast');
+      });
+
+    await router.dispatch(subscriptionCancel);
+
+    expect(calls).toEqual(['fast', 'slow']);
+  });
+
+  it('should isolate failing handlers and report them', async () => {
+    const error = new Error('Database unavailable');
+    const after = jest.fn();
+    const revokeAccess = () => {
+      throw error;
+    };
+    const router = new WebhookRouter()
+      .on('subscription.cancel', revokeAccess)
+      .on('subscription.*', async () => {
+        throw new Error('Mailer down');
+      })
+      .on('*', after);
+
+    const result = await router.dispatch(subscriptionCancel);
+
+    expect(after).toHaveBeenCalled();
+    expect(result.ok).toBe(false);
+    expect(result.failures).toEqual([
+      {pattern: 'subscription.cancel', handler: 'revokeAccess', error},
+      {
+        pattern: 'subscription.*',
+        handler: 'anonymous',
+        error: new Error('Mailer down'),
+      },
+    ]);
+  });
+
+  it('should remove handlers', async () => {
+    const handler = jest.fn();
+    const router = new WebhookRouter({unhandled: 'ignore'})
+      .on('*', handler)
+      .off('*', handler);
+
+    const result = await router.dispatch(subscriptionCancel);
+
+    expect(handler).not.toHaveBeenCalled();
+    expect(result.handlerCount).toBe(0);
+    expect(router.handles('subscription.cancel')).toBe(false);
+  });
+
+  it('should warn about unhandled events without logging their payload', async () => {
+    const warn = jest.fn();
+    const router = new WebhookRouter({logger: {warn}}).on(
+      'payment_intent.*',
+      () => {}
+    );
+
+    await router.dispatch(subscriptionCancel);
+    await router.dispatch({id: 'evt_2', eventType: 'invoice.sent'});
+
+    expect(warn.mock.calls).toEqual([
+      [
+        'No handler registered for event type: subscription.cancel',
+        {eventType: 'subscription.cancel', eventId: 'evt_1'},
+      ],
+      [
+        'Unknown webhook event type: invoice.sent',
+        {eventType: 'invoice.sent', eventId: 'evt_2'},
+      ],
+    ]);
+  });
+
+  it('should reject unhandled events with the throw policy', async () => {
+    const router = new WebhookRouter({unhandled: 'throw'});
+
+    await expect(router.dispatch(subscriptionCancel)).rejects.toBeInstanceOf(
+      UnhandledWebhookEventError
+    );
+  });
+
+  it('should pass unknown events to wildcard handlers', async () => {
+    const handler = jest.fn();
+    const router = new WebhookRouter().on('subscription.*', handler);
+    const event = {id: 'evt_3', eventType: 'subscription.renewed', plan: 'pro'};
+
+    await router.dispatch(event);
+
+    expect(handler).toHaveBeenCalledWith(event);
+  });
+});
+
+describe('handleWebhookEvent', () => {
+  it('should replace the handler registered for an event type', async () => {
+    const first = jest.fn();
+    const second = jest.fn();
+    registerWebhookHandler('subscription.cancel', first);
+    registerWebhookHandler('subscription.cancel', second);
+
+    const result = await handleWebhookEvent(subscriptionCancel);
+
+    expect(first).not.toHaveBeenCalled();
+    expect(second).toHaveBeenCalledWith(subscriptionCancel);
+    expect(result.ok).toBe(true);
+  });
+
+  it('should not throw for unknown event types by default', async () => {
+    const warn = jest.fn();
+
+    const result = await handleWebhookEvent(
+      {id: 'evt_4', eventType: 'invoice.sent'},
+      {logger: {warn}}
+    );
+
+    expect(result.handlerCount).toBe(0);
+    expect(warn).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,264 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  WebhookRouter,
+  MemoryIdempotencyStore,
+  FileIdempotencyStore,
+  processWebhook,
+} from '../src/webhooks';
+import {secret, payload, signedHeaders} from './helpers/webhooks';
+
+describe('MemoryIdempotencyStore', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('forgets message IDs once their retention has passed', async () => {
+    jest.useFakeTimers({now: new Date('2024-05-01T00:00:00Z')});
+    const store = new MemoryIdempotencyStore();
+
+    await store.add('msg_1', 60000);
+    expect(await store.has('msg_1')).toBe(true);
+
+    jest.setSystemTime(new Date('2024-05-01T00:01:00Z'));
+    expect(await store.has('msg_1')).toBe(false);
+  });
+
+  it('claims a message ID until it is released, recorded or its lease expires', async () => {
+    jest.useFakeTimers({now: new Date('2024-05-01T00:00:00Z')});
+    const store = new MemoryIdempotencyStore();
+
+    expect(
+      await Promise.all([
+        store.claim('msg_1', 60000),
+        store.claim('msg_1', 60000),
+      ])
+    ).toEqual([true, false]);
+
+    await store.release('msg_1');
+    expect(await store.claim('msg_1', 60000)).toBe(true);
+
+    jest.setSystemTime(new Date('2024-05-01T00:01:00Z'));
+    expect(await store.claim('msg_1', 60000)).toBe(true);
+
+    await store.add('msg_1', 60000);
+    expect(await store.claim('msg_1', 60000)).toBe(false);
+  });
+
+  it('evicts the least recently used message IDs beyond its maximum size', async () => {
+    const store = new MemoryIdempotencyStore({maxSize: 2});
+
+    await store.add('msg_1', 60000);
+    await store.add('msg_2', 60000);
+    await store.has('msg_1');
+    await store.add('msg_3', 60000);
+
+    expect(await store.has('msg_1')).toBe(true);
+    expect(await store.has('msg_2')).toBe(false);
+    expect(await store.has('msg_3')).toBe(true);
+  });
+});
+
+describe('FileIdempotencyStore', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'recurrente-'));
+  });
+
+  afterEach(() => {
+    fs.readdirSync(directory).forEach(file =>
+      fs.unlinkSync(path.join(directory, file))
+    );
+    fs.rmdirSync(directory);
+  });
+
+  it('keeps the message IDs across instances and drops the expired ones', async () => {
+    const file = path.join(directory, 'processed.json');
+    const store = new FileIdempotencyStore(file);
+
+    await store.add('msg_1', 60000);
+    await store.add('msg_2', -1);
+
+    const reopened = new FileIdempotencyStore(file);
+    expect(await reopened.has('msg_1')).toBe(true);
+    expect(await reopened.has('msg_2')).toBe(false);
+    expect(Object.keys(JSON.parse(fs.readFileSync(file, 'utf8')))).toEqual([
+      'msg_1',
+    ]);
+  });
+
+  it('claims message IDs atomically and refuses recorded ones', async () => {
+    const file = path.join(directory, 'processed.json');
+    const store = new FileIdempotencyStore(file);
+
+    expect(
+      await Promise.all([
+        store.claim('msg_1', 60000),
+        store.claim('msg_1', 60000),
+      ])
+    ).toEqual([true, false]);
+    await store.add('msg_1', 60000);
+
+    expect(await new FileIdempotencyStore(file).claim('msg_1', 60000)).toBe(
+      false
+    );
+  });
+
+  it('holds no message IDs when the file does not exist', async () => {
+    const store = new FileIdempotencyStore(
+      path.join(directory, 'missing.json')
+    );
+
+    expect(await store.has('msg_1')).toBe(false);
+  });
+});
+
+describe('Webhook deduplication', () => {
+  const env = process.env.RECURRENTE_SVIX_SIGNING_SECRET;
+
+  beforeAll(() => {
+    process.env.RECURRENTE_SVIX_SIGNING_SECRET = secret;
+  });
+
+  afterAll(() => {
+    process.env.RECURRENTE_SVIX_SIGNING_SECRET = env;
+  });
+
+  it('skips the deliveries of a message that was already processed', async () => {
+    const handler = jest.fn();
+    const options = {
+      router: new WebhookRouter().on('subscription.cancel', handler),
+      idempotency: {store: new MemoryIdempotencyStore()},
+    };
+
+    const first = await processWebhook(payload, signedHeaders(), options);
+    const retry = await processWebhook(payload, signedHeaders(), options);
+
+    expect(first).toEqual({status: 200, body: {received: true}});
+    expect(retry).toEqual({
+      status: 200,
+      body: {received: true, duplicate: true},
+    });
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(handler).toHaveBeenCalledWith(expect.anything(), {
+      id: 'msg_1',
+      duplicate: false,
+    });
+  });
+
+  it('reads the message ID of deliveries with webhook-* headers', async () => {
+    const handler = jest.fn();
+    const options = {
+      router: new WebhookRouter().on('subscription.cancel', handler),
+      idempotency: {store: new MemoryIdempotencyStore()},
+    };
+    const standardHeaders = (messageId: string) => {
+      const headers = signedHeaders(payload, {id: messageId});
+      return {
+        'webhook-id': headers['svix-id'],
+        'webhook-timestamp': headers['svix-timestamp'],
+        'webhook-signature': headers['svix-signature'],
+      };
+    };
+
+    await processWebhook(payload, standardHeaders('msg_a'), options);
+    await processWebhook(payload, standardHeaders('msg_b'), options);
+    const retry = await processWebhook(
+      payload,
+      standardHeaders('msg_a'),
+      options
+    );
+
+    expect(handler.mock.calls.map(([, delivery]) => delivery.id)).toEqual([
+      'msg_a',
+      'msg_b',
+    ]);
+    expect(retry.body).toEqual({received: true, duplicate: true});
+  });
+
+  it('dispatches duplicates flagged with the "flag" policy', async () => {
+    const handler = jest.fn();
+    const options = {
+      router: new WebhookRouter().on('subscription.cancel', handler),
+      idempotency: {
+        store: new MemoryIdempotencyStore(),
+        duplicates: 'flag' as const,
+      },
+    };
+
+    await processWebhook(payload, signedHeaders(), options);
+    await processWebhook(payload, signedHeaders(), options);
+
+    expect(handler).toHaveBeenCalledTimes(2);
+    expect(handler).toHaveBeenLastCalledWith(expect.anything(), {
+      id: 'msg_1',
+      duplicate: true,
+    });
+  });
+
+  it('does not record deliveries whose handlers failed, so retries are processed', async () => {
+    const handler = jest
+      .fn()
+      .mockRejectedValueOnce(new Error('Database unavailable'));
+    const options = {
+      router: new WebhookRouter().on('subscription.cancel', handler),
+      idempotency: {store: new MemoryIdempotencyStore()},
+      onError: () => {},
+    };
+
+    const failed = await processWebhook(payload, signedHeaders(), options);
+    const retry = await processWebhook(payload, signedHeaders(), options);
+
+    expect(failed.status).toBe(500);
+    expect(retry).toEqual({status: 200, body: {received: true}});
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+
+  it('answers 409 to a retry that arrives while the first delivery is processed', async () => {
+    let finish = () => {};
+    const handler = jest.fn(
+      () => new Promise<void>(resolve => (finish = resolve))
+    );
+    const options = {
+      router: new WebhookRouter().on('subscription.cancel', handler),
+      idempotency: {store: new MemoryIdempotencyStore()},
+    };
+
+    const first = processWebhook(payload, signedHeaders(), options);
+    const concurrent = await processWebhook(payload, signedHeaders(), options);
+    finish();
+
+    expect(concurrent).toEqual({
+      status: 409,
+      body: {error: 'Webhook delivery already being processed'},
+    });
+    expect(await first).toEqual({status: 200, body: {received: true}});
+    expect(await processWebhook(payload, signedHeaders(), options)).toEqual({
+      status: 200,
+      body: {received: true, duplicate: true},
+    });
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it('responds with 500 when the store cannot be read', async () => {
+    const store = {
+      has: () => Promise.reject(new Error('Connection refused')),
+      add: () => Promise.resolve(),
+    };
+    const onError = jest.fn();
+
+    const response = await processWebhook(payload, signedHeaders(), {
+      router: new WebhookRouter(),
+      idempotency: {store},
+      onError,
+    });
+
+    expect(response).toEqual({
+      status: 500,
+      body: {error: 'Webhook idempotency store failed'},
+    });
+    expect(onError).toHaveBeenCalledWith(new Error('Connection refused'));
+  });
+});
@@ -0,0 +1,156 @@
+import {
+  verifySvixSignature,
+  processWebhook,
+  WebhookRouter,
+  WebhookVerificationError,
+  MissingWebhookHeadersError,
+  WebhookTimestampError,
+  InvalidWebhookSignatureError,
+} from '../src/webhooks';
+import {secret, payload, signedHeaders} from './helpers/webhooks';
+
+const previousSecret = 'whsec_' + Buffer.from('old-secret').toString('base64');
+
+const minutesAgo = (minutes: number) =>
+  new Date(Date.now() - minutes * 60 * 1000);
+
+describe('verifySvixSignature', () => {
+  const env = process.env.RECURRENTE_SVIX_SIGNING_SECRET;
+
+  beforeEach(() => {
+    delete process.env.RECURRENTE_SVIX_SIGNING_SECRET;
+  });
+
+  afterAll(() => {
+    process.env.RECURRENTE_SVIX_SIGNING_SECRET = env;
+  });
+
+  it('should verify deliveries with an explicit secret', () => {
+    const event = verifySvixSignature(payload, signedHeaders(), {secret});
+
+    expect(event).toMatchObject({id: 'evt_1', customerId: 'cus_1'});
+  });
+
+  it('should accept deliveries signed with any secret during a rotation', () => {
+    const headers = signedHeaders(payload, {secret: previousSecret});
+
+    expect(() =>
+      verifySvixSignature(payload, headers, {secret: [secret, previousSecret]})
+    ).not.toThrow();
+  });
+
+  it('should accept the Standard Webhooks header names', () => {
+    const headers = signedHeaders();
+
+    const event = verifySvixSignature(
+      payload,
+      {
+        'webhook-id': headers['svix-id'],
+        'webhook-timestamp': headers['svix-timestamp'],
+        'webhook-signature': headers['svix-signature'],
+      },
+      {secret}
+    );
+
+    expect(event.id).toBe('evt_1');
+  });
+
+  it('should throw a MissingWebhookHeadersError naming the missing headers', () => {
+    const headers = signedHeaders();
+    delete headers['svix-signature'];
+
+    const verify = () => verifySvixSignature(payload, headers, {secret});
+
+    expect(verify).toThrow(MissingWebhookHeadersError);
+    expect(verify).toThrow(WebhookVerificationError);
+    expect(verify).toThrow('Missing webhook headers: svix-signature');
+  });
+
+  it('should name the missing headers of the family the delivery used', () => {
+    const {'svix-id': id, 'svix-timestamp': timestamp} = signedHeaders();
+
+    const verify = () =>
+      verifySvixSignature(
+        payload,
+        {'webhook-id': id, 'webhook-timestamp': timestamp},
+        {secret}
+      );
+
+    expect(verify).toThrow('Missing webhook headers: webhook-signature');
+  });
+
+  it('should name the headers of both families when none was sent', () => {
+    const verify = () => verifySvixSignature(payload, {}, {secret});
+
+    expect(verify).toThrow(
+      'Missing webhook headers: svix-id, svix-timestamp, svix-signature, ' +
+        'webhook-id, webhook-timestamp, webhook-signature'
+    );
+  });
+
+  it('should throw a WebhookTimestampError for deliveries outside the tolerance', () => {
+    const headers = signedHeaders(payload, {timestamp: minutesAgo(6)});
+
+    const verify = () => verifySvixSignature(payload, headers, {secret});
+
+    expect(verify).toThrow(WebhookTimestampError);
+    expect(verify).toThrow('Webhook timestamp outside the tolerance window');
+  });
+
+  it('should accept older deliveries with a wider tolerance', () => {
+    const headers = signedHeaders(payload, {timestamp: minutesAgo(6)});
+
+    expect(() =>
+      verifySvixSignature(payload, headers, {
+        secret,
+        tolerance: 10 * 60 * 1000,
+      })
+    ).not.toThrow();
+  });
+
+  it('should throw an InvalidWebhookSignatureError when the body was modified', () => {
+    const headers = signedHeaders();
+
+    expect(() =>
+      verifySvixSignature(payload.replace('Ana', 'Eva'), headers, {secret})
+    ).toThrow(InvalidWebhookSignatureError);
+  });
+
+  it('should throw an InvalidWebhookSignatureError for an unknown secret', () => {
+    const headers = signedHeaders(payload, {secret: previousSecret});
+
+    expect(() => verifySvixSignature(payload, headers, {secret})).toThrow(
+      InvalidWebhookSignatureError
+    );
+  });
+
+  it('should fall back to the environment variable', () => {
+    process.env.RECURRENTE_SVIX_SIGNING_SECRET = secret;
+
+    expect(verifySvixSignature(payload, signedHeaders()).id).toBe('evt_1');
+  });
+
+  it('should throw when no secret is configured', () => {
+    expect(() => verifySvixSignature(payload, signedHeaders())).toThrow(
+      'Missing signing secret'
+    );
+  });
+});
+
+describe('processWebhook verification', () => {
+  it('should respond 400 with the reason a delivery was rejected', async () => {
+    const onError = jest.fn();
+
+    const response = await processWebhook(
+      payload,
+      signedHeaders(payload, {timestamp: minutesAgo(6)}),
+      {router: new WebhookRouter(), verification: {secret}, onError}
+    );
+
+    expect(response).toEqual({
+      status: 400,
+      body: {error: 'Webhook timestamp outside the tolerance window'},
+    });
+    expect(onError).toHaveBeenCalledWith(expect.any(WebhookTimestampError));
+  });
+});
@@ -0,0 +1,157 @@
+import {AxiosInstance} from 'axios';
+import {
+  CreateCheckoutRequest,
+  CreateCheckoutResponse,
+  CheckoutResponse,
+  GetAllCheckoutsResponse,
+  RequestOptions,
+  PaginationOptions,
+} from '../types/globals';
+import {toSnakeCase} from '../utils/conversion';
+import {handleAxiosError} from './errors';
+import {
+  validateRequest,
+  validateId,
+  createCheckoutRequestSchema,
+} from '../utils/validation';
+import {toRequestConfig} from '../config/idempotency';
+import {decodeResponse} from '../config/decoding';
+import {
+  createCheckoutResponseDecoder,
+  checkoutResponseDecoder,
+  getAllCheckoutsResponseDecoder,
+} from '../utils/decoders';
+import {PaginatedList} from '../utils/pagination';
+
+/**
+ * Creates a new checkout.
+ *
+ * This function takes the checkout data, converts it to snake_case, and sends
+ * it to the API. Items can reference existing prices or be ad-hoc line items,
+ * so no permanent product needs to be created first.
+ *
+ * @param {AxiosInstance} client - The Axios instance used to send the request.
+ * @param {CreateCheckoutRequest} checkoutData - The items, redirect URLs, metadata and expiration of the checkout.
+ * @param {RequestOptions} [options] - Optional request options, such as an idempotency key.
+ * @returns {Promise<CreateCheckoutResponse>} The checkout ID and the URL of the hosted checkout page.
+ * @throws {ValidationError} If the payload is invalid, before any request is sent.
+ * @throws {RecurrenteError} Throws an error if the checkout creation fails.
+ */
+const createCheckout = async (
+  client: AxiosInstance,
+  checkoutData: CreateCheckoutRequest,
+  options?: RequestOptions
+): Promise<CreateCheckoutResponse> => {
+  validateRequest(createCheckoutRequestSchema, checkoutData);
+
+  try {
+    const checkoutDataInSnakeCase = toSnakeCase(checkoutData, {
+      type: 'CreateCheckoutRequest',
+    });
+
+    const response = await client.post<CreateCheckoutResponse>(
+      '/checkouts/',
+      checkoutDataInSnakeCase,
+      toRequestConfig(options)
+    );
+
+    return decodeResponse(client, createCheckoutResponseDecoder, response);
+  } catch (error: unknown) {
+    throw handleAxiosError(error);
+  }
+};
+
+/**
+ * Retrieves details of a specific checkout by its ID.
+ *
+ * @param {AxiosInstance} client - The Axios instance used to send the request.
+ * @param {string} checkoutId - The ID of the checkout to retrieve.
+ * @returns {Promise<CheckoutResponse>} The details of the checkout, including its hosted URL.
+ * @throws {RecurrenteError} Throws an error if the checkout retrieval fails.
+ */
+const getCheckout = async (
+  client: AxiosInstance,
+  checkoutId: string
+): Promise<CheckoutResponse> => {
+  validateId('checkoutId', checkoutId);
+
+  try {
+    const response = await client.get<CheckoutResponse>(
+      `/checkouts/${checkoutId}`
+    );
+    return decodeResponse(client, checkoutResponseDecoder, response);
+  } catch (error: unknown) {
+    throw handleAxiosError(error);
+  }
+};
+
+/**
+ * Retrieves a single page of checkouts.
+ *
+ * @param {AxiosInstance} client - The Axios instance used to send the request.
+ * @param {number} [page=1] - The page number to retrieve, defaults to the first page.
+ * @returns {Promise<GetAllCheckoutsResponse>} The checkouts of the requested page.
+ * @throws {RecurrenteError} Throws an error if the checkout retrieval fails.
+ */
+const getAllCheckouts = async (
+  client: AxiosInstance,
+  page = 1
+): Promise<GetAllCheckoutsResponse> => {
+  try {
+    const response = await client.get<GetAllCheckoutsResponse>(
+      `/checkouts?page=${page}`
+    );
+    return decodeResponse(client, getAllCheckoutsResponseDecoder, response);
+  } catch (error: unknown) {
+    throw handleAxiosError(error);
+  }
+};
+
+/**
+ * Lists every checkout, walking all pages transparently.
+ *
+ * @param {AxiosInstance} client - The Axios instance used to send the request.
+ * @param {PaginationOptions<CheckoutResponse>} [options] - The first page and an optional per-page callback.
+ * @returns {PaginatedList<CheckoutResponse>} An async iterable over all checkouts.
+ */
+const listCheckouts = (
+  client: AxiosInstance,
+  options?: PaginationOptions<CheckoutResponse>
+): PaginatedList<CheckoutResponse> =>
+  new PaginatedList(page => getAllCheckouts(client, page), options);
+
+/**
+ * Expires an unpaid checkout so it can no longer be paid.
+ *
+ * @param {AxiosInstance} client - The Axios instance used to send the request.
+ * @param {string} checkoutId - The ID of the checkout to expire.
+ * @param {RequestOptions} [options] - Optional request options, such as an idempotency key.
+ * @returns {Promise<CheckoutResponse>} The details of the expired checkout.
+ * @throws {RecurrenteError} Throws an error if the checkout cannot be expired.
+ */
+const expireCheckout = async (
+  client: AxiosInstance,
+  checkoutId: string,
+  options?: RequestOptions
+): Promise<CheckoutResponse> => {
+  validateId('checkoutId', checkoutId);
+
+  try {
+    const response = await client.post<CheckoutResponse>(
+      `/checkouts/${checkoutId}/expire`,
+      undefined,
+      toRequestConfig(options)
+    );
+    return decodeResponse(client, checkoutResponseDecoder, response);
+  } catch (error: unknown) {
+    throw handleAxiosError(error);
+  }
+};
+
+export {
+  createCheckout,
+  getCheckout,
+  getAllCheckouts,
+  listCheckouts,
+  expireCheckout,
+};
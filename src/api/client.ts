@@ -0,0 +1,557 @@
+import {AxiosInstance} from 'axios';
+import {createAxiosInstance, loadConfigFromEnv} from '../config/axiosInstance';
+import {
+  ProductSubscription,
+  CreateSubscriptionResponse,
+  SubscriptionStatusResponse,
+  CreateProductRequest,
+  CreateProductResponse,
+  GetProductResponse,
+  GetAllProductsResponse,
+  UpdateProductRequest,
+  RecurrenteClientConfig,
+  RequestOptions,
+  PaginationOptions,
+  CreateCheckoutRequest,
+  CreateCheckoutResponse,
+  CheckoutResponse,
+  CreateRefundRequest,
+  RefundResponse,
+  PauseSubscriptionRequest,
+  ChangeSubscriptionPriceRequest,
+  ProrationPreview,
+  ListSubscriptionsFilters,
+  Customer,
+  CreateCustomerRequest,
+  UpdateCustomerRequest,
+  ListCustomersFilters,
+  CustomerPayment,
+} from '../types/globals';
+import {
+  test,
+  createProduct,
+  getProduct,
+  getAllProducts,
+  listProducts,
+  updateProduct,
+  deleteProduct,
+  createSubscription,
+  cancelSubscription,
+  getSubscription,
+  listSubscriptions,
+  pauseSubscription,
+  resumeSubscription,
+  cancelAtPeriodEnd,
+  previewSubscriptionPriceChange,
+  changeSubscriptionPrice,
+} from './recurrente';
+import {
+  createCheckout,
+  getCheckout,
+  listCheckouts,
+  expireCheckout,
+} from './checkouts';
+import {createRefund, getRefund, listRefunds} from './refunds';
+import {
+  createCustomer,
+  getCustomer,
+  updateCustomer,
+  listCustomers,
+  searchCustomersByEmail,
+  listCustomerSubscriptions,
+  listCustomerPayments,
+} from './customers';
+import {PaginatedList} from '../utils/pagination';
+
+/**
+ * Client for a single Recurrente account.
+ *
+ * Each instance owns its own HTTP transport and credentials, so nothing is read
+ * from the environment and several accounts can be used from the same process.
+ *
+ * @example
+ * const client = new RecurrenteClient({
+ *   publicKey: 'pk_test_...',
+ *   secretKey: 'sk_test_...',
+ *   timeout: 10000,
+ * });
+ *
+ * const product = await client.getProduct('prod_123');
+ */
+export class RecurrenteClient {
+  /**
+   * The Axios instance used to send every request of this client.
+   */
+  readonly http: AxiosInstance;
+
+  /**
+   * Product operations.
+   */
+  readonly products = {
+    /**
+     * Creates a new product with a one-time payment.
+     * @see createProduct
+     */
+    create: (
+      productData: CreateProductRequest,
+      options?: RequestOptions
+    ): Promise<CreateProductResponse> =>
+      createProduct(this.http, productData, options),
+
+    /**
+     * Retrieves details of a specific product by its ID.
+     * @see getProduct
+     */
+    retrieve: (productId: string): Promise<GetProductResponse> =>
+      getProduct(this.http, productId),
+
+    /**
+     * Updates an existing product by its ID.
+     * @see updateProduct
+     */
+    update: (
+      productId: string,
+      productData: UpdateProductRequest,
+      options?: RequestOptions
+    ): Promise<GetProductResponse> =>
+      updateProduct(this.http, productId, productData, options),
+
+    /**
+     * Deletes a product by its ID.
+     * @see deleteProduct
+     */
+    delete: (
+      productId: string,
+      options?: RequestOptions
+    ): Promise<{message: string}> =>
+      deleteProduct(this.http, productId, options),
+
+    /**
+     * Lists every product as an async iterable that walks all pages.
+     * @see listProducts
+     */
+    list: (
+      options?: PaginationOptions<GetProductResponse>
+    ): PaginatedList<GetProductResponse> => listProducts(this.http, options),
+  };
+
+  /**
+   * Checkout operations, for ad-hoc payments without a permanent product.
+   */
+  readonly checkouts = {
+    /**
+     * Creates a new checkout and returns the URL of its hosted page.
+     * @see createCheckout
+     */
+    create: (
+      checkoutData: CreateCheckoutRequest,
+      options?: RequestOptions
+    ): Promise<CreateCheckoutResponse> =>
+      createCheckout(this.http, checkoutData, options),
+
+    /**
+     * Retrieves details of a specific checkout by its ID.
+     * @see getCheckout
+     */
+    retrieve: (checkoutId: string): Promise<CheckoutResponse> =>
+      getCheckout(this.http, checkoutId),
+
+    /**
+     * Lists every checkout as an async iterable that walks all pages.
+     * @see listCheckouts
+     */
+    list: (
+      options?: PaginationOptions<CheckoutResponse>
+    ): PaginatedList<CheckoutResponse> => listCheckouts(this.http, options),
+
+    /**
+     * Expires an unpaid checkout so it can no longer be paid.
+     * @see expireCheckout
+     */
+    expire: (
+      checkoutId: string,
+      options?: RequestOptions
+    ): Promise<CheckoutResponse> =>
+      expireCheckout(this.http, checkoutId, options),
+  };
+
+  /**
+   * Refund operations.
+   */
+  readonly refunds = {
+    /**
+     * Creates a full or partial refund for a payment intent.
+     * @see createRefund
+     */
+    create: (
+      refundData: CreateRefundRequest,
+      options?: RequestOptions
+    ): Promise<RefundResponse> => createRefund(this.http, refundData, options),
+
+    /**
+     * Retrieves details of a specific refund by its ID.
+     * @see getRefund
+     */
+    retrieve: (refundId: string): Promise<RefundResponse> =>
+      getRefund(this.http, refundId),
+
+    /**
+     * Lists every refund as an async iterable that walks all pages.
+     * @see listRefunds
+     */
+    list: (
+      options?: PaginationOptions<RefundResponse>
+    ): PaginatedList<RefundResponse> => listRefunds(this.http, options),
+  };
+
+  /**
+   * Customer operations.
+   */
+  readonly customers = {
+    /**
+     * Creates a new customer.
+     * @see createCustomer
+     */
+    create: (
+      customerData: CreateCustomerRequest,
+      options?: RequestOptions
+    ): Promise<Customer> => createCustomer(this.http, customerData, options),
+
+    /**
+     * Retrieves details of a specific customer by its ID.
+     * @see getCustomer
+     */
+    retrieve: (customerId: string): Promise<Customer> =>
+      getCustomer(this.http, customerId),
+
+    /**
+     * Updates an existing customer by its ID.
+     * @see updateCustomer
+     */
+    update: (
+      customerId: string,
+      customerData: UpdateCustomerRequest,
+      options?: RequestOptions
+    ): Promise<Customer> =>
+      updateCustomer(this.http, customerId, customerData, options),
+
+    /**
+     * Lists every customer as an async iterable that walks all pages.
+     * @see listCustomers
+     */
+    list: (
+      filters?: ListCustomersFilters,
+      options?: PaginationOptions<Customer>
+    ): PaginatedList<Customer> => listCustomers(this.http, filters, options),
+
+    /**
+     * Finds the customers with the given email address.
+     * @see searchCustomersByEmail
+     */
+    searchByEmail: (email: string): Promise<Customer[]> =>
+      searchCustomersByEmail(this.http, email),
+
+    /**
+     * Lists every subscription of a customer.
+     * @see listCustomerSubscriptions
+     */
+    listSubscriptions: (
+      customerId: string,
+      options?: PaginationOptions<SubscriptionStatusResponse>
+    ): PaginatedList<SubscriptionStatusResponse> =>
+      listCustomerSubscriptions(this.http, customerId, options),
+
+    /**
+     * Lists every payment of a customer.
+     * @see listCustomerPayments
+     */
+    listPayments: (
+      customerId: string,
+      options?: PaginationOptions<CustomerPayment>
+    ): PaginatedList<CustomerPayment> =>
+      listCustomerPayments(this.http, customerId, options),
+  };
+
+  /**
+   * Creates a new client.
+   *
+   * @param {RecurrenteClientConfig} config - The credentials and transport options for the account.
+   * @throws {Error} If the public or secret key is missing.
+   */
+  constructor(config: RecurrenteClientConfig) {
+    this.http = createAxiosInstance(config);
+  }
+
+  /**
+   * Makes a GET request to the '/test' endpoint.
+   *
+   * **FOR DEVELOPMENT PURPOSES ONLY TO TEST**
+   *
+   * @returns {Promise<{message: string}>} A message indicating the success or failure of the request.
+   * @throws {RecurrenteError} Throws an error if the request fails.
+   */
+  test(): Promise<{message: string}> {
+    return test(this.http);
+  }
+
+  /**
+   * Creates a new product with a one-time payment.
+   *
+   * @see createProduct
+   * @param {CreateProductRequest} productData - The details of the product to create.
+   * @param {RequestOptions} [options] - Optional request options, such as an idempotency key.
+   * @returns {Promise<CreateProductResponse>} A promise that resolves with the created product's details.
+   * @throws {RecurrenteError} Throws an error if the product creation fails.
+   */
+  createProduct(
+    productData: CreateProductRequest,
+    options?: RequestOptions
+  ): Promise<CreateProductResponse> {
+    return createProduct(this.http, productData, options);
+  }
+
+  /**
+   * Retrieves details of a specific product by its ID.
+   *
+   * @see getProduct
+   * @param {string} productId - The ID of the product to retrieve.
+   * @returns {Promise<GetProductResponse>} The details of the product.
+   * @throws {RecurrenteError} Throws an error if the retrieval fails.
+   */
+  getProduct(productId: string): Promise<GetProductResponse> {
+    return getProduct(this.http, productId);
+  }
+
+  /**
+   * Retrieves a paginated list of all products.
+   *
+   * @see getAllProducts
+   * @param {number} [page=1] - The page number to retrieve, defaults to the first page.
+   * @returns {Promise<GetAllProductsResponse>} A promise that resolves with an array of product details.
+   * @throws {RecurrenteError} Throws an error if the product retrieval fails.
+   */
+  getAllProducts(page = 1): Promise<GetAllProductsResponse> {
+    return getAllProducts(this.http, page);
+  }
+
+  /**
+   * Updates an existing product by its ID.
+   *
+   * @see updateProduct
+   * @param {string} productId - The ID of the product to update.
+   * @param {UpdateProductRequest} productData - The updated product details.
+   * @param {RequestOptions} [options] - Optional request options, such as an idempotency key.
+   * @returns {Promise<GetProductResponse>} A promise that resolves with the updated product's details.
+   * @throws {RecurrenteError} Throws an error if the product update fails.
+   */
+  updateProduct(
+    productId: string,
+    productData: UpdateProductRequest,
+    options?: RequestOptions
+  ): Promise<GetProductResponse> {
+    return updateProduct(this.http, productId, productData, options);
+  }
+
+  /**
+   * Deletes a product by its ID.
+   *
+   * @see deleteProduct
+   * @param {string} productId - The ID of the product to delete.
+   * @param {RequestOptions} [options] - Optional request options, such as an idempotency key.
+   * @returns {Promise<{message: string}>} A message indicating whether the product was deleted successfully.
+   * @throws {RecurrenteError} Throws an error if the deletion fails.
+   */
+  deleteProduct(
+    productId: string,
+    options?: RequestOptions
+  ): Promise<{message: string}> {
+    return deleteProduct(this.http, productId, options);
+  }
+
+  /**
+   * Creates a new subscription for a product.
+   *
+   * @see createSubscription
+   * @param {ProductSubscription} productData - The subscription details for the product.
+   * @param {RequestOptions} [options] - Optional request options, such as an idempotency key.
+   * @returns {Promise<CreateSubscriptionResponse>} The response containing subscription details.
+   * @throws {RecurrenteError} Throws an error if the subscription creation fails.
+   */
+  createSubscription(
+    productData: ProductSubscription,
+    options?: RequestOptions
+  ): Promise<CreateSubscriptionResponse> {
+    return createSubscription(this.http, productData, options);
+  }
+
+  /**
+   * Cancels an existing subscription by its ID.
+   *
+   * @see cancelSubscription
+   * @param {string} subscriptionId - The ID of the subscription to cancel.
+   * @param {RequestOptions} [options] - Optional request options, such as an idempotency key.
+   * @returns {Promise<{message: string}>} A message indicating whether the subscription was canceled successfully.
+   * @throws {RecurrenteError} Throws an error if the cancellation fails.
+   */
+  cancelSubscription(
+    subscriptionId: string,
+    options?: RequestOptions
+  ): Promise<{message: string}> {
+    return cancelSubscription(this.http, subscriptionId, options);
+  }
+
+  /**
+   * Retrieves details of a specific subscription by its ID.
+   *
+   * @see getSubscription
+   * @param {string} subscriptionId - The ID of the subscription to retrieve.
+   * @returns {Promise<SubscriptionStatusResponse>} The details of the subscription.
+   * @throws {RecurrenteError} Throws an error if the retrieval fails.
+   */
+  getSubscription(subscriptionId: string): Promise<SubscriptionStatusResponse> {
+    return getSubscription(this.http, subscriptionId);
+  }
+
+  /**
+   * Lists every subscription matching the given filters, walking all pages transparently.
+   *
+   * @see listSubscriptions
+   * @param {ListSubscriptionsFilters} [filters] - Status, product, subscriber and date filters.
+   * @param {PaginationOptions<SubscriptionStatusResponse>} [options] - The first page and an optional per-page callback.
+   * @returns {PaginatedList<SubscriptionStatusResponse>} An async iterable over the matching subscriptions.
+   */
+  listSubscriptions(
+    filters?: ListSubscriptionsFilters,
+    options?: PaginationOptions<SubscriptionStatusResponse>
+  ): PaginatedList<SubscriptionStatusResponse> {
+    return listSubscriptions(this.http, filters, options);
+  }
+
+  /**
+   * Pauses billing of an active subscription.
+   *
+   * @see pauseSubscription
+   * @param {string} subscriptionId - The ID of the subscription to pause.
+   * @param {PauseSubscriptionRequest} [pauseData] - Optional automatic resume date.
+   * @param {RequestOptions} [options] - Optional request options, such as an idempotency key.
+   * @returns {Promise<SubscriptionStatusResponse>} The details of the paused subscription.
+   * @throws {RecurrenteError} Throws an error if the subscription cannot be paused.
+   */
+  pauseSubscription(
+    subscriptionId: string,
+    pauseData?: PauseSubscriptionRequest,
+    options?: RequestOptions
+  ): Promise<SubscriptionStatusResponse> {
+    return pauseSubscription(this.http, subscriptionId, pauseData, options);
+  }
+
+  /**
+   * Resumes billing of a paused subscription.
+   *
+   * @see resumeSubscription
+   * @param {string} subscriptionId - The ID of the subscription to resume.
+   * @param {RequestOptions} [options] - Optional request options, such as an idempotency key.
+   * @returns {Promise<SubscriptionStatusResponse>} The details of the resumed subscription.
+   * @throws {RecurrenteError} Throws an error if the subscription cannot be resumed.
+   */
+  resumeSubscription(
+    subscriptionId: string,
+    options?: RequestOptions
+  ): Promise<SubscriptionStatusResponse> {
+    return resumeSubscription(this.http, subscriptionId, options);
+  }
+
+  /**
+   * Schedules a subscription to be canceled at the end of its current billing period.
+   *
+   * @see cancelAtPeriodEnd
+   * @param {string} subscriptionId - The ID of the subscription to cancel.
+   * @param {RequestOptions} [options] - Optional request options, such as an idempotency key.
+   * @returns {Promise<SubscriptionStatusResponse>} The details of the subscription.
+   * @throws {RecurrenteError} Throws an error if the cancellation cannot be scheduled.
+   */
+  cancelAtPeriodEnd(
+    subscriptionId: string,
+    options?: RequestOptions
+  ): Promise<SubscriptionStatusResponse> {
+    return cancelAtPeriodEnd(this.http, subscriptionId, options);
+  }
+
+  /**
+   * Previews the cost of moving a subscription to another price, without applying it.
+   *
+   * @see previewSubscriptionPriceChange
+   * @param {string} subscriptionId - The ID of the subscription to change.
+   * @param {ChangeSubscriptionPriceRequest} changeData - The new price and proration behavior.
+   * @returns {Promise<ProrationPreview>} The prorated amount and the next invoice amount.
+   * @throws {RecurrenteError} Throws an error if the preview fails.
+   */
+  previewSubscriptionPriceChange(
+    subscriptionId: string,
+    changeData: ChangeSubscriptionPriceRequest
+  ): Promise<ProrationPreview> {
+    return previewSubscriptionPriceChange(
+      this.http,
+      subscriptionId,
+      changeData
+    );
+  }
+
+  /**
+   * Moves a subscription to another price.
+   *
+   * @see changeSubscriptionPrice
+   * @param {string} subscriptionId - The ID of the subscription to change.
+   * @param {ChangeSubscriptionPriceRequest} changeData - The new price and proration behavior.
+   * @param {RequestOptions} [options] - Optional request options, such as an idempotency key.
+   * @returns {Promise<SubscriptionStatusResponse>} The details of the updated subscription.
+   * @throws {RecurrenteError} Throws an error if the price change fails.
+   */
+  changeSubscriptionPrice(
+    subscriptionId: string,
+    changeData: ChangeSubscriptionPriceRequest,
+    options?: RequestOptions
+  ): Promise<SubscriptionStatusResponse> {
+    return changeSubscriptionPrice(
+      this.http,
+      subscriptionId,
+      changeData,
+      options
+    );
+  }
+}
+
+/**
+ * Creates a client from the `RECURRENTE_*` environment variables (and `.env` file).
+ *
+ * This is the opt-in replacement for the old import-time configuration.
+ *
+ * @returns {RecurrenteClient} A client configured from the environment.
+ * @throws {Error} If a required environment variable is missing.
+ */
+export function createClientFromEnv(): RecurrenteClient {
+  return new RecurrenteClient(loadConfigFromEnv());
+}
+
+/**
+ * The lazily created env-based client backing `recurrente`.
+ */
+let defaultClient: RecurrenteClient | undefined;
+
+/**
+ * Default client configured from the environment.
+ *
+ * Kept for backwards compatibility with the module-level API. The environment is
+ * only read the first time a member is accessed, so importing the package never
+ * throws. Prefer creating a `RecurrenteClient` explicitly.
+ */
+export const recurrente: RecurrenteClient = new Proxy({} as RecurrenteClient, {
+  get(_target, property) {
+    if (!defaultClient) {
+      defaultClient = createClientFromEnv();
+    }
+
+    const value = Reflect.get(defaultClient, property);
+    return typeof value === 'function' ? value.bind(defaultClient) : value;
+  },
+});
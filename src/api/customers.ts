@@ -0,0 +1,238 @@
+import {AxiosInstance} from 'axios';
+import {
+  Customer,
+  CreateCustomerRequest,
+  UpdateCustomerRequest,
+  ListCustomersFilters,
+  GetAllCustomersResponse,
+  CustomerPayment,
+  SubscriptionStatusResponse,
+  GetAllSubscriptionsResponse,
+  RequestOptions,
+  PaginationOptions,
+} from '../types/globals';
+import {toSnakeCase} from '../utils/conversion';
+import {handleAxiosError} from './errors';
+import {
+  validateRequest,
+  validateId,
+  createCustomerRequestSchema,
+  updateCustomerRequestSchema,
+} from '../utils/validation';
+import {toRequestConfig} from '../config/idempotency';
+import {decodeResponse} from '../config/decoding';
+import {
+  customerDecoder,
+  getAllCustomersResponseDecoder,
+  getAllSubscriptionsResponseDecoder,
+  getAllCustomerPaymentsResponseDecoder,
+} from '../utils/decoders';
+import {PaginatedList} from '../utils/pagination';
+
+/**
+ * Creates a new customer.
+ *
+ * @param {AxiosInstance} client - The Axios instance used to send the request.
+ * @param {CreateCustomerRequest} customerData - The details of the customer to create.
+ * @param {RequestOptions} [options] - Optional request options, such as an idempotency key.
+ * @returns {Promise<Customer>} The created customer.
+ * @throws {ValidationError} If the payload is invalid, before any request is sent.
+ * @throws {RecurrenteError} Throws an error if the customer creation fails.
+ */
+const createCustomer = async (
+  client: AxiosInstance,
+  customerData: CreateCustomerRequest,
+  options?: RequestOptions
+): Promise<Customer> => {
+  validateRequest(createCustomerRequestSchema, customerData);
+
+  try {
+    const response = await client.post<Customer>(
+      '/customers/',
+      toSnakeCase(customerData, {type: 'CreateCustomerRequest'}),
+      toRequestConfig(options)
+    );
+
+    return decodeResponse(client, customerDecoder, response);
+  } catch (error: unknown) {
+    throw handleAxiosError(error);
+  }
+};
+
+/**
+ * Retrieves details of a specific customer by its ID.
+ *
+ * @param {AxiosInstance} client - The Axios instance used to send the request.
+ * @param {string} customerId - The ID of the customer to retrieve.
+ * @returns {Promise<Customer>} The details of the customer.
+ * @throws {RecurrenteError} Throws an error if the retrieval fails.
+ */
+const getCustomer = async (
+  client: AxiosInstance,
+  customerId: string
+): Promise<Customer> => {
+  validateId('customerId', customerId);
+
+  try {
+    const response = await client.get<Customer>(`/customers/${customerId}`);
+    return decodeResponse(client, customerDecoder, response);
+  } catch (error: unknown) {
+    throw handleAxiosError(error);
+  }
+};
+
+/**
+ * Updates an existing customer by its ID.
+ *
+ * @param {AxiosInstance} client - The Axios instance used to send the request.
+ * @param {string} customerId - The ID of the customer to update.
+ * @param {UpdateCustomerRequest} customerData - The fields to change.
+ * @param {RequestOptions} [options] - Optional request options, such as an idempotency key.
+ * @returns {Promise<Customer>} The updated customer.
+ * @throws {ValidationError} If the payload is invalid, before any request is sent.
+ * @throws {RecurrenteError} Throws an error if the customer update fails.
+ */
+const updateCustomer = async (
+  client: AxiosInstance,
+  customerId: string,
+  customerData: UpdateCustomerRequest,
+  options?: RequestOptions
+): Promise<Customer> => {
+  validateId('customerId', customerId);
+  validateRequest(updateCustomerRequestSchema, customerData);
+
+  try {
+    const response = await client.patch<Customer>(
+      `/customers/${customerId}`,
+      toSnakeCase(customerData, {type: 'UpdateCustomerRequest'}),
+      toRequestConfig(options)
+    );
+
+    return decodeResponse(client, customerDecoder, response);
+  } catch (error: unknown) {
+    throw handleAxiosError(error);
+  }
+};
+
+/**
+ * Retrieves a single page of customers matching the given filters.
+ *
+ * @param {AxiosInstance} client - The Axios instance used to send the request.
+ * @param {ListCustomersFilters} [filters] - Optional email filter.
+ * @param {number} [page=1] - The page number to retrieve, defaults to the first page.
+ * @returns {Promise<GetAllCustomersResponse>} The customers of the requested page.
+ * @throws {RecurrenteError} Throws an error if the retrieval fails.
+ */
+const getAllCustomers = async (
+  client: AxiosInstance,
+  filters: ListCustomersFilters = {},
+  page = 1
+): Promise<GetAllCustomersResponse> => {
+  try {
+    const response = await client.get<GetAllCustomersResponse>('/customers', {
+      params: toSnakeCase({...filters, page}),
+    });
+    return decodeResponse(client, getAllCustomersResponseDecoder, response);
+  } catch (error: unknown) {
+    throw handleAxiosError(error);
+  }
+};
+
+/**
+ * Lists every customer matching the given filters, walking all pages transparently.
+ *
+ * @param {AxiosInstance} client - The Axios instance used to send the request.
+ * @param {ListCustomersFilters} [filters] - Optional email filter.
+ * @param {PaginationOptions<Customer>} [options] - The first page and an optional per-page callback.
+ * @returns {PaginatedList<Customer>} An async iterable over the matching customers.
+ */
+const listCustomers = (
+  client: AxiosInstance,
+  filters?: ListCustomersFilters,
+  options?: PaginationOptions<Customer>
+): PaginatedList<Customer> =>
+  new PaginatedList(page => getAllCustomers(client, filters, page), options);
+
+/**
+ * Finds the customers with the given email address.
+ *
+ * @param {AxiosInstance} client - The Axios instance used to send the request.
+ * @param {string} email - The email address to search for.
+ * @returns {Promise<Customer[]>} The matching customers; empty if there are none.
+ * @throws {RecurrenteError} Throws an error if the search fails.
+ */
+const searchCustomersByEmail = (
+  client: AxiosInstance,
+  email: string
+): Promise<Customer[]> => listCustomers(client, {email}).toArray();
+
+/**
+ * Lists every subscription of a customer, walking all pages transparently.
+ *
+ * @param {AxiosInstance} client - The Axios instance used to send the request.
+ * @param {string} customerId - The ID of the customer.
+ * @param {PaginationOptions<SubscriptionStatusResponse>} [options] - The first page and an optional per-page callback.
+ * @returns {PaginatedList<SubscriptionStatusResponse>} An async iterable over the customer's subscriptions.
+ */
+const listCustomerSubscriptions = (
+  client: AxiosInstance,
+  customerId: string,
+  options?: PaginationOptions<SubscriptionStatusResponse>
+): PaginatedList<SubscriptionStatusResponse> =>
+  new PaginatedList(async page => {
+    validateId('customerId', customerId);
+
+    try {
+      const response = await client.get<GetAllSubscriptionsResponse>(
+        `/customers/${customerId}/subscriptions?page=${page}`
+      );
+      return decodeResponse(
+        client,
+        getAllSubscriptionsResponseDecoder,
+        response
+      );
+    } catch (error: unknown) {
+      throw handleAxiosError(error);
+    }
+  }, options);
+
+/**
+ * Lists every payment of a customer, walking all pages transparently.
+ *
+ * @param {AxiosInstance} client - The Axios instance used to send the request.
+ * @param {string} customerId - The ID of the customer.
+ * @param {PaginationOptions<CustomerPayment>} [options] - The first page and an optional per-page callback.
+ * @returns {PaginatedList<CustomerPayment>} An async iterable over the customer's payments.
+ */
+const listCustomerPayments = (
+  client: AxiosInstance,
+  customerId: string,
+  options?: PaginationOptions<CustomerPayment>
+): PaginatedList<CustomerPayment> =>
+  new PaginatedList(async page => {
+    validateId('customerId', customerId);
+
+    try {
+      const response = await client.get<CustomerPayment[]>(
+        `/customers/${customerId}/payments?page=${page}`
+      );
+      return decodeResponse(
+        client,
+        getAllCustomerPaymentsResponseDecoder,
+        response
+      );
+    } catch (error: unknown) {
+      throw handleAxiosError(error);
+    }
+  }, options);
+
+export {
+  createCustomer,
+  getCustomer,
+  updateCustomer,
+  getAllCustomers,
+  listCustomers,
+  searchCustomersByEmail,
+  listCustomerSubscriptions,
+  listCustomerPayments,
+};
@@ -0,0 +1,334 @@
+import type {AxiosError} from 'axios';
+import {ErrorResponse} from '../types/globals';
+
+/**
+ * Contextual information attached to every `RecurrenteError`.
+ */
+export interface RecurrenteErrorDetails {
+  /**
+   * The HTTP status code returned by the API, if a response was received.
+   */
+  status?: number;
+
+  /**
+   * The request identifier returned by the API in the `X-Request-Id` header.
+   */
+  requestId?: string;
+
+  /**
+   * The HTTP method of the failed request (e.g., 'POST').
+   */
+  method?: string;
+
+  /**
+   * The path of the failed request, relative to the API base URL.
+   */
+  path?: string;
+
+  /**
+   * The raw response body, exactly as returned by the API.
+   */
+  body?: unknown;
+
+  /**
+   * The underlying error that caused this one, if any.
+   */
+  cause?: unknown;
+}
+
+/**
+ * Base class for every error thrown by the Recurrente client.
+ *
+ * Catch this class to handle any failure, or one of its subclasses to react to
+ * a specific kind of failure.
+ */
+export class RecurrenteError extends Error {
+  /**
+   * The HTTP status code returned by the API, if a response was received.
+   */
+  readonly status?: number;
+
+  /**
+   * The request identifier returned by the API, useful when contacting support.
+   */
+  readonly requestId?: string;
+
+  /**
+   * The HTTP method of the failed request.
+   */
+  readonly method?: string;
+
+  /**
+   * The path of the failed request.
+   */
+  readonly path?: string;
+
+  /**
+   * The raw response body.
+   */
+  readonly body?: unknown;
+
+  /**
+   * The underlying error that caused this one, if any.
+   */
+  readonly cause?: unknown;
+
+  constructor(message: string, details: RecurrenteErrorDetails = {}) {
+    super(message);
+    this.name = 'RecurrenteError';
+    this.status = details.status;
+    this.requestId = details.requestId;
+    this.method = details.method;
+    this.path = details.path;
+    this.body = details.body;
+    this.cause = details.cause;
+  }
+}
+
+/**
+ * Thrown when the API rejects the credentials (HTTP 401 or 403).
+ */
+export class AuthenticationError extends RecurrenteError {
+  constructor(message: string, details: RecurrenteErrorDetails = {}) {
+    super(message, details);
+    this.name = 'AuthenticationError';
+  }
+}
+
+/**
+ * Thrown when the request payload is rejected (HTTP 400 or 422).
+ */
+export class ValidationError extends RecurrenteError {
+  /**
+   * Validation errors keyed by field name, each with its list of messages.
+   */
+  readonly errors: Record<string, string[]>;
+
+  constructor(
+    message: string,
+    errors: Record<string, string[]> = {},
+    details: RecurrenteErrorDetails = {}
+  ) {
+    super(message, details);
+    this.name = 'ValidationError';
+    this.errors = errors;
+  }
+}
+
+/**
+ * Thrown when the requested resource does not exist (HTTP 404).
+ */
+export class NotFoundError extends RecurrenteError {
+  constructor(message: string, details: RecurrenteErrorDetails = {}) {
+    super(message, details);
+    this.name = 'NotFoundError';
+  }
+}
+
+/**
+ * Thrown when the API rate limit has been exceeded (HTTP 429).
+ */
+export class RateLimitError extends RecurrenteError {
+  /**
+   * Number of seconds the API asked to wait before retrying, if provided.
+   */
+  readonly retryAfter?: number;
+
+  constructor(
+    message: string,
+    retryAfter?: number,
+    details: RecurrenteErrorDetails = {}
+  ) {
+    super(message, details);
+    this.name = 'RateLimitError';
+    this.retryAfter = retryAfter;
+  }
+}
+
+/**
+ * Thrown when the API fails with a server error (HTTP 5xx).
+ */
+export class ServerError extends RecurrenteError {
+  constructor(message: string, details: RecurrenteErrorDetails = {}) {
+    super(message, details);
+    this.name = 'ServerError';
+  }
+}
+
+/**
+ * Thrown when no response was received (DNS failure, refused or reset connection).
+ */
+export class NetworkError extends RecurrenteError {
+  /**
+   * The low-level error code (e.g., 'ECONNRESET'), if available.
+   */
+  readonly code?: string;
+
+  constructor(
+    message: string,
+    code?: string,
+    details: RecurrenteErrorDetails = {}
+  ) {
+    super(message, details);
+    this.name = 'NetworkError';
+    this.code = code;
+  }
+}
+
+/**
+ * Thrown when the request did not complete within the configured timeout.
+ */
+export class TimeoutError extends NetworkError {
+  constructor(
+    message: string,
+    code?: string,
+    details: RecurrenteErrorDetails = {}
+  ) {
+    super(message, code, details);
+    this.name = 'TimeoutError';
+  }
+}
+
+/**
+ * Thrown in strict decoding mode when a response or webhook payload does not
+ * match its expected shape (missing, mistyped or unknown fields).
+ */
+export class DecodingError extends RecurrenteError {
+  /**
+   * The name of the expected type (e.g., 'GetProductResponse').
+   */
+  readonly type: string;
+
+  /**
+   * The problems found, keyed by field path, each with its list of messages.
+   */
+  readonly issues: Record<string, string[]>;
+
+  constructor(
+    message: string,
+    type: string,
+    issues: Record<string, string[]> = {},
+    details: RecurrenteErrorDetails = {}
+  ) {
+    super(message, details);
+    this.name = 'DecodingError';
+    this.type = type;
+    this.issues = issues;
+  }
+}
+
+/**
+ * Parses the value of a `Retry-After` header into seconds.
+ *
+ * @param {unknown} value - The header value, either a number of seconds or an HTTP date.
+ * @returns {number | undefined} The number of seconds to wait, or undefined if it cannot be parsed.
+ */
+export function parseRetryAfter(value: unknown): number | undefined {
+  if (typeof value !== 'string' && typeof value !== 'number') {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds);
+  }
+
+  const date = Date.parse(String(value));
+  if (!isNaN(date)) {
+    return Math.max(0, (date - Date.now()) / 1000);
+  }
+
+  return undefined;
+}
+
+/**
+ * Checks whether an error was raised by Axios.
+ *
+ * Equivalent to `axios.isAxiosError`, without loading Axios at runtime, so the
+ * error classes can be used by the webhook helpers in any JavaScript runtime.
+ *
+ * @param {unknown} error - The error to check.
+ * @returns {boolean} Whether the error is an `AxiosError`.
+ */
+const isAxiosError = (error: unknown): error is AxiosError =>
+  typeof error === 'object' &&
+  error !== null &&
+  (error as AxiosError).isAxiosError === true;
+
+/**
+ * Centralized error handler for Axios requests.
+ *
+ * Converts any error raised while calling the API into the matching
+ * `RecurrenteError` subclass, based on the HTTP status code or the kind of
+ * network failure. Errors that already are a `RecurrenteError` are returned as is.
+ *
+ * @param {unknown} error - The error object caught during an API request.
+ * @returns {RecurrenteError} The error to throw to the caller.
+ */
+export function handleAxiosError(error: unknown): RecurrenteError {
+  if (error instanceof RecurrenteError) {
+    return error;
+  }
+
+  if (!isAxiosError(error)) {
+    return new RecurrenteError(
+      error instanceof Error ? error.message : 'An unknown error occurred',
+      {cause: error}
+    );
+  }
+
+  const details: RecurrenteErrorDetails = {
+    method: error.config?.method?.toUpperCase(),
+    path: error.config?.url,
+    cause: error,
+  };
+
+  if (!error.response) {
+    if (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT') {
+      return new TimeoutError(
+        error.message || 'The request timed out',
+        error.code,
+        details
+      );
+    }
+    return new NetworkError(
+      error.message || 'Unknown Axios error occurred',
+      error.code,
+      details
+    );
+  }
+
+  const {status, headers} = error.response;
+  const body = error.response.data as Partial<ErrorResponse> | undefined;
+  const message =
+    (body && typeof body === 'object' && body.message) ||
+    error.message ||
+    'An error occurred';
+
+  details.status = status;
+  details.body = error.response.data;
+  details.requestId = headers?.['x-request-id'] as string | undefined;
+
+  if (status === 401 || status === 403) {
+    return new AuthenticationError(message, details);
+  }
+  if (status === 400 || status === 422) {
+    const errors =
+      body && typeof body === 'object' && body.errors ? body.errors : {};
+    return new ValidationError(message, errors, details);
+  }
+  if (status === 404) {
+    return new NotFoundError(message, details);
+  }
+  if (status === 429) {
+    return new RateLimitError(
+      message,
+      parseRetryAfter(headers?.['retry-after']),
+      details
+    );
+  }
+  if (status >= 500) {
+    return new ServerError(message, details);
+  }
+  return new RecurrenteError(message, details);
+}
@@ -1,122 +1,209 @@
 import {Webhook} from 'svix';
 import {
-  PaymentIntentSucceeded,
-  PaymentIntentFailed,
-  SubscriptionCreate,
-  SubscriptionPastDue,
-  SubscriptionPaused,
-  SubscriptionCancel,
-  RecurrenteWebhookEvent,
+  WebhookEvent,
+  WebhookEventType,
+  WebhookEventForPattern,
+  WebhookHandler,
+  WebhookDispatchResult,
+  WebhookDelivery,
+  UnhandledWebhookEventPolicy,
+  Logger,
+  DecodingOptions,
+  WebhookVerificationOptions,
 } from '../types/globals';
 import {toCamelCase} from '../utils/conversion';
-import dotenv from 'dotenv';
-
-// Load environment variables from .env file if they are not already set
-dotenv.config();
+import {decodeWebhookEvent, webhookEventDecoderOf} from '../utils/decoders';
+import {WebhookRouter} from './webhook-router';
+import {
+  MissingWebhookHeadersError,
+  WebhookTimestampError,
+  InvalidWebhookSignatureError,
+} from './webhook-errors';
+import {DecodingError} from './errors';
 
 /**
- * A handler function type definition.
- * @template T The type of the webhook event.
+ * The router used by `registerWebhookHandler` and `handleWebhookEvent`.
+ * No handler is registered by default.
  */
-type WebhookHandler<T> = (event: T) => void;
+const defaultRouter = new WebhookRouter();
 
 /**
- * A bivariant version of the WebhookHandler to relax variance constraints.
- * This allows assigning a handler with a specific event type to the handlers map.
- * @template T The type of the webhook event.
+ * The default tolerance between the delivery timestamp and the current time.
  */
-type BivariantWebhookHandler<T> =
-  | {
-      (event: T): void;
-    }
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  | ((event: any) => void);
+const DEFAULT_TOLERANCE = 5 * 60 * 1000;
 
 /**
- * Mapping of event types to corresponding event interfaces.
+ * Reads the first value of a header, under its Svix or Standard Webhooks name.
+ *
+ * @param {Record<string, string | string[] | undefined>} headers - The request headers.
+ * @param {string} name - The header name without prefix (e.g., 'id').
+ * @returns {string | undefined} The header value, if present and not empty.
  */
-interface EventTypeMapping {
-  'payment_intent.succeeded': PaymentIntentSucceeded;
-  'payment_intent.failed': PaymentIntentFailed;
-  'subscription.create': SubscriptionCreate;
-  'subscription.past_due': SubscriptionPastDue;
-  'subscription.paused': SubscriptionPaused;
-  'subscription.cancel': SubscriptionCancel;
-}
+const headerOf = (
+  headers: Record<string, string | string[] | undefined>,
+  name: string
+): string | undefined => {
+  const value = headers[`svix-${name}`] ?? headers[`webhook-${name}`];
+  return (Array.isArray(value) ? value[0] : value) || undefined;
+};
 
 /**
- * A record to store the user-registered webhook handlers.
- * Each event type is mapped to its corresponding handler function.
+ * Compares two strings in constant time, so the comparison does not reveal
+ * how many leading characters of a signature are correct.
+ *
+ * @param {string} a - The first string.
+ * @param {string} b - The second string.
+ * @returns {boolean} Whether both strings are equal.
  */
-const userHandlers: Partial<{
-  [K in keyof EventTypeMapping]: BivariantWebhookHandler<EventTypeMapping[K]>;
-}> = {
-  'payment_intent.succeeded': (event: PaymentIntentSucceeded) => {
-    console.log('Default PaymentIntentSucceeded Handler:', event);
-  },
-  'payment_intent.failed': (event: PaymentIntentFailed) => {
-    console.log('Default PaymentIntentFailed Handler:', event);
-  },
-  'subscription.create': (event: SubscriptionCreate) => {
-    console.log('Default SubscriptionCreate Handler:', event);
-  },
-  'subscription.past_due': (event: SubscriptionPastDue) => {
-    console.log('Default SubscriptionPastDue Handler:', event);
-  },
-  'subscription.paused': (event: SubscriptionPaused) => {
-    console.log('Default SubscriptionPaused Handler:', event);
-  },
-  'subscription.cancel': (event: SubscriptionCancel) => {
-    console.log('Default SubscriptionCancel Handler:', event);
-  },
+const safeEqual = (a: string, b: string): boolean => {
+  if (a.length !== b.length) {
+    return false;
+  }
+  let difference = 0;
+  for (let i = 0; i < a.length; i++) {
+    difference |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return difference === 0;
 };
 
 /**
  * Verifies the Svix webhook signature and parses the event.
  *
+ * The parsed event is decoded against the type of its `eventType`: in lenient
+ * mode (the default) mismatches are logged as a warning, in strict mode they throw.
+ *
+ * Unless a `secret` is given, the signing secret is read from the
+ * `RECURRENTE_SVIX_SIGNING_SECRET` environment variable, which is not loaded
+ * from a `.env` file automatically.
+ *
  * @param payload - The raw request body as a string.
- * @param headers - The request headers.
+ * @param headers - The request headers, with lower-case names.
+ * @param options - The signing secrets, timestamp tolerance, opaque paths, decoding mode and logger.
  * @returns The verified and parsed event.
- * @throws {Error} If the signature verification fails.
+ * @throws {Error} If the signing secret is missing or malformed.
+ * @throws {MissingWebhookHeadersError} If a Svix or Standard Webhooks header is missing.
+ * @throws {WebhookTimestampError} If the timestamp is invalid or outside the tolerance window.
+ * @throws {InvalidWebhookSignatureError} If no signature matches the signing secrets.
+ * @throws {DecodingError} If the payload is not JSON, or in strict mode, if the event does not match its type.
+ *
+ * @example
+ * const event = verifySvixSignature(payload, headers, {
+ *   secret: [process.env.NEW_SECRET, process.env.OLD_SECRET],
+ *   tolerance: 10 * 60 * 1000,
+ * });
  */
 function verifySvixSignature(
   payload: string,
-  headers: Record<string, string | string[] | undefined>
-): RecurrenteWebhookEvent {
-  const signingSecret = process.env.RECURRENTE_SVIX_SIGNING_SECRET;
+  headers: Record<string, string | string[] | undefined>,
+  options: WebhookVerificationOptions & DecodingOptions = {}
+): WebhookEvent {
+  const {
+    secret,
+    tolerance = DEFAULT_TOLERANCE,
+    opaquePaths,
+    ...decoding
+  } = options;
 
-  if (!signingSecret) {
+  // `process` is not defined in every runtime (e.g., Cloudflare Workers)
+  const secrets = ([] as (string | undefined)[])
+    .concat(
+      secret ??
+        (typeof process !== 'undefined'
+          ? process.env.RECURRENTE_SVIX_SIGNING_SECRET
+          : undefined)
+    )
+    .filter((value): value is string => !!value);
+
+  if (secrets.length === 0) {
     throw new Error('Missing signing secret');
   }
 
-  const svixHeaders = {
-    'svix-id': headers['svix-id'] as string,
-    'svix-timestamp': headers['svix-timestamp'] as string,
-    'svix-signature': headers['svix-signature'] as string,
-  };
+  const id = headerOf(headers, 'id');
+  const timestamp = headerOf(headers, 'timestamp');
+  const signature = headerOf(headers, 'signature');
 
-  const svix = new Webhook(signingSecret);
+  if (!id || !timestamp || !signature) {
+    const values: Record<string, string | undefined> = {
+      id,
+      timestamp,
+      signature,
+    };
+    // Name the headers of the family the delivery used, or of both if unclear
+    const used = ['svix', 'webhook'].filter(prefix =>
+      Object.keys(values).some(name => headers[`${prefix}-${name}`])
+    );
+    const missing = (used.length === 1 ? used : ['svix', 'webhook'])
+      .map(prefix =>
+        Object.keys(values)
+          .filter(name => !values[name])
+          .map(name => `${prefix}-${name}`)
+      )
+      .reduce((all, names) => all.concat(names), []);
 
-  try {
-    // Verify the signature and parse the event
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const event = svix.verify(payload, svixHeaders) as Record<string, any>;
+    throw new MissingWebhookHeadersError(
+      `Missing webhook headers: ${missing.join(', ')}`,
+      missing
+    );
+  }
+
+  const seconds = Number(timestamp);
+
+  if (!/^\d+$/.test(timestamp)) {
+    throw new WebhookTimestampError('Invalid webhook timestamp', seconds);
+  }
+  if (Math.abs(Date.now() - seconds * 1000) > tolerance) {
+    throw new WebhookTimestampError(
+      'Webhook timestamp outside the tolerance window',
+      seconds
+    );
+  }
 
-    // Convert snake_case keys to camelCase
-    const camelCasedEvent = toCamelCase(event);
+  const signed = new Date(seconds * 1000);
+  const expected = secrets.map(
+    value => new Webhook(value).sign(id, signed, payload).split(',')[1]
+  );
+  const received = signature
+    .split(' ')
+    .filter(versioned => versioned.startsWith('v1,'))
+    .map(versioned => versioned.slice(3));
 
-    return camelCasedEvent as RecurrenteWebhookEvent;
-  } catch (error) {
-    throw new Error('Invalid webhook signature');
+  if (!received.some(value => expected.some(key => safeEqual(value, key)))) {
+    throw new InvalidWebhookSignatureError('Invalid webhook signature');
+  }
+
+  let event: unknown;
+
+  try {
+    event = JSON.parse(payload);
+  } catch (error: unknown) {
+    throw new DecodingError(
+      'Webhook payload is not valid JSON',
+      'WebhookEvent',
+      {},
+      {cause: error}
+    );
   }
+
+  // Convert snake_case keys to camelCase, except in the opaque values
+  const eventType = (event as {event_type?: unknown} | null)?.event_type;
+  const camelCaseEvent = toCamelCase(event, {
+    type: webhookEventDecoderOf(eventType).name,
+    opaquePaths,
+  });
+
+  return decodeWebhookEvent(camelCaseEvent, decoding);
 }
 
 /**
- * Registers a custom webhook handler for a specific event type.
+ * Registers a custom webhook handler for a specific event type, replacing any
+ * handler previously registered for it with this function.
+ *
+ * Use a `WebhookRouter` instead to register several handlers per event or
+ * wildcard handlers.
  *
  * @template T The type of the webhook event.
- * @param {keyof EventTypeMapping} eventType - The type of the event (e.g., 'payment_intent.succeeded').
- * @param {WebhookHandler<EventTypeMapping[T]>} handler - The custom handler function to register for this event type.
+ * @param {T} eventType - The type of the event (e.g., 'payment_intent.succeeded').
+ * @param {WebhookHandler<WebhookEventForPattern<T>>} handler - The custom handler function to register for this event type.
  *
  * @example
  * registerWebhookHandler('payment_intent.succeeded', (event) => {
@@ -124,32 +211,36 @@ function verifySvixSignature(
  *   // Custom logic for a successful payment
  * });
  */
-function registerWebhookHandler<T extends keyof EventTypeMapping>(
+function registerWebhookHandler<T extends WebhookEventType>(
   eventType: T,
-  handler: WebhookHandler<EventTypeMapping[T]>
+  handler: WebhookHandler<WebhookEventForPattern<T>>
 ): void {
-  userHandlers[eventType] = handler;
+  defaultRouter.off(eventType).on(eventType, handler);
 }
 
 /**
- * Handles a verified webhook event by dispatching it to the appropriate registered or default handler.
+ * Handles a verified webhook event by dispatching it to the handler registered for its type.
+ *
+ * Events without a registered handler, including event types unknown to the
+ * library, follow the `unhandled` policy: by default a warning with the event
+ * type and ID is logged and the event is otherwise ignored.
  *
  * **Important Note:** Before calling this function, you must verify the webhook signature using `verifySvixSignature`
  * to ensure the event is authentic and has not been tampered with.
  *
- * @param {RecurrenteWebhookEvent} event - The verified webhook event object sent by Recurrente.
+ * @param {WebhookEvent} event - The verified webhook event object sent by Recurrente.
+ * @param {{unhandled?: UnhandledWebhookEventPolicy, logger?: Logger}} [options] - What to do with unhandled events, and where to log them.
+ * @param {WebhookDelivery} [delivery] - The delivery that carried the event, passed on to the handler.
+ * @returns {Promise<WebhookDispatchResult>} Whether the handler succeeded.
  *
  * @example
- * app.post('/webhook', (req, res) => {
+ * app.post('/webhook', express.raw({type: 'application/json'}), async (req, res) => {
  *   try {
- *     const payload = req.body;
- *     const headers = req.headers;
- *
- *     // Verify the signature and obtain the event
- *     const event = verifySvixSignature(payload, headers);
+ *     // Verify the signature of the raw body and obtain the event
+ *     const event = verifySvixSignature(req.body.toString(), req.headers);
  *
  *     // Handle the verified event
- *     handleWebhookEvent(event);
+ *     await handleWebhookEvent(event);
  *
  *     res.status(200).send('Webhook processed');
  *   } catch (error) {
@@ -158,16 +249,19 @@ function registerWebhookHandler<T extends keyof EventTypeMapping>(
  *   }
  * });
  *
- * @throws {Error} If no handler is found for the event type.
+ * @throws {UnhandledWebhookEventError} With the `'throw'` policy, if no handler is registered for the event type.
  */
-function handleWebhookEvent(event: RecurrenteWebhookEvent): void {
-  const handler = userHandlers[event.eventType as keyof EventTypeMapping];
-
-  if (handler) {
-    handler(event);
-  } else {
-    throw new Error(`No handler registered for event type: ${event.eventType}`);
-  }
+function handleWebhookEvent(
+  event: WebhookEvent,
+  options: {unhandled?: UnhandledWebhookEventPolicy; logger?: Logger} = {},
+  delivery?: WebhookDelivery
+): Promise<WebhookDispatchResult> {
+  return defaultRouter.dispatch(event, options, delivery);
 }
 
-export {handleWebhookEvent, verifySvixSignature, registerWebhookHandler};
+export {
+  handleWebhookEvent,
+  verifySvixSignature,
+  registerWebhookHandler,
+  headerOf,
+};
@@ -1,17 +1,44 @@
-import axios from 'axios';
-import client from '../config/axiosInstance';
+import {AxiosInstance} from 'axios';
 import {
   ProductSubscription,
   CreateSubscriptionResponse,
-  ErrorResponse,
   SubscriptionStatusResponse,
   CreateProductRequest,
   CreateProductResponse,
   GetProductResponse,
   GetAllProductsResponse,
   UpdateProductRequest,
+  RequestOptions,
+  PaginationOptions,
+  PauseSubscriptionRequest,
+  ChangeSubscriptionPriceRequest,
+  ProrationPreview,
+  ListSubscriptionsFilters,
+  GetAllSubscriptionsResponse,
 } from '../types/globals';
-import {toSnakeCase, toCamelCase} from '../utils/conversion';
+import {toSnakeCase} from '../utils/conversion';
+import {handleAxiosError} from './errors';
+import {
+  validateRequest,
+  validateId,
+  createProductRequestSchema,
+  updateProductRequestSchema,
+  productSubscriptionSchema,
+  pauseSubscriptionRequestSchema,
+  changeSubscriptionPriceRequestSchema,
+} from '../utils/validation';
+import {toRequestConfig} from '../config/idempotency';
+import {decodeResponse} from '../config/decoding';
+import {
+  createProductResponseDecoder,
+  getProductResponseDecoder,
+  getAllProductsResponseDecoder,
+  createSubscriptionResponseDecoder,
+  subscriptionStatusResponseDecoder,
+  getAllSubscriptionsResponseDecoder,
+  prorationPreviewDecoder,
+} from '../utils/decoders';
+import {PaginatedList} from '../utils/pagination';
 
 /**
  * Creates a new product with a one-time payment.
@@ -20,22 +47,32 @@ import {toSnakeCase, toCamelCase} from '../utils/conversion';
  * and sends it to the API to create a new one-time payment product.
  * It returns the created product's details.
  *
+ * @param {AxiosInstance} client - The Axios instance used to send the request.
  * @param {CreateProductRequest} productData - The product details for the one-time payment.
+ * @param {RequestOptions} [options] - Optional request options, such as an idempotency key.
  * @returns {Promise<CreateProductResponse>} The response containing product details.
- * @throws {ErrorResponse} Throws an error if the product creation fails.
+ * @throws {ValidationError} If the payload is invalid, before any request is sent.
+ * @throws {RecurrenteError} Throws an error if the product creation fails.
  */
 const createProduct = async (
-  productData: CreateProductRequest
+  client: AxiosInstance,
+  productData: CreateProductRequest,
+  options?: RequestOptions
 ): Promise<CreateProductResponse> => {
+  validateRequest(createProductRequestSchema, productData);
+
   try {
-    const productDataInSnakeCase = toSnakeCase(productData);
+    const productDataInSnakeCase = toSnakeCase(productData, {
+      type: 'CreateProductRequest',
+    });
 
     const response = await client.post<CreateProductResponse>(
       '/products/',
-      productDataInSnakeCase
+      productDataInSnakeCase,
+      toRequestConfig(options)
     );
 
-    return toCamelCase(response.data); // Return the created product's details
+    return decodeResponse(client, createProductResponseDecoder, response); // Return the created product's details
   } catch (error: unknown) {
     // Handle errors via the centralized error handler
     throw handleAxiosError(error);
@@ -48,16 +85,22 @@ const createProduct = async (
  * This function fetches details of an existing product by making a GET request
  * to the API using the provided product ID. It returns the product's details.
  *
+ * @param {AxiosInstance} client - The Axios instance used to send the request.
  * @param {string} productId - The ID of the product to retrieve.
  * @returns {Promise<GetProductResponse>} The response containing the product details.
- * @throws {ErrorResponse} Throws an error if the product retrieval fails.
+ * @throws {RecurrenteError} Throws an error if the product retrieval fails.
  */
-const getProduct = async (productId: string): Promise<GetProductResponse> => {
+const getProduct = async (
+  client: AxiosInstance,
+  productId: string
+): Promise<GetProductResponse> => {
+  validateId('productId', productId);
+
   try {
     const response = await client.get<GetProductResponse>(
       `/products/${productId}`
     );
-    return toCamelCase(response.data);
+    return decodeResponse(client, getProductResponseDecoder, response);
   } catch (error: unknown) {
     throw handleAxiosError(error); // Handle errors via the centralized error handler
   }
@@ -70,21 +113,41 @@ const getProduct = async (productId: string): Promise<GetProductResponse> => {
  * By default, it retrieves the 10 most recent products, but pagination
  * can be controlled using query parameters.
  *
+ * @param {AxiosInstance} client - The Axios instance used to send the request.
  * @param {number} [page=1] - The page number to retrieve, defaults to the first page.
  * @returns {Promise<GetAllProductsResponse>} The response containing an array of product details.
- * @throws {ErrorResponse} Throws an error if the product retrieval fails.
+ * @throws {RecurrenteError} Throws an error if the product retrieval fails.
  */
-const getAllProducts = async (page = 1): Promise<GetAllProductsResponse> => {
+const getAllProducts = async (
+  client: AxiosInstance,
+  page = 1
+): Promise<GetAllProductsResponse> => {
   try {
     const response = await client.get<GetAllProductsResponse>(
       `/products?page=${page}`
     );
-    return toCamelCase(response.data);
+    return decodeResponse(client, getAllProductsResponseDecoder, response);
   } catch (error: unknown) {
     throw handleAxiosError(error); // Handle errors via the centralized error handler
   }
 };
 
+/**
+ * Lists every product, walking all pages transparently.
+ *
+ * This function returns a lazy async iterable: pages are fetched with
+ * `getAllProducts` only as the items are consumed.
+ *
+ * @param {AxiosInstance} client - The Axios instance used to send the request.
+ * @param {PaginationOptions<GetProductResponse>} [options] - The first page and an optional per-page callback.
+ * @returns {PaginatedList<GetProductResponse>} An async iterable over all products.
+ */
+const listProducts = (
+  client: AxiosInstance,
+  options?: PaginationOptions<GetProductResponse>
+): PaginatedList<GetProductResponse> =>
+  new PaginatedList(page => getAllProducts(client, page), options);
+
 /**
  * Updates an existing product by its ID.
  *
@@ -92,24 +155,35 @@ const getAllProducts = async (page = 1): Promise<GetAllProductsResponse> => {
  * It sends a PATCH request to the API to update the specified product. You can also
  * modify product prices or delete them by passing the _destroy parameter in prices_attributes.
  *
+ * @param {AxiosInstance} client - The Axios instance used to send the request.
  * @param {string} productId - The ID of the product to update.
  * @param {UpdateProductRequest} productData - The updated product details.
+ * @param {RequestOptions} [options] - Optional request options, such as an idempotency key.
  * @returns {Promise<GetProductResponse>} A promise that resolves with the updated product's details.
- * @throws {ErrorResponse} Throws an error if the product update fails.
+ * @throws {ValidationError} If the payload is invalid, before any request is sent.
+ * @throws {RecurrenteError} Throws an error if the product update fails.
  */
 const updateProduct = async (
+  client: AxiosInstance,
   productId: string,
-  productData: UpdateProductRequest
+  productData: UpdateProductRequest,
+  options?: RequestOptions
 ): Promise<GetProductResponse> => {
+  validateId('productId', productId);
+  validateRequest(updateProductRequestSchema, productData);
+
   try {
-    const productDataInSnakeCase = toSnakeCase(productData);
+    const productDataInSnakeCase = toSnakeCase(productData, {
+      type: 'UpdateProductRequest',
+    });
 
     const response = await client.patch<GetProductResponse>(
       `/products/${productId}`,
-      productDataInSnakeCase
+      productDataInSnakeCase,
+      toRequestConfig(options)
     );
 
-    return toCamelCase(response.data); // Return the updated product's details
+    return decodeResponse(client, getProductResponseDecoder, response); // Return the updated product's details
   } catch (error: unknown) {
     throw handleAxiosError(error); // Handle errors via the centralized error handler
   }
@@ -122,22 +196,32 @@ const updateProduct = async (
  * and sends it to the API to create a new subscription. It returns the created
  * subscription's details.
  *
+ * @param {AxiosInstance} client - The Axios instance used to send the request.
  * @param {ProductSubscription} productData - The subscription details for the product.
+ * @param {RequestOptions} [options] - Optional request options, such as an idempotency key.
  * @returns {Promise<CreateSubscriptionResponse>} The response containing subscription details.
- * @throws {ErrorResponse} Throws an error if the subscription creation fails.
+ * @throws {ValidationError} If the payload is invalid, before any request is sent.
+ * @throws {RecurrenteError} Throws an error if the subscription creation fails.
  */
 const createSubscription = async (
-  productData: ProductSubscription
+  client: AxiosInstance,
+  productData: ProductSubscription,
+  options?: RequestOptions
 ): Promise<CreateSubscriptionResponse> => {
+  validateRequest(productSubscriptionSchema, productData);
+
   try {
-    const productDataInSnakeCase = toSnakeCase(productData);
+    const productDataInSnakeCase = toSnakeCase(productData, {
+      type: 'ProductSubscription',
+    });
 
     const response = await client.post<CreateSubscriptionResponse>(
       '/products/',
-      productDataInSnakeCase
+      productDataInSnakeCase,
+      toRequestConfig(options)
     );
 
-    return toCamelCase(response.data); // Return the success response only
+    return decodeResponse(client, createSubscriptionResponseDecoder, response); // Return the success response only
   } catch (error: unknown) {
     // Throw an error to handle it in a higher-level function or component
     throw handleAxiosError(error);
@@ -150,15 +234,24 @@ const createSubscription = async (
  * This function sends a request to cancel the subscription specified by the
  * subscription ID. It returns a message indicating the success of the operation.
  *
+ * @param {AxiosInstance} client - The Axios instance used to send the request.
  * @param {string} subscriptionId - The ID of the subscription to cancel.
+ * @param {RequestOptions} [options] - Optional request options, such as an idempotency key.
  * @returns {Promise<{message: string}>} A message indicating whether the subscription was canceled successfully.
- * @throws {ErrorResponse} Throws an error if the cancellation fails.
+ * @throws {RecurrenteError} Throws an error if the cancellation fails.
  */
 const cancelSubscription = async (
-  subscriptionId: string
+  client: AxiosInstance,
+  subscriptionId: string,
+  options?: RequestOptions
 ): Promise<{message: string}> => {
+  validateId('subscriptionId', subscriptionId);
+
   try {
-    const response = await client.delete(`/subscriptions/${subscriptionId}`);
+    const response = await client.delete(
+      `/subscriptions/${subscriptionId}`,
+      toRequestConfig(options)
+    );
     return {
       message: `Subscription canceled successfully. Status: ${response.status}`,
     };
@@ -173,13 +266,21 @@ const cancelSubscription = async (
  * This function deletes a product from the system using the product ID. It
  * returns a message indicating whether the product was deleted successfully.
  *
+ * @param {AxiosInstance} client - The Axios instance used to send the request.
  * @param {string} productId - The ID of the product to delete.
+ * @param {RequestOptions} [options] - Optional request options, such as an idempotency key.
  * @returns {Promise<{message: string}>} A message indicating whether the product was deleted successfully.
- * @throws {ErrorResponse} Throws an error if the deletion fails.
+ * @throws {RecurrenteError} Throws an error if the deletion fails.
  */
-const deleteProduct = async (productId: string): Promise<{message: string}> => {
+const deleteProduct = async (
+  client: AxiosInstance,
+  productId: string,
+  options?: RequestOptions
+): Promise<{message: string}> => {
+  validateId('productId', productId);
+
   try {
-    await client.delete(`/products/${productId}`);
+    await client.delete(`/products/${productId}`, toRequestConfig(options));
 
     return {message: 'Product deleted successfully'};
   } catch (error: unknown) {
@@ -193,64 +294,260 @@ const deleteProduct = async (productId: string): Promise<{message: string}> => {
  * This function fetches details of an existing subscription by making a GET request
  * using the subscription ID.
  *
+ * @param {AxiosInstance} client - The Axios instance used to send the request.
  * @param {string} subscriptionId - The ID of the subscription to retrieve.
  * @returns {Promise<SubscriptionStatusResponse>} The details of the subscription.
- * @throws {ErrorResponse} Throws an error if the retrieval fails.
+ * @throws {RecurrenteError} Throws an error if the retrieval fails.
  */
 const getSubscription = async (
+  client: AxiosInstance,
   subscriptionId: string
 ): Promise<SubscriptionStatusResponse> => {
+  validateId('subscriptionId', subscriptionId);
+
   try {
     const response = await client.get<SubscriptionStatusResponse>(
       `/subscriptions/${subscriptionId}`
     );
 
-    return toCamelCase(response.data);
+    return decodeResponse(client, subscriptionStatusResponseDecoder, response);
   } catch (error: unknown) {
     throw handleAxiosError(error);
   }
 };
 
 /**
- * Centralized error handler for Axios requests.
+ * Retrieves a single page of subscriptions matching the given filters.
  *
- * This function checks if the error is from Axios and extracts meaningful
- * information from the response or throws a general error message if the error
- * is not from Axios.
+ * Dates are sent as ISO strings and every filter key is converted to snake_case.
  *
- * @param {unknown} error - The error object caught during an API request.
- * @returns {ErrorResponse} An object containing error details such as status and message.
+ * @param {AxiosInstance} client - The Axios instance used to send the request.
+ * @param {ListSubscriptionsFilters} [filters] - Status, product, subscriber and date filters.
+ * @param {number} [page=1] - The page number to retrieve, defaults to the first page.
+ * @returns {Promise<GetAllSubscriptionsResponse>} The subscriptions of the requested page.
+ * @throws {RecurrenteError} Throws an error if the retrieval fails.
  */
-function handleAxiosError(error: unknown): ErrorResponse {
-  if (axios.isAxiosError(error)) {
-    if (error.response && error.response.data) {
-      return {
-        status: 'error',
-        message: error.response.data.message || 'An error occurred',
-        errors: error.response.data.errors || {},
-      };
+const getAllSubscriptions = async (
+  client: AxiosInstance,
+  filters: ListSubscriptionsFilters = {},
+  page = 1
+): Promise<GetAllSubscriptionsResponse> => {
+  try {
+    const params: Record<string, unknown> = {page};
+
+    for (const [key, value] of Object.entries(filters)) {
+      if (value !== undefined && value !== null) {
+        params[key] = value instanceof Date ? value.toISOString() : value;
+      }
     }
-    return {
-      status: 'error',
-      message: error.message || 'Unknown Axios error occurred',
-    };
-  } else {
-    return {
-      status: 'error',
-      message: 'An unknown error occurred',
-    };
+
+    const response = await client.get<GetAllSubscriptionsResponse>(
+      '/subscriptions',
+      {params: toSnakeCase(params)}
+    );
+
+    return decodeResponse(client, getAllSubscriptionsResponseDecoder, response);
+  } catch (error: unknown) {
+    throw handleAxiosError(error);
   }
-}
+};
+
+/**
+ * Lists every subscription matching the given filters, walking all pages transparently.
+ *
+ * @example
+ * // Who is past due on product X?
+ * const pastDue = await listSubscriptions(client, {
+ *   status: 'past_due',
+ *   productId: 'prod_123',
+ * }).toArray();
+ *
+ * @param {AxiosInstance} client - The Axios instance used to send the request.
+ * @param {ListSubscriptionsFilters} [filters] - Status, product, subscriber and date filters.
+ * @param {PaginationOptions<SubscriptionStatusResponse>} [options] - The first page and an optional per-page callback.
+ * @returns {PaginatedList<SubscriptionStatusResponse>} An async iterable over the matching subscriptions.
+ */
+const listSubscriptions = (
+  client: AxiosInstance,
+  filters?: ListSubscriptionsFilters,
+  options?: PaginationOptions<SubscriptionStatusResponse>
+): PaginatedList<SubscriptionStatusResponse> =>
+  new PaginatedList(
+    page => getAllSubscriptions(client, filters, page),
+    options
+  );
+
+/**
+ * Pauses billing of an active subscription.
+ *
+ * The subscription stays paused until `resumeSubscription` is called, or until
+ * `resumesAt` when a resume date is given.
+ *
+ * @param {AxiosInstance} client - The Axios instance used to send the request.
+ * @param {string} subscriptionId - The ID of the subscription to pause.
+ * @param {PauseSubscriptionRequest} [pauseData] - Optional automatic resume date.
+ * @param {RequestOptions} [options] - Optional request options, such as an idempotency key.
+ * @returns {Promise<SubscriptionStatusResponse>} The details of the paused subscription.
+ * @throws {ValidationError} If the payload is invalid, before any request is sent.
+ * @throws {RecurrenteError} Throws an error if the subscription cannot be paused.
+ */
+const pauseSubscription = async (
+  client: AxiosInstance,
+  subscriptionId: string,
+  pauseData: PauseSubscriptionRequest = {},
+  options?: RequestOptions
+): Promise<SubscriptionStatusResponse> => {
+  validateId('subscriptionId', subscriptionId);
+  validateRequest(pauseSubscriptionRequestSchema, pauseData);
+
+  try {
+    const response = await client.post<SubscriptionStatusResponse>(
+      `/subscriptions/${subscriptionId}/pause`,
+      toSnakeCase(pauseData),
+      toRequestConfig(options)
+    );
+
+    return decodeResponse(client, subscriptionStatusResponseDecoder, response);
+  } catch (error: unknown) {
+    throw handleAxiosError(error);
+  }
+};
+
+/**
+ * Resumes billing of a paused subscription.
+ *
+ * @param {AxiosInstance} client - The Axios instance used to send the request.
+ * @param {string} subscriptionId - The ID of the subscription to resume.
+ * @param {RequestOptions} [options] - Optional request options, such as an idempotency key.
+ * @returns {Promise<SubscriptionStatusResponse>} The details of the resumed subscription.
+ * @throws {RecurrenteError} Throws an error if the subscription cannot be resumed.
+ */
+const resumeSubscription = async (
+  client: AxiosInstance,
+  subscriptionId: string,
+  options?: RequestOptions
+): Promise<SubscriptionStatusResponse> => {
+  validateId('subscriptionId', subscriptionId);
+
+  try {
+    const response = await client.post<SubscriptionStatusResponse>(
+      `/subscriptions/${subscriptionId}/resume`,
+      undefined,
+      toRequestConfig(options)
+    );
+
+    return decodeResponse(client, subscriptionStatusResponseDecoder, response);
+  } catch (error: unknown) {
+    throw handleAxiosError(error);
+  }
+};
+
+/**
+ * Schedules a subscription to be canceled at the end of its current billing period.
+ *
+ * Unlike `cancelSubscription`, the customer keeps access until `currentPeriodEnd`.
+ *
+ * @param {AxiosInstance} client - The Axios instance used to send the request.
+ * @param {string} subscriptionId - The ID of the subscription to cancel.
+ * @param {RequestOptions} [options] - Optional request options, such as an idempotency key.
+ * @returns {Promise<SubscriptionStatusResponse>} The details of the subscription, with `cancelAtPeriodEnd` set.
+ * @throws {RecurrenteError} Throws an error if the cancellation cannot be scheduled.
+ */
+const cancelAtPeriodEnd = async (
+  client: AxiosInstance,
+  subscriptionId: string,
+  options?: RequestOptions
+): Promise<SubscriptionStatusResponse> => {
+  validateId('subscriptionId', subscriptionId);
+
+  try {
+    const response = await client.patch<SubscriptionStatusResponse>(
+      `/subscriptions/${subscriptionId}`,
+      toSnakeCase({cancelAtPeriodEnd: true}),
+      toRequestConfig(options)
+    );
+
+    return decodeResponse(client, subscriptionStatusResponseDecoder, response);
+  } catch (error: unknown) {
+    throw handleAxiosError(error);
+  }
+};
+
+/**
+ * Previews the cost of moving a subscription to another price, without applying it.
+ *
+ * @param {AxiosInstance} client - The Axios instance used to send the request.
+ * @param {string} subscriptionId - The ID of the subscription to change.
+ * @param {ChangeSubscriptionPriceRequest} changeData - The new price and proration behavior.
+ * @returns {Promise<ProrationPreview>} The prorated amount and the next invoice amount.
+ * @throws {ValidationError} If the payload is invalid, before any request is sent.
+ * @throws {RecurrenteError} Throws an error if the preview fails.
+ */
+const previewSubscriptionPriceChange = async (
+  client: AxiosInstance,
+  subscriptionId: string,
+  changeData: ChangeSubscriptionPriceRequest
+): Promise<ProrationPreview> => {
+  validateId('subscriptionId', subscriptionId);
+  validateRequest(changeSubscriptionPriceRequestSchema, changeData);
+
+  try {
+    const response = await client.get<ProrationPreview>(
+      `/subscriptions/${subscriptionId}/proration_preview`,
+      {params: toSnakeCase(changeData)}
+    );
+
+    return decodeResponse(client, prorationPreviewDecoder, response);
+  } catch (error: unknown) {
+    throw handleAxiosError(error);
+  }
+};
+
+/**
+ * Moves a subscription to another price.
+ *
+ * Use `previewSubscriptionPriceChange` first to show the customer the prorated amount.
+ *
+ * @param {AxiosInstance} client - The Axios instance used to send the request.
+ * @param {string} subscriptionId - The ID of the subscription to change.
+ * @param {ChangeSubscriptionPriceRequest} changeData - The new price and proration behavior.
+ * @param {RequestOptions} [options] - Optional request options, such as an idempotency key.
+ * @returns {Promise<SubscriptionStatusResponse>} The details of the updated subscription.
+ * @throws {ValidationError} If the payload is invalid, before any request is sent.
+ * @throws {RecurrenteError} Throws an error if the price change fails.
+ */
+const changeSubscriptionPrice = async (
+  client: AxiosInstance,
+  subscriptionId: string,
+  changeData: ChangeSubscriptionPriceRequest,
+  options?: RequestOptions
+): Promise<SubscriptionStatusResponse> => {
+  validateId('subscriptionId', subscriptionId);
+  validateRequest(changeSubscriptionPriceRequestSchema, changeData);
+
+  try {
+    const response = await client.patch<SubscriptionStatusResponse>(
+      `/subscriptions/${subscriptionId}`,
+      toSnakeCase(changeData),
+      toRequestConfig(options)
+    );
+
+    return decodeResponse(client, subscriptionStatusResponseDecoder, response);
+  } catch (error: unknown) {
+    throw handleAxiosError(error);
+  }
+};
 
 /**
  * Makes a GET request to the '/test' endpoint.
  *
- * This function is not exported and is intended for internal use.
+ * This function is intended for internal use and development only.
  *
+ * @param {AxiosInstance} client - The Axios instance used to send the request.
  * @returns {Promise<{message: string}>} A message indicating success or failure of the request.
- * @throws {ErrorResponse} Throws an error if the request fails.
+ * @throws {RecurrenteError} Throws an error if the request fails.
  */
-const test = async (): Promise<{message: string}> => {
+const test = async (client: AxiosInstance): Promise<{message: string}> => {
   try {
     const response = await client.get<Record<string, string>>('/test');
     return {
@@ -261,135 +558,22 @@ const test = async (): Promise<{message: string}> => {
   }
 };
 
-/**
- * Recurrente API utility for managing product subscriptions, cancellations, and product deletions.
- *
- * The `recurrente` object provides methods to create, cancel, retrieve, and delete subscriptions and products,
- * making it easy to integrate Recurrente's payment services into your project.
- *
- * @namespace recurrente
- * @property {Function} test - Test endpoint.
- * @property {Function} createProduct - Creates a new product with a one-time payment.
- * @property {Function} getProduct - Retrieves details of a specific product by its ID.
- * @property {Function} getAllProducts - Retrieves a paginated list of all products.
- * @property {Function} updateProduct - Updates an existing product by its ID.
- * @property {Function} deleteProduct - Deletes a product by its ID.
- * @property {Function} createSubscription - Creates a new subscription for a product.
- * @property {Function} cancelSubscription - Cancels an existing subscription by its ID.
- * @property {Function} getSubscription - Retrieves details of a specific subscription by its ID.
- */
-const recurrente = {
-  /**
-   * Makes a GET request to the '/test' endpoint.
-   *
-   * **FOR DEVELOPMENT PURPOSES ONLY TO TEST**
-   *
-   * This method is included for testing internal API functionality.
-   *
-   * @function
-   * @memberof recurrente
-   * @returns {Promise<{message: string}>} A message indicating the success or failure of the request.
-   * @throws {ErrorResponse} Throws an error if the request fails.
-   */
+export {
   test,
-  /**
-   * Creates a new product with a one-time payment.
-   *
-   * This function takes the product data, converts it to snake_case,
-   * and sends it to the API to create a one-time payment product.
-   * It returns the created product's details.
-   *
-   * @function
-   * @memberof recurrente
-   * @see createProduct
-   * @param {CreateProductRequest} productData - The details of the product to create.
-   * @returns {Promise<CreateProductResponse>} A promise that resolves with the created product's details.
-   * @throws {ErrorResponse} Throws an error if the product creation fails.
-   */
   createProduct,
-
-  /**
-   * Retrieves details of a specific product by its ID.
-   *
-   * This function fetches details of an existing product by making a GET request
-   * using the product ID.
-   *
-   * @function
-   * @memberof recurrente
-   * @see getProduct
-   * @param {string} productId - The ID of the product to retrieve.
-   * @returns {Promise<GetProductResponse>} The details of the product.
-   * @throws {ErrorResponse} Throws an error if the retrieval fails.
-   */
   getProduct,
-
-  /**
-   * Retrieves a paginated list of all products.
-   *
-   * This function fetches a list of products from the API. By default, it retrieves
-   * the 10 most recent products, but pagination can be controlled using query parameters.
-   *
-   * @function
-   * @memberof recurrente
-   * @see getAllProducts
-   * @param {number} [page=1] - The page number to retrieve, defaults to the first page.
-   * @returns {Promise<GetAllProductsResponse>} A promise that resolves with an array of product details.
-   * @throws {ErrorResponse} Throws an error if the product retrieval fails.
-   */
   getAllProducts,
-
-  /**
-   * Updates an existing product by its ID.
-   *
-   * This function takes the product ID and an object containing the updated product details.
-   * It sends a PATCH request to the API to update the specified product. You can also
-   * modify product prices or delete them by passing the _destroy parameter in prices_attributes.
-   *
-   * @function
-   * @memberof recurrente
-   * @see updateProduct
-   * @param {string} productId - The ID of the product to update.
-   * @param {UpdateProductRequest} productData - The updated product details.
-   * @returns {Promise<GetProductResponse>} A promise that resolves with the updated product's details.
-   * @throws {ErrorResponse} Throws an error if the product update fails.
-   */
+  listProducts,
   updateProduct,
-
-  /**
-   * Deletes a product by its ID.
-   *
-   * @function
-   * @memberof recurrente
-   * @see deleteProduct
-   */
   deleteProduct,
-
-  /**
-   * Creates a new subscription for a product.
-   *
-   * @function
-   * @memberof recurrente
-   * @see createSubscription
-   */
   createSubscription,
-
-  /**
-   * Cancels an existing subscription by its ID.
-   *
-   * @function
-   * @memberof recurrente
-   * @see cancelSubscription
-   */
   cancelSubscription,
-
-  /**
-   * Retrieves details of a specific subscription by its ID.
-   *
-   * @function
-   * @memberof recurrente
-   * @see getSubscription
-   */
   getSubscription,
+  getAllSubscriptions,
+  listSubscriptions,
+  pauseSubscription,
+  resumeSubscription,
+  cancelAtPeriodEnd,
+  previewSubscriptionPriceChange,
+  changeSubscriptionPrice,
 };
-
-export default recurrente;
@@ -0,0 +1,165 @@
+import {AxiosInstance} from 'axios';
+import {
+  CreateRefundRequest,
+  RefundResponse,
+  GetAllRefundsResponse,
+  PaymentIntentResponse,
+  RequestOptions,
+  PaginationOptions,
+} from '../types/globals';
+import {toSnakeCase} from '../utils/conversion';
+import {handleAxiosError, ValidationError} from './errors';
+import {
+  validateRequest,
+  validateId,
+  createRefundRequestSchema,
+} from '../utils/validation';
+import {toRequestConfig} from '../config/idempotency';
+import {decodeResponse} from '../config/decoding';
+import {
+  paymentIntentResponseDecoder,
+  refundResponseDecoder,
+  getAllRefundsResponseDecoder,
+} from '../utils/decoders';
+import {PaginatedList} from '../utils/pagination';
+
+/**
+ * Retrieves details of a specific payment intent by its ID.
+ *
+ * @param {AxiosInstance} client - The Axios instance used to send the request.
+ * @param {string} paymentIntentId - The ID of the payment intent to retrieve.
+ * @returns {Promise<PaymentIntentResponse>} The details of the payment intent.
+ * @throws {RecurrenteError} Throws an error if the retrieval fails.
+ */
+const getPaymentIntent = async (
+  client: AxiosInstance,
+  paymentIntentId: string
+): Promise<PaymentIntentResponse> => {
+  validateId('paymentIntentId', paymentIntentId);
+
+  try {
+    const response = await client.get<PaymentIntentResponse>(
+      `/payment_intents/${paymentIntentId}`
+    );
+    return decodeResponse(client, paymentIntentResponseDecoder, response);
+  } catch (error: unknown) {
+    throw handleAxiosError(error);
+  }
+};
+
+/**
+ * Creates a full or partial refund for a payment intent.
+ *
+ * The payload is validated first. When `amountInCents` is given, it must not
+ * exceed the amount still refundable on the payment intent (captured amount
+ * minus previous refunds); this is checked before the refund is sent.
+ * Without `amountInCents`, the remaining amount is refunded in full.
+ *
+ * @param {AxiosInstance} client - The Axios instance used to send the request.
+ * @param {CreateRefundRequest} refundData - The payment intent to refund and the optional amount and reason.
+ * @param {RequestOptions} [options] - Optional request options, such as an idempotency key.
+ * @returns {Promise<RefundResponse>} The created refund.
+ * @throws {ValidationError} If the partial amount is invalid or exceeds the refundable amount.
+ * @throws {RecurrenteError} Throws an error if the refund creation fails.
+ */
+const createRefund = async (
+  client: AxiosInstance,
+  refundData: CreateRefundRequest,
+  options?: RequestOptions
+): Promise<RefundResponse> => {
+  validateRequest(createRefundRequestSchema, refundData);
+
+  const {amountInCents} = refundData;
+
+  if (amountInCents !== undefined) {
+    const paymentIntent = await getPaymentIntent(
+      client,
+      refundData.paymentIntentId
+    );
+    const refundable =
+      paymentIntent.amountInCents - (paymentIntent.refundedAmountInCents || 0);
+
+    if (amountInCents > refundable) {
+      throw new ValidationError('Refund amount exceeds the refundable amount', {
+        amountInCents: [
+          `must be less than or equal to ${refundable} (captured ${paymentIntent.amountInCents})`,
+        ],
+      });
+    }
+  }
+
+  try {
+    const refundDataInSnakeCase = toSnakeCase(refundData, {
+      type: 'CreateRefundRequest',
+    });
+
+    const response = await client.post<RefundResponse>(
+      '/refunds/',
+      refundDataInSnakeCase,
+      toRequestConfig(options)
+    );
+
+    return decodeResponse(client, refundResponseDecoder, response);
+  } catch (error: unknown) {
+    throw handleAxiosError(error);
+  }
+};
+
+/**
+ * Retrieves details of a specific refund by its ID.
+ *
+ * @param {AxiosInstance} client - The Axios instance used to send the request.
+ * @param {string} refundId - The ID of the refund to retrieve.
+ * @returns {Promise<RefundResponse>} The details of the refund.
+ * @throws {RecurrenteError} Throws an error if the retrieval fails.
+ */
+const getRefund = async (
+  client: AxiosInstance,
+  refundId: string
+): Promise<RefundResponse> => {
+  validateId('refundId', refundId);
+
+  try {
+    const response = await client.get<RefundResponse>(`/refunds/${refundId}`);
+    return decodeResponse(client, refundResponseDecoder, response);
+  } catch (error: unknown) {
+    throw handleAxiosError(error);
+  }
+};
+
+/**
+ * Retrieves a single page of refunds.
+ *
+ * @param {AxiosInstance} client - The Axios instance used to send the request.
+ * @param {number} [page=1] - The page number to retrieve, defaults to the first page.
+ * @returns {Promise<GetAllRefundsResponse>} The refunds of the requested page.
+ * @throws {RecurrenteError} Throws an error if the retrieval fails.
+ */
+const getAllRefunds = async (
+  client: AxiosInstance,
+  page = 1
+): Promise<GetAllRefundsResponse> => {
+  try {
+    const response = await client.get<GetAllRefundsResponse>(
+      `/refunds?page=${page}`
+    );
+    return decodeResponse(client, getAllRefundsResponseDecoder, response);
+  } catch (error: unknown) {
+    throw handleAxiosError(error);
+  }
+};
+
+/**
+ * Lists every refund, walking all pages transparently.
+ *
+ * @param {AxiosInstance} client - The Axios instance used to send the request.
+ * @param {PaginationOptions<RefundResponse>} [options] - The first page and an optional per-page callback.
+ * @returns {PaginatedList<RefundResponse>} An async iterable over all refunds.
+ */
+const listRefunds = (
+  client: AxiosInstance,
+  options?: PaginationOptions<RefundResponse>
+): PaginatedList<RefundResponse> =>
+  new PaginatedList(page => getAllRefunds(client, page), options);
+
+export {getPaymentIntent, createRefund, getRefund, getAllRefunds, listRefunds};
@@ -0,0 +1,287 @@
+import type {IncomingMessage, ServerResponse} from 'http';
+import {
+  WebhookEndpointOptions,
+  WebhookEndpointResponse,
+} from '../types/globals';
+import {processWebhook} from './webhook-endpoint';
+
+/**
+ * A request whose body may already have been read by a framework.
+ */
+type RequestWithBody = IncomingMessage & {
+  body?: unknown;
+  rawBody?: string | Buffer;
+};
+
+/**
+ * The parts of a Fastify request used by the webhook handler.
+ */
+export interface FastifyRequestLike {
+  body: unknown;
+  headers: Record<string, string | string[] | undefined>;
+  rawBody?: string | Buffer;
+}
+
+/**
+ * The parts of a Fastify reply used by the webhook handler.
+ */
+export interface FastifyReplyLike {
+  code(statusCode: number): FastifyReplyLike;
+  send(payload?: unknown): unknown;
+}
+
+/**
+ * The parts of a Fastify instance used by the webhook plugin.
+ */
+export interface FastifyInstanceLike {
+  addContentTypeParser(
+    contentType: string,
+    options: {parseAs: 'string'},
+    parser: (
+      request: unknown,
+      body: string,
+      done: (error: Error | null, body?: unknown) => void
+    ) => void
+  ): void;
+  post(
+    path: string,
+    handler: (
+      request: FastifyRequestLike,
+      reply: FastifyReplyLike
+    ) => Promise<unknown>
+  ): void;
+}
+
+/**
+ * The response sent when the body was parsed before it could be verified.
+ */
+const PARSED_BODY_ERROR =
+  'The webhook body was parsed before verification; the raw body is required';
+
+/**
+ * The largest body read from the request stream when the options do not
+ * override it: 1 MB, far more than any Recurrente event.
+ */
+const DEFAULT_MAX_BODY_SIZE = 1024 * 1024;
+
+/**
+ * Extracts the raw body already read by a framework, if any.
+ *
+ * @param {unknown} body - The parsed `body` of the request.
+ * @param {string | Buffer} [rawBody] - The raw body kept by the framework, if any.
+ * @returns {string | null | undefined} The raw body; `null` if only a parsed body is available; `undefined` if the body was not read.
+ */
+const rawBodyOf = (
+  body: unknown,
+  rawBody?: string | Buffer
+): string | null | undefined => {
+  if (rawBody !== undefined) {
+    return rawBody.toString();
+  }
+  if (typeof body === 'string' || Buffer.isBuffer(body)) {
+    return body.toString();
+  }
+  return body === undefined ? undefined : null;
+};
+
+/**
+ * Reads the body of a request from its stream, up to a maximum size. The rest
+ * of a larger body is discarded as it arrives.
+ *
+ * @param {IncomingMessage} request - The request to read.
+ * @param {number} maxBodySize - The largest body accepted, in bytes.
+ * @returns {Promise<string | null>} The body, decoded as UTF-8; `null` if it is larger than `maxBodySize`.
+ */
+const readBody = (
+  request: IncomingMessage,
+  maxBodySize: number
+): Promise<string | null> =>
+  new Promise((resolve, reject) => {
+    if (Number(request.headers['content-length']) > maxBodySize) {
+      resolve(null);
+      return;
+    }
+
+    let body = '';
+    let size = 0;
+    const onData = (chunk: string) => {
+      size += Buffer.byteLength(chunk);
+      if (size > maxBodySize) {
+        request.removeListener('data', onData);
+        resolve(null);
+        return;
+      }
+      body += chunk;
+    };
+
+    request.setEncoding('utf8');
+    request.on('data', onData);
+    request.on('end', () => resolve(body));
+    request.on('error', reject);
+  });
+
+/**
+ * Ends a response with a JSON body.
+ *
+ * @param {ServerResponse} response - The response to end.
+ * @param {number} status - The HTTP status code.
+ * @param {unknown} body - The body, serialized as JSON.
+ */
+const sendJson = (
+  response: ServerResponse,
+  status: number,
+  body: unknown
+): void => {
+  response.statusCode = status;
+  response.setHeader('Content-Type', 'application/json');
+  response.end(JSON.stringify(body));
+};
+
+/**
+ * Processes a delivery whose raw body may be unavailable.
+ *
+ * @param {string | null} payload - The raw body, or `null` if it was parsed.
+ * @param {Record<string, string | string[] | undefined>} headers - The request headers.
+ * @param {WebhookEndpointOptions} options - The endpoint options.
+ * @returns {Promise<WebhookEndpointResponse>} The response to send.
+ */
+const respond = (
+  payload: string | null,
+  headers: Record<string, string | string[] | undefined>,
+  options: WebhookEndpointOptions
+): Promise<WebhookEndpointResponse> => {
+  if (payload === null) {
+    options.onError?.(new Error(PARSED_BODY_ERROR));
+    return Promise.resolve({status: 500, body: {error: PARSED_BODY_ERROR}});
+  }
+  return processWebhook(payload, headers, options);
+};
+
+/**
+ * Creates a request listener for Node's `http` module that verifies and
+ * dispatches Recurrente webhooks.
+ *
+ * The raw body is read from the request stream, unless a framework already
+ * stored it in `body` (as a string or Buffer) or `rawBody`. Requests other
+ * than POST get a 405, and bodies larger than `maxBodySize` a 413.
+ *
+ * @param {WebhookEndpointOptions} [options] - The router, decoding and error reporting options.
+ * @returns {(request: IncomingMessage, response: ServerResponse) => Promise<void>} The request listener.
+ *
+ * @example
+ * http
+ *   .createServer(createNodeWebhookHandler({router}))
+ *   .listen(3000);
+ */
+export function createNodeWebhookHandler(
+  options: WebhookEndpointOptions = {}
+): (request: IncomingMessage, response: ServerResponse) => Promise<void> {
+  return async (request, response) => {
+    if (request.method !== 'POST') {
+      sendJson(response, 405, {error: 'Method not allowed'});
+      return;
+    }
+
+    const {body, rawBody} = request as RequestWithBody;
+    let payload = rawBodyOf(body, rawBody);
+
+    if (payload === undefined) {
+      try {
+        const read = await readBody(
+          request,
+          options.maxBodySize ?? DEFAULT_MAX_BODY_SIZE
+        );
+        if (read === null) {
+          // Close the connection instead of waiting for the rest of the body
+          response.setHeader('Connection', 'close');
+          sendJson(response, 413, {error: 'Webhook body too large'});
+          return;
+        }
+        payload = read;
+      } catch (error: unknown) {
+        options.onError?.(error);
+        response.statusCode = 400;
+        response.end();
+        return;
+      }
+    }
+
+    const {status, body: responseBody} = await respond(
+      payload,
+      request.headers,
+      options
+    );
+
+    sendJson(response, status, responseBody);
+  };
+}
+
+/**
+ * Creates an Express route handler that verifies and dispatches Recurrente
+ * webhooks and responds with the matching status code.
+ *
+ * Mount it before `express.json()`, or with `express.raw({type: 'application/json'})`,
+ * so the body is still raw when the signature is verified.
+ *
+ * @param {WebhookEndpointOptions} [options] - The router, decoding and error reporting options.
+ * @returns {(request: IncomingMessage, response: ServerResponse) => Promise<void>} The route handler.
+ *
+ * @example
+ * app.post(
+ *   '/webhooks/recurrente',
+ *   express.raw({type: 'application/json'}),
+ *   createExpressWebhookHandler({router})
+ * );
+ */
+export const createExpressWebhookHandler = createNodeWebhookHandler;
+
+/**
+ * Creates a Fastify route handler that verifies and dispatches Recurrente
+ * webhooks and replies with the matching status code.
+ *
+ * Fastify parses JSON bodies by default, so the route must receive the body
+ * as a string; `createFastifyWebhookPlugin` sets that up.
+ *
+ * @param {WebhookEndpointOptions} [options] - The router, decoding and error reporting options.
+ * @returns {(request: FastifyRequestLike, reply: FastifyReplyLike) => Promise<unknown>} The route handler.
+ */
+export function createFastifyWebhookHandler(
+  options: WebhookEndpointOptions = {}
+): (request: FastifyRequestLike, reply: FastifyReplyLike) => Promise<unknown> {
+  return async (request, reply) => {
+    const payload = rawBodyOf(request.body, request.rawBody);
+    const {status, body} = await respond(
+      payload === undefined ? '' : payload,
+      request.headers,
+      options
+    );
+
+    return reply.code(status).send(body);
+  };
+}
+
+/**
+ * Creates a Fastify plugin that registers a webhook route receiving raw JSON
+ * bodies. The raw body parser is scoped to the plugin, so other routes keep
+ * Fastify's JSON parsing.
+ *
+ * @param {WebhookEndpointOptions & {path?: string}} [options] - The route path (defaults to `/webhooks/recurrente`) and endpoint options.
+ * @returns {(instance: FastifyInstanceLike) => Promise<void>} The plugin, to pass to `fastify.register`.
+ *
+ * @example
+ * fastify.register(createFastifyWebhookPlugin({path: '/webhooks', router}));
+ */
+export function createFastifyWebhookPlugin(
+  options: WebhookEndpointOptions & {path?: string} = {}
+): (instance: FastifyInstanceLike) => Promise<void> {
+  const {path = '/webhooks/recurrente', ...endpointOptions} = options;
+
+  return async instance => {
+    instance.addContentTypeParser(
+      'application/json',
+      {parseAs: 'string'},
+      (request, body, done) => done(null, body)
+    );
+    instance.post(path, createFastifyWebhookHandler(endpointOptions));
+  };
+}
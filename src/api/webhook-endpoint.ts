@@ -0,0 +1,176 @@
+import {
+  WebhookEndpointOptions,
+  WebhookEndpointResponse,
+  WebhookDispatchResult,
+  WebhookDelivery,
+  WebhookEvent,
+} from '../types/globals';
+import {
+  handleWebhookEvent,
+  verifySvixSignature,
+  headerOf,
+} from './recurrente-webhooks';
+import {
+  WebhookVerificationError,
+  UnhandledWebhookEventError,
+} from './webhook-errors';
+import {DecodingError} from './errors';
+
+/**
+ * How long a processed message ID is remembered by default: 3 days, longer
+ * than the Svix retry schedule.
+ */
+const DEFAULT_RETENTION = 3 * 24 * 60 * 60 * 1000;
+
+/**
+ * How long a delivery being processed holds its message ID by default.
+ */
+const DEFAULT_LEASE = 10 * 60 * 1000;
+
+/**
+ * Verifies a webhook delivery, dispatches its event and maps the outcome to
+ * the HTTP response expected by Recurrente.
+ *
+ * With an idempotency store, the message ID (`svix-id` or `webhook-id`) of
+ * each successfully processed delivery is recorded, and later deliveries of
+ * the same message are skipped or flagged as duplicates. A delivery is only
+ * recorded once its handlers succeed, so failed deliveries are still retried.
+ * With a store that implements `claim`, the message ID is claimed before
+ * dispatching, and a delivery of a message still being processed is answered
+ * with 409 so Recurrente retries it later.
+ *
+ * This is the framework-independent core of the webhook endpoints; it never
+ * throws.
+ *
+ * @param {string} payload - The raw request body, exactly as received.
+ * @param {Record<string, string | string[] | undefined>} headers - The request headers, with lower-case names.
+ * @param {WebhookEndpointOptions} [options] - The router, decoding and error reporting options.
+ * @returns {Promise<WebhookEndpointResponse>} The status code and JSON body to respond with.
+ */
+export async function processWebhook(
+  payload: string,
+  headers: Record<string, string | string[] | undefined>,
+  options: WebhookEndpointOptions = {}
+): Promise<WebhookEndpointResponse> {
+  const fail = (
+    status: number,
+    message: string,
+    ...errors: unknown[]
+  ): WebhookEndpointResponse => {
+    errors.forEach(error => options.onError?.(error));
+    return {status, body: {error: message}};
+  };
+
+  let event: WebhookEvent;
+
+  try {
+    event = verifySvixSignature(payload, headers, {
+      logger: options.logger,
+      ...options.decoding,
+      ...options.verification,
+    });
+  } catch (error: unknown) {
+    if (error instanceof WebhookVerificationError) {
+      return fail(400, error.message, error);
+    }
+    if (error instanceof DecodingError) {
+      return fail(400, 'Invalid webhook payload', error);
+    }
+    return fail(500, 'Webhook endpoint misconfigured', error);
+  }
+
+  const {idempotency} = options;
+  // The same lookup as the verification, which rejects deliveries without an ID
+  const delivery: WebhookDelivery = {
+    id: headerOf(headers, 'id') as string,
+    duplicate: false,
+  };
+
+  let claimed = false;
+
+  if (idempotency) {
+    const {store} = idempotency;
+    try {
+      if (store.claim) {
+        claimed = await store.claim(
+          delivery.id,
+          idempotency.lease ?? DEFAULT_LEASE
+        );
+        delivery.duplicate = !claimed && (await store.has(delivery.id));
+        if (!claimed && !delivery.duplicate) {
+          return {
+            status: 409,
+            body: {error: 'Webhook delivery already being processed'},
+          };
+        }
+      } else {
+        delivery.duplicate = await store.has(delivery.id);
+      }
+    } catch (error: unknown) {
+      return fail(500, 'Webhook idempotency store failed', error);
+    }
+
+    if (delivery.duplicate && idempotency.duplicates !== 'flag') {
+      return {status: 200, body: {received: true, duplicate: true}};
+    }
+  }
+
+  // Lets a retry process a delivery that failed
+  const release = async () => {
+    if (claimed) {
+      try {
+        await idempotency?.store.release?.(delivery.id);
+      } catch (error: unknown) {
+        options.onError?.(error);
+      }
+    }
+  };
+
+  // Only the options that are set, so a router keeps its own defaults.
+  const overrides: Pick<WebhookEndpointOptions, 'unhandled' | 'logger'> = {};
+  if (options.unhandled !== undefined) {
+    overrides.unhandled = options.unhandled;
+  }
+  if (options.logger !== undefined) {
+    overrides.logger = options.logger;
+  }
+
+  let result: WebhookDispatchResult;
+
+  try {
+    result = options.router
+      ? await options.router.dispatch(event, overrides, delivery)
+      : await handleWebhookEvent(event, overrides, delivery);
+  } catch (error: unknown) {
+    await release();
+    if (error instanceof UnhandledWebhookEventError) {
+      return fail(422, error.message, error);
+    }
+    return fail(500, 'Webhook handler failed', error);
+  }
+
+  if (!result.ok) {
+    await release();
+    return fail(
+      500,
+      'Webhook handler failed',
+      ...result.failures.map(failure => failure.error)
+    );
+  }
+
+  if (idempotency) {
+    try {
+      await idempotency.store.add(
+        delivery.id,
+        idempotency.retention ?? DEFAULT_RETENTION
+      );
+    } catch (error: unknown) {
+      // The event was processed: failing now would only make Svix deliver it again
+      options.onError?.(error);
+    }
+  }
+
+  return delivery.duplicate
+    ? {status: 200, body: {received: true, duplicate: true}}
+    : {status: 200, body: {received: true}};
+}
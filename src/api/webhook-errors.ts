@@ -0,0 +1,87 @@
+/**
+ * Base class for the errors thrown while receiving webhooks.
+ */
+export class WebhookError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WebhookError';
+  }
+}
+
+/**
+ * Thrown when a webhook delivery cannot be verified as coming from Recurrente.
+ */
+export class WebhookVerificationError extends WebhookError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WebhookVerificationError';
+  }
+}
+
+/**
+ * Thrown when a delivery lacks the Svix headers needed to verify it.
+ */
+export class MissingWebhookHeadersError extends WebhookVerificationError {
+  /**
+   * The names of the missing headers (e.g., 'svix-signature').
+   */
+  readonly headers: string[];
+
+  constructor(message: string, headers: string[]) {
+    super(message);
+    this.name = 'MissingWebhookHeadersError';
+    this.headers = headers;
+  }
+}
+
+/**
+ * Thrown when the timestamp of a delivery is invalid or outside the
+ * tolerance window, as happens with replayed deliveries.
+ */
+export class WebhookTimestampError extends WebhookVerificationError {
+  /**
+   * The timestamp sent in the `svix-timestamp` header, in seconds since the
+   * epoch, or `NaN` if it is not a number.
+   */
+  readonly timestamp: number;
+
+  constructor(message: string, timestamp: number) {
+    super(message);
+    this.name = 'WebhookTimestampError';
+    this.timestamp = timestamp;
+  }
+}
+
+/**
+ * Thrown when no signature of a delivery matches the signing secrets, as
+ * happens when the body was modified or the secret is wrong.
+ */
+export class InvalidWebhookSignatureError extends WebhookVerificationError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidWebhookSignatureError';
+  }
+}
+
+/**
+ * Thrown by a `WebhookRouter` with the `'throw'` policy when no handler
+ * matches an event.
+ */
+export class UnhandledWebhookEventError extends WebhookError {
+  /**
+   * The type of the unhandled event.
+   */
+  readonly eventType: string;
+
+  /**
+   * The ID of the unhandled event.
+   */
+  readonly eventId: string;
+
+  constructor(message: string, eventType: string, eventId: string) {
+    super(message);
+    this.name = 'UnhandledWebhookEventError';
+    this.eventType = eventType;
+    this.eventId = eventId;
+  }
+}
@@ -0,0 +1,72 @@
+import {WebhookEndpointOptions} from '../types/globals';
+import {processWebhook} from './webhook-endpoint';
+
+/**
+ * Collects the headers of a Fetch API request into a plain record.
+ *
+ * @param {Headers} headers - The request headers.
+ * @returns {Record<string, string>} The headers, with lower-case names.
+ */
+const headersOf = (headers: Headers): Record<string, string> => {
+  const record: Record<string, string> = {};
+  headers.forEach((value, name) => {
+    record[name.toLowerCase()] = value;
+  });
+  return record;
+};
+
+/**
+ * Builds a JSON response.
+ *
+ * @param {number} status - The HTTP status code.
+ * @param {unknown} body - The body, serialized as JSON.
+ * @returns {Response} The response.
+ */
+const jsonResponse = (status: number, body: unknown): Response =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: {'Content-Type': 'application/json'},
+  });
+
+/**
+ * Verifies and dispatches a Recurrente webhook received as a Fetch API
+ * `Request`, and returns the `Response` to send back.
+ *
+ * Only Web standard APIs are used, so it runs in Next.js route handlers,
+ * Cloudflare Workers, Deno, Bun and Node 18+. The signing secret is read
+ * from `RECURRENTE_SVIX_SIGNING_SECRET` where `process.env` is available.
+ *
+ * @param {Request} request - The incoming request; its body must not have been read.
+ * @param {WebhookEndpointOptions} [options] - The router, decoding and error reporting options.
+ * @returns {Promise<Response>} A JSON response with the matching status code; requests other than POST get a 405.
+ *
+ * @example
+ * // app/api/webhooks/recurrente/route.ts
+ * export const POST = (request: Request) =>
+ *   handleWebhookRequest(request, {router});
+ */
+export async function handleWebhookRequest(
+  request: Request,
+  options: WebhookEndpointOptions = {}
+): Promise<Response> {
+  if (request.method !== 'POST') {
+    return jsonResponse(405, {error: 'Method not allowed'});
+  }
+
+  let payload: string;
+
+  try {
+    payload = await request.text();
+  } catch (error: unknown) {
+    options.onError?.(error);
+    return jsonResponse(400, {error: 'Unreadable request body'});
+  }
+
+  const {status, body} = await processWebhook(
+    payload,
+    headersOf(request.headers),
+    options
+  );
+
+  return jsonResponse(status, body);
+}
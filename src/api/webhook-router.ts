@@ -0,0 +1,215 @@
+import {
+  WebhookEvent,
+  WebhookDelivery,
+  WebhookHandler,
+  WebhookEventPattern,
+  WebhookEventForPattern,
+  WebhookRouterOptions,
+  WebhookHandlerFailure,
+  WebhookDispatchResult,
+} from '../types/globals';
+import {isKnownWebhookEvent} from '../utils/decoders';
+import {UnhandledWebhookEventError} from './webhook-errors';
+
+/**
+ * A handler registered on a router, with the pattern it was registered for.
+ */
+interface Route {
+  pattern: WebhookEventPattern;
+  handler: WebhookHandler<WebhookEvent>;
+}
+
+/**
+ * Checks whether an event type matches a pattern.
+ *
+ * @param {WebhookEventPattern} pattern - An exact event type, 'resource.*' or '*'.
+ * @param {string} eventType - The type of the event.
+ * @returns {boolean} Whether the event type matches.
+ */
+const matches = (pattern: WebhookEventPattern, eventType: string): boolean => {
+  if (pattern === '*') {
+    return true;
+  }
+  if (pattern.endsWith('.*')) {
+    return eventType.startsWith(pattern.slice(0, -1));
+  }
+  return pattern === eventType;
+};
+
+/**
+ * Dispatches verified webhook events to any number of handlers.
+ *
+ * Handlers can be registered for an exact event type, for every event of a
+ * resource (`'subscription.*'`) or for every event (`'*'`). Async handlers are
+ * awaited, and each handler is isolated: one that throws is reported in the
+ * dispatch result without affecting the others. Events that no handler
+ * matches, including event types unknown to the library, follow the
+ * `unhandled` policy.
+ *
+ * @example
+ * const router = new WebhookRouter();
+ *
+ * router
+ *   .on('payment_intent.succeeded', async event => {
+ *     await fulfillOrder(event.checkout.id);
+ *   })
+ *   .on('subscription.*', event => {
+ *     console.log(`Subscription event for: ${event.customerEmail}`);
+ *   });
+ *
+ * const result = await router.dispatch(event);
+ * if (!result.ok) {
+ *   console.error('Failed handlers:', result.failures);
+ * }
+ */
+export class WebhookRouter {
+  private readonly routes: Route[] = [];
+
+  /**
+   * @param {WebhookRouterOptions} [options] - Whether handlers run sequentially or in parallel.
+   */
+  constructor(private readonly options: WebhookRouterOptions = {}) {}
+
+  /**
+   * Registers a handler for the events matching a pattern.
+   *
+   * @template P - The pattern.
+   * @param {P} pattern - An exact event type, 'resource.*' or '*'.
+   * @param {WebhookHandler<WebhookEventForPattern<P>>} handler - The handler to run for each matching event.
+   * @returns {this} The router, for chaining.
+   */
+  on<P extends WebhookEventPattern>(
+    pattern: P,
+    handler: WebhookHandler<WebhookEventForPattern<P>>
+  ): this {
+    this.routes.push({
+      pattern,
+      handler: handler as WebhookHandler<WebhookEvent>,
+    });
+    return this;
+  }
+
+  /**
+   * Removes handlers registered for a pattern.
+   *
+   * @template P - The pattern.
+   * @param {P} pattern - The pattern the handlers were registered for.
+   * @param {WebhookHandler<WebhookEventForPattern<P>>} [handler] - The handler to remove; every handler of the pattern when omitted.
+   * @returns {this} The router, for chaining.
+   */
+  off<P extends WebhookEventPattern>(
+    pattern: P,
+    handler?: WebhookHandler<WebhookEventForPattern<P>>
+  ): this {
+    for (let i = this.routes.length - 1; i >= 0; i--) {
+      const route = this.routes[i];
+      if (
+        route.pattern === pattern &&
+        (!handler || route.handler === handler)
+      ) {
+        this.routes.splice(i, 1);
+      }
+    }
+    return this;
+  }
+
+  /**
+   * Checks whether at least one handler matches an event type.
+   *
+   * @param {string} eventType - The type of the event.
+   * @returns {boolean} Whether the event would be handled.
+   */
+  handles(eventType: string): boolean {
+    return this.routes.some(route => matches(route.pattern, eventType));
+  }
+
+  /**
+   * Runs every handler matching an event.
+   *
+   * @param {WebhookEvent} event - The verified webhook event.
+   * @param {Pick<WebhookRouterOptions, 'unhandled' | 'logger'>} [overrides] - Overrides the unhandled event policy for this event.
+   * @param {WebhookDelivery} [delivery] - The delivery that carried the event, passed on to the handlers.
+   * @returns {Promise<WebhookDispatchResult>} The number of matching handlers and the ones that failed.
+   * @throws {UnhandledWebhookEventError} With the `'throw'` policy, if no handler matches the event.
+   */
+  async dispatch(
+    event: WebhookEvent,
+    overrides: Pick<WebhookRouterOptions, 'unhandled' | 'logger'> = {},
+    delivery?: WebhookDelivery
+  ): Promise<WebhookDispatchResult> {
+    const routes = this.routes.filter(route =>
+      matches(route.pattern, event.eventType)
+    );
+
+    if (routes.length === 0) {
+      this.handleUnhandled(event, {...this.options, ...overrides});
+    }
+
+    const run = async (route: Route): Promise<WebhookHandlerFailure | null> => {
+      try {
+        // Handlers only receive a delivery when the event came from an endpoint
+        await (delivery
+          ? route.handler(event, delivery)
+          : route.handler(event));
+        return null;
+      } catch (error: unknown) {
+        return {
+          pattern: route.pattern,
+          handler: route.handler.name || 'anonymous',
+          error,
+        };
+      }
+    };
+
+    let outcomes: (WebhookHandlerFailure | null)[];
+
+    if (this.options.execution === 'parallel') {
+      outcomes = await Promise.all(routes.map(run));
+    } else {
+      outcomes = [];
+      for (const route of routes) {
+        outcomes.push(await run(route));
+      }
+    }
+
+    const failures = outcomes.filter(
+      (outcome): outcome is WebhookHandlerFailure => outcome !== null
+    );
+
+    return {
+      event,
+      handlerCount: routes.length,
+      failures,
+      ok: failures.length === 0,
+    };
+  }
+
+  /**
+   * Applies the `unhandled` policy to an event that no handler matches.
+   * Only the event type and ID are logged, never the payload, which holds
+   * customer data.
+   *
+   * @param {WebhookEvent} event - The unhandled event.
+   * @param {WebhookRouterOptions} options - The policy and logger to apply.
+   * @throws {UnhandledWebhookEventError} With the `'throw'` policy.
+   */
+  private handleUnhandled(
+    event: WebhookEvent,
+    options: WebhookRouterOptions
+  ): void {
+    const policy = options.unhandled || 'warn';
+    const message = isKnownWebhookEvent(event)
+      ? `No handler registered for event type: ${event.eventType}`
+      : `Unknown webhook event type: ${event.eventType}`;
+
+    if (policy === 'throw') {
+      throw new UnhandledWebhookEventError(message, event.eventType, event.id);
+    }
+    if (policy === 'warn') {
+      (options.logger || console).warn(message, {
+        eventType: event.eventType,
+        eventId: event.id,
+      });
+    }
+  }
+}
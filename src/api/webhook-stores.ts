@@ -0,0 +1,206 @@
+import {
+  WebhookIdempotencyStore,
+  MemoryIdempotencyStoreOptions,
+} from '../types/globals';
+
+/**
+ * Keeps the processed message IDs in memory, evicting the least recently
+ * used ones beyond `maxSize`.
+ *
+ * The IDs are lost when the process restarts and are not shared between
+ * processes; use a persistent store when running several instances.
+ *
+ * @example
+ * const idempotency = {store: new MemoryIdempotencyStore({maxSize: 5000})};
+ * app.post('/webhooks', createExpressWebhookHandler({router, idempotency}));
+ */
+export class MemoryIdempotencyStore implements WebhookIdempotencyStore {
+  /**
+   * The expiration time of each message ID, from least to most recently used.
+   */
+  private readonly entries = new Map<string, number>();
+
+  /**
+   * The expiration time of the claim of each message ID being processed.
+   */
+  private readonly leases = new Map<string, number>();
+
+  private readonly maxSize: number;
+
+  /**
+   * @param {MemoryIdempotencyStoreOptions} [options] - The maximum number of message IDs kept.
+   */
+  constructor(options: MemoryIdempotencyStoreOptions = {}) {
+    this.maxSize = options.maxSize ?? 10000;
+  }
+
+  async has(id: string): Promise<boolean> {
+    return this.recorded(id);
+  }
+
+  async claim(id: string, lease: number): Promise<boolean> {
+    // Checked and set without awaiting, so concurrent claims cannot interleave
+    if (this.recorded(id) || (this.leases.get(id) ?? 0) > Date.now()) {
+      return false;
+    }
+    this.leases.set(id, Date.now() + lease);
+    return true;
+  }
+
+  async release(id: string): Promise<void> {
+    this.leases.delete(id);
+  }
+
+  async add(id: string, retention: number): Promise<void> {
+    this.leases.delete(id);
+    this.entries.delete(id);
+    this.entries.set(id, Date.now() + retention);
+
+    for (const oldest of this.entries.keys()) {
+      if (this.entries.size <= this.maxSize) {
+        break;
+      }
+      this.entries.delete(oldest);
+    }
+  }
+
+  /**
+   * Checks whether a message ID was recorded and has not expired, marking it
+   * as the most recently used.
+   *
+   * @param {string} id - The message ID.
+   * @returns {boolean} Whether the ID is recorded.
+   */
+  private recorded(id: string): boolean {
+    const expiresAt = this.entries.get(id);
+    if (expiresAt === undefined) {
+      return false;
+    }
+
+    this.entries.delete(id);
+    if (expiresAt <= Date.now()) {
+      return false;
+    }
+
+    this.entries.set(id, expiresAt);
+    return true;
+  }
+}
+
+/**
+ * Keeps the processed message IDs in a JSON file, so they survive restarts.
+ *
+ * The whole file is rewritten on every addition, with the expired IDs
+ * removed, which suits a single process receiving a moderate volume of
+ * webhooks. Claims are kept in memory, so they do not guard deliveries
+ * processed by another process sharing the file. `fs` is only loaded on
+ * first use, so importing this class does not prevent using the webhook
+ * helpers outside Node.
+ *
+ * @example
+ * const store = new FileIdempotencyStore('./data/processed-webhooks.json');
+ */
+export class FileIdempotencyStore implements WebhookIdempotencyStore {
+  /**
+   * The message IDs read from the file, with their expiration time.
+   */
+  private entries?: Promise<Map<string, number>>;
+
+  /**
+   * The expiration time of the claim of each message ID being processed.
+   * Claims are not written to the file: they only guard this process.
+   */
+  private readonly leases = new Map<string, number>();
+
+  /**
+   * The pending write, to apply the writes one after another.
+   */
+  private writing: Promise<void> = Promise.resolve();
+
+  /**
+   * @param {string} path - The JSON file; it is created on the first addition.
+   */
+  constructor(private readonly path: string) {}
+
+  async has(id: string): Promise<boolean> {
+    const expiresAt = (await this.load()).get(id);
+    return expiresAt !== undefined && expiresAt > Date.now();
+  }
+
+  async claim(id: string, lease: number): Promise<boolean> {
+    const entries = await this.load();
+    const now = Date.now();
+    // Checked and set without awaiting, so concurrent claims cannot interleave
+    if ((entries.get(id) ?? 0) > now || (this.leases.get(id) ?? 0) > now) {
+      return false;
+    }
+    this.leases.set(id, now + lease);
+    return true;
+  }
+
+  async release(id: string): Promise<void> {
+    this.leases.delete(id);
+  }
+
+  async add(id: string, retention: number): Promise<void> {
+    const entries = await this.load();
+    entries.set(id, Date.now() + retention);
+    this.leases.delete(id);
+
+    const write = this.writing.then(() => this.save(entries));
+    this.writing = write.catch(() => undefined);
+    return write;
+  }
+
+  /**
+   * Reads the file once; a missing file holds no message IDs.
+   *
+   * @returns {Promise<Map<string, number>>} The message IDs with their expiration time.
+   * @throws {Error} If the file cannot be read or is not valid JSON.
+   */
+  private load(): Promise<Map<string, number>> {
+    if (!this.entries) {
+      this.entries = (async () => {
+        const {promises: fs} = await import('fs');
+        try {
+          const contents = await fs.readFile(this.path, 'utf8');
+          return new Map(
+            Object.entries(JSON.parse(contents) as Record<string, number>)
+          );
+        } catch (error: unknown) {
+          if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+            return new Map<string, number>();
+          }
+          throw error;
+        }
+      })();
+      // Read the file again on the next call if it failed
+      this.entries.catch(() => (this.entries = undefined));
+    }
+    return this.entries;
+  }
+
+  /**
+   * Writes the unexpired message IDs to a temporary file and renames it over
+   * the store, so a crash never leaves a truncated file behind.
+   *
+   * @param {Map<string, number>} entries - The message IDs with their expiration time.
+   */
+  private async save(entries: Map<string, number>): Promise<void> {
+    const {promises: fs} = await import('fs');
+    const now = Date.now();
+
+    for (const [id, expiresAt] of entries) {
+      if (expiresAt <= now) {
+        entries.delete(id);
+      }
+    }
+
+    const contents: Record<string, number> = {};
+    entries.forEach((expiresAt, id) => (contents[id] = expiresAt));
+
+    const temporary = `${this.path}.${process.pid}.tmp`;
+    await fs.writeFile(temporary, JSON.stringify(contents), 'utf8');
+    await fs.rename(temporary, this.path);
+  }
+}
@@ -0,0 +1,156 @@
+import yaml from 'js-yaml';
+import {ValidationError} from '../api/errors';
+import {CatalogManifest} from '../types/globals';
+import {toCamelCase} from '../utils/conversion';
+import {
+  Schema,
+  SchemaContext,
+  checkSchema,
+  groupIssues,
+  optional,
+  string,
+  number,
+  oneOf,
+  array,
+  record,
+  object,
+  reportIssue,
+} from '../utils/schema';
+
+const externalId = string({nonEmpty: true});
+const requirement = oneOf('required', 'optional', 'none');
+
+/**
+ * Reports the external IDs that appear more than once in a list.
+ *
+ * @param {Record<string, unknown>[]} items - The products or prices.
+ * @param {string} path - The path of the list.
+ * @param {SchemaContext} context - The context to record problems in.
+ */
+const checkUniqueIds = (
+  items: Record<string, unknown>[],
+  path: string,
+  context: SchemaContext
+) => {
+  const seen = new Set<unknown>();
+  items.forEach((item, index) => {
+    if (seen.has(item.externalId)) {
+      reportIssue(context, `${path}[${index}]`, 'externalId', 'is duplicated');
+    }
+    seen.add(item.externalId);
+  });
+};
+
+/**
+ * Schema of `CatalogManifestPrice`.
+ */
+const priceSchema: Schema = object(
+  {
+    externalId,
+    amountInCents: number({integer: true, min: 1}),
+    currency: optional(oneOf('GTQ', 'USD')),
+    billingInterval: optional(oneOf('month', 'week', 'year')),
+    billingIntervalCount: optional(number({integer: true, min: 1})),
+  },
+  (price, path, context) => {
+    if (
+      price.billingIntervalCount !== undefined &&
+      price.billingInterval === undefined
+    ) {
+      reportIssue(
+        context,
+        path,
+        'billingInterval',
+        'is required when billingIntervalCount is set'
+      );
+    }
+  }
+);
+
+/**
+ * Schema of `CatalogManifestProduct`. A product sells either one-time or
+ * recurring prices, as the API creates them with different requests.
+ */
+const productSchema: Schema = object(
+  {
+    externalId,
+    name: string({nonEmpty: true}),
+    description: optional(string()),
+    successUrl: optional(string()),
+    cancelUrl: optional(string()),
+    customTermsAndConditions: optional(string()),
+    phoneRequirement: optional(requirement),
+    addressRequirement: optional(requirement),
+    billingInfoRequirement: optional(oneOf('optional', 'none')),
+    metadata: optional(record(string())),
+    prices: array(priceSchema, {minLength: 1}),
+  },
+  (product, path, context) => {
+    const prices = product.prices as Record<string, unknown>[];
+    const recurring = prices.filter(price => price.billingInterval);
+    if (recurring.length > 0 && recurring.length < prices.length) {
+      reportIssue(
+        context,
+        path,
+        'prices',
+        'must be all one-time or all recurring'
+      );
+    }
+    checkUniqueIds(prices, `${path}.prices`, context);
+  }
+);
+
+/**
+ * Schema of `CatalogManifest`.
+ */
+const manifestSchema: Schema = object(
+  {products: array(productSchema)},
+  (manifest, path, context) =>
+    checkUniqueIds(
+      manifest.products as Record<string, unknown>[],
+      'products',
+      context
+    )
+);
+
+/**
+ * Parses and validates a catalog manifest written in YAML or JSON. Keys may
+ * be in camelCase or in the snake_case of the API:
+ *
+ * ```yaml
+ * products:
+ *   - external_id: plan-pro
+ *     name: Plan Pro
+ *     prices:
+ *       - external_id: monthly
+ *         amount_in_cents: 15000
+ *         billing_interval: month
+ * ```
+ *
+ * @param {string} text - The manifest.
+ * @param {'yaml' | 'json'} [format='yaml'] - The format of the manifest. YAML also accepts JSON.
+ * @returns {CatalogManifest} The manifest, in camelCase.
+ * @throws {ValidationError} If the manifest cannot be parsed, or lists every problem found in it.
+ */
+export function parseCatalogManifest(
+  text: string,
+  format: 'yaml' | 'json' = 'yaml'
+): CatalogManifest {
+  let parsed: unknown;
+  try {
+    parsed = format === 'json' ? JSON.parse(text) : yaml.load(text);
+  } catch (error: unknown) {
+    throw new ValidationError('Invalid catalog manifest', {
+      manifest: [error instanceof Error ? error.message : String(error)],
+    });
+  }
+
+  const manifest = toCamelCase(parsed, {type: 'CatalogManifest'});
+  const issues = checkSchema(manifestSchema, manifest, {
+    reportUnknownKeys: true,
+  });
+  if (issues.length > 0) {
+    throw new ValidationError('Invalid catalog manifest', groupIssues(issues));
+  }
+  return manifest as CatalogManifest;
+}
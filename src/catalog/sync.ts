@@ -0,0 +1,502 @@
+import {RecurrenteClient} from '../api/client';
+import {ValidationError} from '../api/errors';
+import {
+  CatalogManifest,
+  CatalogManifestPrice,
+  CatalogManifestProduct,
+  CatalogSyncAction,
+  CatalogSyncPlan,
+  CatalogSyncResult,
+  GetProductResponse,
+  UpdateProductRequest,
+} from '../types/globals';
+
+/**
+ * The metadata key that holds the external ID of a product.
+ */
+const EXTERNAL_ID_KEY = 'external_id';
+
+/**
+ * The metadata key that maps the external IDs of the prices of a product to
+ * their IDs, as JSON. Prices have no metadata of their own.
+ */
+const PRICE_IDS_KEY = 'external_price_ids';
+
+type RemotePrice = GetProductResponse['prices'][number];
+type PricePatch = NonNullable<UpdateProductRequest['pricesAttributes']>[number];
+type PriceChanges = Partial<
+  Pick<
+    RemotePrice,
+    | 'chargeType'
+    | 'amountInCents'
+    | 'currency'
+    | 'billingInterval'
+    | 'billingIntervalCount'
+  >
+>;
+type CreatedPrice = Pick<
+  RemotePrice,
+  'id' | 'chargeType' | 'amountInCents' | 'currency'
+> &
+  PriceChanges;
+
+/**
+ * The product fields compared with the manifest, when the manifest sets them.
+ */
+const PRODUCT_FIELDS = [
+  'name',
+  'description',
+  'successUrl',
+  'cancelUrl',
+  'customTermsAndConditions',
+  'phoneRequirement',
+  'addressRequirement',
+  'billingInfoRequirement',
+] as const;
+
+/**
+ * Reads the price ID map stored in the metadata of a product.
+ *
+ * @param {Record<string, string>} [metadata] - The metadata of the product.
+ * @returns {Record<string, string>} The price IDs keyed by external ID; empty if missing or invalid.
+ */
+const readPriceIds = (
+  metadata: Record<string, string> = {}
+): Record<string, string> => {
+  try {
+    const priceIds = JSON.parse(metadata[PRICE_IDS_KEY] ?? '{}');
+    return typeof priceIds === 'object' && priceIds !== null ? priceIds : {};
+  } catch (error: unknown) {
+    return {};
+  }
+};
+
+/**
+ * Builds the metadata a product should have: the metadata of the manifest, or
+ * the current one if the manifest sets none, plus the keys used by the sync.
+ *
+ * @param {CatalogManifestProduct} product - The product in the manifest.
+ * @param {Record<string, string>} current - The current metadata of the product.
+ * @param {Record<string, string>} priceIds - The price IDs keyed by external ID.
+ * @returns {Record<string, string>} The metadata.
+ */
+const syncedMetadata = (
+  product: CatalogManifestProduct,
+  current: Record<string, string>,
+  priceIds: Record<string, string>
+): Record<string, string> => ({
+  ...(product.metadata ?? current),
+  [EXTERNAL_ID_KEY]: product.externalId,
+  [PRICE_IDS_KEY]: JSON.stringify(priceIds),
+});
+
+/**
+ * Compares two metadata maps, ignoring the order of their keys.
+ *
+ * @param {Record<string, string>} a - The first map.
+ * @param {Record<string, string>} b - The second map.
+ * @returns {boolean} Whether they have the same entries.
+ */
+const sameMetadata = (
+  a: Record<string, string>,
+  b: Record<string, string>
+): boolean =>
+  Object.keys(a).length === Object.keys(b).length &&
+  Object.keys(a).every(key => a[key] === b[key]);
+
+/**
+ * The attributes of a manifest price, as the API stores them.
+ *
+ * @param {CatalogManifestPrice} price - The price in the manifest.
+ * @returns {Required<PriceChanges>} The charge type, amount, currency and billing interval.
+ */
+const priceAttributes = (
+  price: CatalogManifestPrice
+): Required<PriceChanges> => ({
+  chargeType: price.billingInterval
+    ? ('recurring' as const)
+    : ('one_time' as const),
+  amountInCents: price.amountInCents,
+  currency: price.currency ?? 'GTQ',
+  billingInterval: price.billingInterval ?? ('' as const),
+  billingIntervalCount: price.billingInterval
+    ? price.billingIntervalCount ?? 1
+    : 0,
+});
+
+/**
+ * Compares a manifest price with a price of the account.
+ *
+ * @param {CatalogManifestPrice} price - The price in the manifest.
+ * @param {RemotePrice} remote - The price in the account.
+ * @returns {PriceChanges} The attributes that differ, with their desired values.
+ */
+const diffPrice = (
+  price: CatalogManifestPrice,
+  remote: RemotePrice
+): PriceChanges => {
+  const desired = priceAttributes(price);
+  const changed: PriceChanges = {};
+  (Object.keys(desired) as (keyof PriceChanges)[]).forEach(key => {
+    // One-time prices report an interval count of 0 or null
+    if (desired.chargeType === 'one_time' && key === 'billingIntervalCount') {
+      return;
+    }
+    if ((remote[key] ?? '') !== desired[key]) {
+      Object.assign(changed, {[key]: desired[key]});
+    }
+  });
+  return changed;
+};
+
+/**
+ * Checks whether a price returned for a created product is one the create
+ * request asked for. Nothing guarantees that the API returns the prices in
+ * the requested order, so they are matched by their attributes.
+ *
+ * @param {PriceChanges} requested - A price of the create request.
+ * @param {CreatedPrice} created - A price of the created product.
+ * @returns {boolean} Whether the charge type, amount, currency and, when the created price reports it, the billing interval match.
+ */
+const isRequestedPrice = (
+  requested: PriceChanges,
+  created: CreatedPrice
+): boolean =>
+  created.chargeType === requested.chargeType &&
+  created.amountInCents === requested.amountInCents &&
+  created.currency === requested.currency &&
+  (created.billingInterval === undefined ||
+    created.billingInterval === requested.billingInterval) &&
+  (created.billingIntervalCount === undefined ||
+    requested.chargeType === 'one_time' ||
+    created.billingIntervalCount === requested.billingIntervalCount);
+
+/**
+ * Builds the request that creates a manifest product.
+ *
+ * @param {CatalogManifestProduct} product - The product in the manifest.
+ * @returns {CatalogSyncAction} The create action.
+ */
+const planCreate = (product: CatalogManifestProduct): CatalogSyncAction => {
+  const fields = {
+    name: product.name,
+    ...(product.description !== undefined && {
+      description: product.description,
+    }),
+    ...(product.successUrl !== undefined && {successUrl: product.successUrl}),
+    ...(product.cancelUrl !== undefined && {cancelUrl: product.cancelUrl}),
+    ...(product.customTermsAndConditions !== undefined && {
+      customTermsAndConditions: product.customTermsAndConditions,
+    }),
+    phoneRequirement: product.phoneRequirement ?? 'none',
+    addressRequirement: product.addressRequirement ?? 'none',
+    billingInfoRequirement: product.billingInfoRequirement ?? 'none',
+  };
+  const metadata = syncedMetadata(product, {}, {});
+  const priceExternalIds = product.prices.map(price => price.externalId);
+  const prices = product.prices.map(priceAttributes);
+
+  if (product.prices[0].billingInterval) {
+    return {
+      type: 'create',
+      externalId: product.externalId,
+      request: {
+        product: {
+          ...fields,
+          pricesAttributes: prices.map(price => ({
+            currency: price.currency,
+            chargeType: 'recurring',
+            amountInCents: price.amountInCents,
+            billingInterval: price.billingInterval as 'month' | 'week' | 'year',
+            billingIntervalCount: price.billingIntervalCount,
+          })),
+        },
+        metadata,
+      },
+      priceExternalIds,
+    };
+  }
+
+  return {
+    type: 'create',
+    externalId: product.externalId,
+    request: {
+      ...fields,
+      pricesAttributes: prices.map(price => ({
+        currency: price.currency,
+        chargeType: 'one_time',
+        amountInCents: price.amountInCents,
+      })),
+      metadata,
+    },
+    priceExternalIds,
+  };
+};
+
+/**
+ * Compares a manifest product with its product in the account.
+ *
+ * Prices are matched by the external IDs recorded in the product metadata; a
+ * manifest price without a recorded ID adopts an unrecorded price with the
+ * same attributes. Prices of the account the manifest no longer lists are
+ * removed with `_destroy`.
+ *
+ * @param {CatalogManifestProduct} product - The product in the manifest.
+ * @param {GetProductResponse} remote - The product in the account.
+ * @param {CatalogSyncPlan} plan - The plan to add the update or conflicts to.
+ */
+const planUpdate = (
+  product: CatalogManifestProduct,
+  remote: GetProductResponse,
+  plan: CatalogSyncPlan
+): void => {
+  const request: UpdateProductRequest = {};
+  const changes: string[] = [];
+
+  PRODUCT_FIELDS.forEach(field => {
+    const value = product[field];
+    if (value !== undefined && value !== remote[field]) {
+      Object.assign(request, {[field]: value});
+      changes.push(
+        `${field}: ${JSON.stringify(remote[field] ?? null)} -> ${JSON.stringify(value)}`
+      );
+    }
+  });
+
+  const recorded = readPriceIds(remote.metadata);
+  const priceIds: Record<string, string> = {};
+  const unclaimed = remote.prices.filter(
+    price => !Object.values(recorded).includes(price.id)
+  );
+  const patches: PricePatch[] = [];
+
+  for (const price of product.prices) {
+    const desired = priceAttributes(price);
+    let match = remote.prices.find(
+      candidate => candidate.id === recorded[price.externalId]
+    );
+    if (!match) {
+      match = unclaimed.find(
+        candidate => Object.keys(diffPrice(price, candidate)).length === 0
+      );
+      if (match) {
+        unclaimed.splice(unclaimed.indexOf(match), 1);
+      }
+    }
+
+    if (!match) {
+      plan.conflicts.push({
+        externalId: product.externalId,
+        message:
+          `price ${price.externalId} (${desired.currency} ${desired.amountInCents}) ` +
+          'cannot be added to an existing product; create a new product or ' +
+          'change an existing price instead',
+      });
+      continue;
+    }
+
+    priceIds[price.externalId] = match.id;
+    const changed = diffPrice(price, match);
+    const keys = Object.keys(changed) as (keyof PriceChanges)[];
+    if (keys.length > 0) {
+      const current = match;
+      patches.push({id: match.id, ...changed});
+      changes.push(
+        `price ${price.externalId} (${match.id}): ` +
+          keys
+            .map(
+              key =>
+                `${key} ${JSON.stringify(current[key] ?? null)} -> ${JSON.stringify(changed[key])}`
+            )
+            .join(', ')
+      );
+    }
+  }
+
+  const kept = Object.values(priceIds);
+  remote.prices
+    .filter(price => !kept.includes(price.id))
+    .forEach(price => {
+      const externalId = Object.keys(recorded).find(
+        key => recorded[key] === price.id
+      );
+      patches.push({id: price.id, _destroy: true});
+      changes.push(
+        `price ${externalId ?? '(unmanaged)'} (${price.id}): remove`
+      );
+    });
+
+  if (patches.length > 0) {
+    request.pricesAttributes = patches;
+  }
+
+  const current = remote.metadata ?? {};
+  const metadata = syncedMetadata(product, current, priceIds);
+  if (!sameMetadata(current, metadata)) {
+    request.metadata = metadata;
+    changes.push('metadata: updated');
+  }
+
+  if (changes.length === 0) {
+    plan.unchanged.push(product.externalId);
+    return;
+  }
+  plan.actions.push({
+    type: 'update',
+    externalId: product.externalId,
+    productId: remote.id,
+    request,
+    changes,
+  });
+};
+
+/**
+ * Compares a catalog manifest with the products of the account and plans the
+ * creates and updates that make the account match it.
+ *
+ * Products are matched by the `external_id` key of their metadata. Products
+ * of the account that are not in the manifest are left untouched. Nothing is
+ * changed until the plan is passed to `applyCatalogSync`.
+ *
+ * @param {RecurrenteClient} client - The client of the account.
+ * @param {CatalogManifest} manifest - The desired catalog.
+ * @returns {Promise<CatalogSyncPlan>} The actions, conflicts and unchanged products.
+ * @throws {RecurrenteError} Throws an error if the products cannot be listed.
+ *
+ * @example
+ * const manifest = parseCatalogManifest(fs.readFileSync('catalog.yaml', 'utf8'));
+ * const plan = await planCatalogSync(client, manifest);
+ * console.log(formatCatalogSyncPlan(plan));
+ */
+export async function planCatalogSync(
+  client: RecurrenteClient,
+  manifest: CatalogManifest
+): Promise<CatalogSyncPlan> {
+  const plan: CatalogSyncPlan = {actions: [], conflicts: [], unchanged: []};
+  const remote = new Map<string, GetProductResponse[]>();
+
+  for (const product of await client.products.list().toArray()) {
+    const externalId = product.metadata?.[EXTERNAL_ID_KEY];
+    if (externalId !== undefined) {
+      remote.set(externalId, [...(remote.get(externalId) ?? []), product]);
+    }
+  }
+
+  for (const product of manifest.products) {
+    const matches = remote.get(product.externalId) ?? [];
+    if (matches.length > 1) {
+      plan.conflicts.push({
+        externalId: product.externalId,
+        message: `several products have this external ID: ${matches
+          .map(match => match.id)
+          .join(', ')}`,
+      });
+    } else if (matches.length === 1) {
+      planUpdate(product, matches[0], plan);
+    } else {
+      plan.actions.push(planCreate(product));
+    }
+  }
+
+  return plan;
+}
+
+/**
+ * Applies a catalog sync plan, one action at a time and in order.
+ *
+ * A created product is updated right after with the IDs of its prices, which
+ * are recorded in its metadata so later syncs can match them.
+ *
+ * @param {RecurrenteClient} client - The client of the account.
+ * @param {CatalogSyncPlan} plan - The plan returned by `planCatalogSync`.
+ * @returns {Promise<CatalogSyncResult>} The products created and updated.
+ * @throws {ValidationError} If the plan has conflicts; nothing is applied.
+ * @throws {RecurrenteError} Throws an error if a request fails; the actions before it stay applied.
+ */
+export async function applyCatalogSync(
+  client: RecurrenteClient,
+  plan: CatalogSyncPlan
+): Promise<CatalogSyncResult> {
+  if (plan.conflicts.length > 0) {
+    const errors: Record<string, string[]> = {};
+    plan.conflicts.forEach(({externalId, message}) => {
+      errors[externalId] = [...(errors[externalId] ?? []), message];
+    });
+    throw new ValidationError('The catalog sync plan has conflicts', errors);
+  }
+
+  const result: CatalogSyncResult = {created: {}, updated: {}};
+
+  for (const action of plan.actions) {
+    if (action.type === 'update') {
+      result.updated[action.externalId] = await client.updateProduct(
+        action.productId,
+        action.request
+      );
+      continue;
+    }
+
+    const {request} = action;
+    const created =
+      'product' in request
+        ? await client.createSubscription(request)
+        : await client.createProduct(request);
+    const requested: PriceChanges[] =
+      'product' in request
+        ? request.product.pricesAttributes
+        : request.pricesAttributes;
+
+    // A price left unmatched is adopted by its attributes on the next sync
+    const unclaimed: CreatedPrice[] = [...created.prices];
+    const priceIds: Record<string, string> = {};
+    action.priceExternalIds.forEach((externalId, index) => {
+      const match = unclaimed.find(price =>
+        isRequestedPrice(requested[index], price)
+      );
+      if (match) {
+        unclaimed.splice(unclaimed.indexOf(match), 1);
+        priceIds[externalId] = match.id;
+      }
+    });
+    result.created[action.externalId] = await client.updateProduct(created.id, {
+      metadata: {
+        ...created.metadata,
+        [PRICE_IDS_KEY]: JSON.stringify(priceIds),
+      },
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Describes a catalog sync plan for a dry run.
+ *
+ * @param {CatalogSyncPlan} plan - The plan returned by `planCatalogSync`.
+ * @returns {string} One line per product and change, and a summary.
+ */
+export function formatCatalogSyncPlan(plan: CatalogSyncPlan): string {
+  const lines: string[] = [];
+
+  for (const action of plan.actions) {
+    if (action.type === 'create') {
+      const prices = action.priceExternalIds.length;
+      lines.push(
+        `+ create ${action.externalId} (${prices} price${prices === 1 ? '' : 's'})`
+      );
+    } else {
+      lines.push(`~ update ${action.externalId} (${action.productId})`);
+      lines.push(...action.changes.map(change => `    ${change}`));
+    }
+  }
+  for (const {externalId, message} of plan.conflicts) {
+    lines.push(`! ${externalId}: ${message}`);
+  }
+
+  const creates = plan.actions.filter(action => action.type === 'create');
+  lines.push(
+    `${creates.length} to create, ${plan.actions.length - creates.length} to update, ` +
+      `${plan.unchanged.length} unchanged, ${plan.conflicts.length} conflict(s)`
+  );
+  return lines.join('\n');
+}
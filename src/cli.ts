@@ -0,0 +1,16 @@
+#!/usr/bin/env node
+import * as dotenv from 'dotenv';
+import {run} from './cli/index';
+
+// Credentials may also come from a .env file in the working directory
+dotenv.config();
+
+run(process.argv.slice(2)).then(
+  code => {
+    process.exitCode = code;
+  },
+  (error: unknown) => {
+    console.error(error);
+    process.exitCode = 1;
+  }
+);
@@ -0,0 +1,144 @@
+/**
+ * Thrown when the command line is invalid. The CLI prints the message with a
+ * hint to run `recurrente help`, and exits with status 2.
+ */
+export class CliUsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CliUsageError';
+  }
+}
+
+/**
+ * The command line, split into positional arguments and flags.
+ */
+export interface ParsedArgs {
+  /**
+   * The arguments that are not flags, in order (e.g., ['products', 'get', 'prod_123']).
+   */
+  positionals: string[];
+
+  /**
+   * The flags by long name, without dashes. Boolean flags are `true`.
+   */
+  flags: Record<string, string | true>;
+}
+
+/**
+ * Flags that take no value.
+ */
+const BOOLEAN_FLAGS = [
+  'help',
+  'version',
+  'yes',
+  'all',
+  'at-period-end',
+  'apply',
+];
+
+/**
+ * Short flags and the long flags they stand for.
+ */
+const SHORT_FLAGS: Record<string, string> = {
+  h: 'help',
+  o: 'output',
+  v: 'version',
+  y: 'yes',
+};
+
+/**
+ * Parses a command line. Flags are accepted anywhere, as `--name value`,
+ * `--name=value` or a short alias (`-o json`); `--` ends the flags.
+ *
+ * @param {string[]} argv - The arguments, without the node and script paths.
+ * @returns {ParsedArgs} The positional arguments and the flags.
+ * @throws {CliUsageError} If a flag that takes a value has none.
+ */
+export function parseArgs(argv: string[]): ParsedArgs {
+  const positionals: string[] = [];
+  const flags: Record<string, string | true> = {};
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+
+    if (arg === '--') {
+      positionals.push(...argv.slice(i + 1));
+      break;
+    }
+
+    const match = /^(?:--([^=]+)|-([a-zA-Z]))(?:=(.*))?$/.exec(arg);
+    if (!match) {
+      positionals.push(arg);
+      continue;
+    }
+
+    const name = match[1] ?? SHORT_FLAGS[match[2]] ?? match[2];
+    if (BOOLEAN_FLAGS.includes(name)) {
+      flags[name] = true;
+      continue;
+    }
+
+    const value = match[3] ?? argv[++i];
+    if (value === undefined) {
+      throw new CliUsageError(`Missing value for --${name}`);
+    }
+    flags[name] = value;
+  }
+
+  return {positionals, flags};
+}
+
+/**
+ * Reads a flag that takes a value.
+ *
+ * @param {ParsedArgs} args - The parsed command line.
+ * @param {string} name - The long name of the flag.
+ * @returns {string | undefined} The value, if the flag was given.
+ */
+export function stringFlag(args: ParsedArgs, name: string): string | undefined {
+  const value = args.flags[name];
+  return typeof value === 'string' ? value : undefined;
+}
+
+/**
+ * Reads a flag that takes a whole number.
+ *
+ * @param {ParsedArgs} args - The parsed command line.
+ * @param {string} name - The long name of the flag.
+ * @returns {number | undefined} The number, if the flag was given.
+ * @throws {CliUsageError} If the value is not a whole number.
+ */
+export function integerFlag(
+  args: ParsedArgs,
+  name: string
+): number | undefined {
+  const value = stringFlag(args, name);
+  if (value === undefined) {
+    return undefined;
+  }
+  if (!/^\d+$/.test(value)) {
+    throw new CliUsageError(`--${name} must be a whole number, got "${value}"`);
+  }
+  return Number(value);
+}
+
+/**
+ * Reads the positional argument at an index.
+ *
+ * @param {ParsedArgs} args - The parsed command line.
+ * @param {number} index - The index of the argument.
+ * @param {string} name - The name of the argument, for the error message.
+ * @returns {string} The argument.
+ * @throws {CliUsageError} If the argument is missing.
+ */
+export function requirePositional(
+  args: ParsedArgs,
+  index: number,
+  name: string
+): string {
+  const value = args.positionals[index];
+  if (value === undefined) {
+    throw new CliUsageError(`Missing <${name}>`);
+  }
+  return value;
+}
@@ -0,0 +1,131 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {RecurrenteClientConfig} from '../types/globals';
+import {ParsedArgs, CliUsageError, stringFlag} from './args';
+
+/**
+ * The credentials of an account, as stored in a profile.
+ */
+export interface CliProfile {
+  publicKey?: string;
+  secretKey?: string;
+  baseUrl?: string;
+}
+
+/**
+ * The default location of the profile file.
+ *
+ * @returns {string} `~/.recurrente/config.json`.
+ */
+export const defaultProfilePath = (): string =>
+  path.join(os.homedir(), '.recurrente', 'config.json');
+
+/**
+ * Reads a profile from the profile file, a JSON object of profiles keyed by
+ * name:
+ *
+ * ```json
+ * {
+ *   "default": {"publicKey": "pk_live_...", "secretKey": "sk_live_..."},
+ *   "staging": {"publicKey": "pk_test_...", "secretKey": "sk_test_..."}
+ * }
+ * ```
+ *
+ * @param {string} file - The path of the profile file.
+ * @param {string} name - The name of the profile.
+ * @param {boolean} required - Whether a missing file or profile is an error, as when the profile was named explicitly.
+ * @returns {CliProfile} The profile; empty if it is missing and not required.
+ * @throws {CliUsageError} If the file is not valid JSON, or a required profile is missing.
+ */
+const readProfile = (
+  file: string,
+  name: string,
+  required: boolean
+): CliProfile => {
+  let text: string;
+  try {
+    text = fs.readFileSync(file, 'utf8');
+  } catch (error: unknown) {
+    if (required) {
+      throw new CliUsageError(`Cannot read the profile file ${file}`);
+    }
+    return {};
+  }
+
+  let profiles: Record<string, CliProfile>;
+  try {
+    profiles = JSON.parse(text);
+  } catch (error: unknown) {
+    throw new CliUsageError(`The profile file ${file} is not valid JSON`);
+  }
+
+  const profile = profiles?.[name];
+  if (typeof profile !== 'object' || profile === null) {
+    if (required) {
+      throw new CliUsageError(`Unknown profile "${name}" in ${file}`);
+    }
+    return {};
+  }
+  return profile;
+};
+
+/**
+ * Resolves the credentials of the CLI. Each value is taken from the first
+ * source that sets it:
+ *
+ * 1. The `--public-key`, `--secret-key` and `--base-url` flags.
+ * 2. The `RECURRENTE_PUBLIC_KEY`, `RECURRENTE_SECRET_KEY` and
+ *    `RECURRENTE_BASE_URL` environment variables, which may come from a
+ *    `.env` file.
+ * 3. The profile named by `--profile` or `RECURRENTE_PROFILE` (`default`
+ *    otherwise) in the file named by `--config` or `RECURRENTE_CONFIG`
+ *    (`~/.recurrente/config.json` otherwise).
+ *
+ * A profile named with the `--profile` flag comes before the environment
+ * variables instead, so it can be picked for a single command.
+ *
+ * @param {ParsedArgs} args - The parsed command line.
+ * @param {Record<string, string | undefined>} env - The environment variables.
+ * @returns {RecurrenteClientConfig} The credentials and base URL.
+ * @throws {CliUsageError} If a key is missing, or a profile named explicitly cannot be read.
+ */
+export function resolveCredentials(
+  args: ParsedArgs,
+  env: Record<string, string | undefined>
+): RecurrenteClientConfig {
+  const profileFlag = stringFlag(args, 'profile');
+  const profileName = profileFlag ?? env.RECURRENTE_PROFILE;
+  const file =
+    stringFlag(args, 'config') ?? env.RECURRENTE_CONFIG ?? defaultProfilePath();
+  const profile = readProfile(
+    file,
+    profileName ?? 'default',
+    profileName !== undefined
+  );
+
+  const fromEnv: CliProfile = {
+    publicKey: env.RECURRENTE_PUBLIC_KEY,
+    secretKey: env.RECURRENTE_SECRET_KEY,
+    baseUrl: env.RECURRENTE_BASE_URL,
+  };
+  const [first, second] =
+    profileFlag !== undefined ? [profile, fromEnv] : [fromEnv, profile];
+
+  const publicKey =
+    stringFlag(args, 'public-key') ?? first.publicKey ?? second.publicKey;
+  const secretKey =
+    stringFlag(args, 'secret-key') ?? first.secretKey ?? second.secretKey;
+  const baseUrl =
+    stringFlag(args, 'base-url') ?? first.baseUrl ?? second.baseUrl;
+
+  if (!publicKey || !secretKey) {
+    throw new CliUsageError(
+      'Missing Recurrente credentials: use --public-key and --secret-key, ' +
+        'set RECURRENTE_PUBLIC_KEY and RECURRENTE_SECRET_KEY, ' +
+        `or add them to a profile in ${file}`
+    );
+  }
+
+  return {publicKey, secretKey, ...(baseUrl && {baseUrl})};
+}
@@ -0,0 +1,482 @@
+import fs from 'fs';
+import path from 'path';
+import {RecurrenteClient} from '../api/client';
+import {RecurrenteError, ValidationError} from '../api/errors';
+import {parseCatalogManifest} from '../catalog/manifest';
+import {
+  planCatalogSync,
+  applyCatalogSync,
+  formatCatalogSyncPlan,
+} from '../catalog/sync';
+import {
+  CreateProductRequest,
+  DeepPartial,
+  ProductSubscription,
+  RecurrenteWebhookEvent,
+  UpdateProductRequest,
+} from '../types/globals';
+import {toCamelCase} from '../utils/conversion';
+import {webhookEventDecoderOf} from '../utils/decoders';
+import {
+  ParsedArgs,
+  CliUsageError,
+  parseArgs,
+  stringFlag,
+  integerFlag,
+  requirePositional,
+} from './args';
+import {resolveCredentials} from './credentials';
+import {
+  OutputFormat,
+  formatProducts,
+  formatProduct,
+  formatSubscription,
+} from './output';
+import {
+  DEFAULT_LISTEN_PATH,
+  DEFAULT_LISTEN_PORT,
+  parseEventType,
+  resolveWebhookSecret,
+  startWebhookListener,
+  triggerWebhook,
+} from './webhooks';
+
+/**
+ * Where the CLI writes its output and reads its environment. Replaced in
+ * tests to capture the output.
+ */
+export interface CliIO {
+  /**
+   * Writes a line of output.
+   */
+  stdout(text: string): void;
+
+  /**
+   * Writes a line of diagnostics.
+   */
+  stderr(text: string): void;
+
+  /**
+   * The environment variables.
+   */
+  env: Record<string, string | undefined>;
+}
+
+/**
+ * The result of a command: the data printed with `--output json`, and its
+ * human-readable form.
+ */
+interface CommandResult {
+  data: unknown;
+  text: string;
+}
+
+/**
+ * What a command runs with. The client is created, and the credentials
+ * resolved, the first time it is used, so commands that do not call the API
+ * need no credentials.
+ */
+export interface CommandContext {
+  readonly client: RecurrenteClient;
+  readonly io: CliIO;
+  readonly output: OutputFormat;
+}
+
+/**
+ * A command. Commands that print as they run, such as `webhooks listen`,
+ * return nothing.
+ */
+export type Command = (
+  context: CommandContext,
+  args: ParsedArgs
+) => Promise<CommandResult | void>;
+
+export const USAGE = `Usage: recurrente <command> [options]
+
+Commands:
+  ping                           Check the credentials against the API
+  products list [--page <n>]     List products (--all walks every page)
+  products get <id>              Show a product and its prices
+  products create                Create a product (--file, --data or the flags below)
+  products update <id>           Update a product (--file, --data or --name)
+  products delete <id> --yes     Delete a product
+  subscriptions get <id>         Show a subscription
+  subscriptions cancel <id> --yes
+                                 Cancel a subscription now (--at-period-end to
+                                 cancel when the current period ends)
+  catalog sync <manifest>        Show the changes that make the products match a
+                                 YAML or JSON manifest (--apply to make them)
+  webhooks listen                Receive webhooks locally, verify their
+                                 signatures and print the events
+  webhooks trigger <event-type>  Send a signed sample event (e.g.,
+                                 payment_intent.succeeded) to a webhook URL
+
+Product options:
+  --file <path>                  Read the request body from a JSON file
+  --data <json>                  Read the request body from the argument
+  --name <name>                  The name of the product
+  --amount <cents>               The price in cents (e.g., 1000 for GTQ 10.00)
+  --currency <GTQ|USD>           The currency of the price (default: GTQ)
+  --interval <week|month|year>   Bill the price every interval (recurring)
+  --interval-count <n>           The number of intervals (default: 1)
+
+Webhook options:
+  --secret <whsec_...>           Signing secret (or RECURRENTE_SVIX_SIGNING_SECRET)
+  --port <n>                     Port to listen on (default: 4242)
+  --path <path>                  Path to listen on (default: /webhooks)
+  --forward-to <url>             Forward verified webhooks to this URL
+  --to <url>                     Where trigger sends the event
+                                 (default: http://127.0.0.1:4242/webhooks)
+  --file, --data                 Fields of the sample event to override
+
+Global options:
+  -o, --output <table|json>      Output format (default: table)
+  --public-key <key>             Public key (or RECURRENTE_PUBLIC_KEY)
+  --secret-key <key>             Secret key (or RECURRENTE_SECRET_KEY)
+  --base-url <url>               API base URL (or RECURRENTE_BASE_URL)
+  --profile <name>               Profile to use (or RECURRENTE_PROFILE)
+  --config <path>                Profile file (or RECURRENTE_CONFIG,
+                                 default: ~/.recurrente/config.json)
+  -h, --help                     Show this help
+  -v, --version                  Show the version of recurrente-js`;
+
+/**
+ * Reads the version of the package. The module sits two levels below the
+ * package root both in `src/cli` and in the compiled `dist/cli`.
+ *
+ * @returns {string} The version in package.json.
+ */
+const packageVersion = (): string =>
+  (
+    JSON.parse(
+      fs.readFileSync(path.join(__dirname, '..', '..', 'package.json'), 'utf8')
+    ) as {version: string}
+  ).version;
+
+/**
+ * Reads a JSON request body from `--file` or `--data`. Keys may be in
+ * camelCase or in the snake_case of the API, except in the opaque values of
+ * the body type, which are kept as given.
+ *
+ * @param {ParsedArgs} args - The parsed command line.
+ * @param {string} type - The name of the body type, such as `CreateProductRequest`.
+ * @returns {unknown} The body in camelCase, or undefined if neither flag was given.
+ * @throws {CliUsageError} If the file cannot be read or is not valid JSON.
+ */
+const readBody = (args: ParsedArgs, type: string): unknown => {
+  const file = stringFlag(args, 'file');
+  let text = stringFlag(args, 'data');
+
+  if (file !== undefined) {
+    try {
+      text = fs.readFileSync(file, 'utf8');
+    } catch (error: unknown) {
+      throw new CliUsageError(`Cannot read ${file}`);
+    }
+  }
+  if (text === undefined) {
+    return undefined;
+  }
+
+  try {
+    return toCamelCase(JSON.parse(text), {type});
+  } catch (error: unknown) {
+    throw new CliUsageError(`${file ?? '--data'} is not valid JSON`);
+  }
+};
+
+/**
+ * Builds the body of a new product from the product options.
+ *
+ * @param {ParsedArgs} args - The parsed command line.
+ * @returns {CreateProductRequest | ProductSubscription} A one-time product, or a subscription product with `--interval`.
+ * @throws {CliUsageError} If `--name` or `--amount` is missing.
+ */
+const productFromFlags = (
+  args: ParsedArgs
+): CreateProductRequest | ProductSubscription => {
+  const name = stringFlag(args, 'name');
+  const amountInCents = integerFlag(args, 'amount');
+  if (name === undefined || amountInCents === undefined) {
+    throw new CliUsageError(
+      'products create needs --file, --data, or --name and --amount'
+    );
+  }
+
+  const currency = (stringFlag(args, 'currency') ?? 'GTQ') as 'GTQ' | 'USD';
+  const interval = stringFlag(args, 'interval');
+
+  if (interval === undefined) {
+    return {
+      name,
+      pricesAttributes: [{currency, chargeType: 'one_time', amountInCents}],
+      phoneRequirement: 'none',
+      addressRequirement: 'none',
+      billingInfoRequirement: 'none',
+    };
+  }
+
+  return {
+    product: {
+      name,
+      pricesAttributes: [
+        {
+          currency,
+          chargeType: 'recurring',
+          amountInCents,
+          billingInterval: interval as 'week' | 'month' | 'year',
+          billingIntervalCount: integerFlag(args, 'interval-count') ?? 1,
+        },
+      ],
+    },
+  };
+};
+
+/**
+ * Refuses to run a destructive command without `--yes`.
+ *
+ * @param {ParsedArgs} args - The parsed command line.
+ * @param {string} action - What the command does, for the error message.
+ * @throws {CliUsageError} If `--yes` was not given.
+ */
+const confirm = (args: ParsedArgs, action: string): void => {
+  if (args.flags.yes !== true) {
+    throw new CliUsageError(`Pass --yes to ${action}`);
+  }
+};
+
+/**
+ * The commands, keyed by their words (e.g., 'products list').
+ */
+const COMMANDS: Record<string, Command> = {
+  ping: async ({client}) => {
+    const data = await client.test();
+    return {data, text: data.message};
+  },
+
+  'products list': async ({client}, args) => {
+    const data = args.flags.all
+      ? await client.products.list().toArray()
+      : await client.getAllProducts(integerFlag(args, 'page') ?? 1);
+    return {data, text: formatProducts(data)};
+  },
+
+  'products get': async ({client}, args) => {
+    const data = await client.getProduct(requirePositional(args, 2, 'id'));
+    return {data, text: formatProduct(data)};
+  },
+
+  'products create': async ({client}, args) => {
+    const body = (readBody(args, 'CreateProductRequest') ??
+      productFromFlags(args)) as CreateProductRequest | ProductSubscription;
+    const data =
+      'product' in body
+        ? await client.createSubscription(body)
+        : await client.createProduct(body);
+    return {data, text: formatProduct(data)};
+  },
+
+  'products update': async ({client}, args) => {
+    const id = requirePositional(args, 2, 'id');
+    const name = stringFlag(args, 'name');
+    const body = (readBody(args, 'UpdateProductRequest') ??
+      (name !== undefined && {name})) as UpdateProductRequest | false;
+    if (!body) {
+      throw new CliUsageError('products update needs --file, --data or --name');
+    }
+    const data = await client.updateProduct(id, body);
+    return {data, text: formatProduct(data)};
+  },
+
+  'products delete': async ({client}, args) => {
+    const id = requirePositional(args, 2, 'id');
+    confirm(args, `delete ${id}`);
+    const data = await client.deleteProduct(id);
+    return {data, text: data.message};
+  },
+
+  'subscriptions get': async ({client}, args) => {
+    const data = await client.getSubscription(requirePositional(args, 2, 'id'));
+    return {data, text: formatSubscription(data)};
+  },
+
+  'subscriptions cancel': async ({client}, args) => {
+    const id = requirePositional(args, 2, 'id');
+    confirm(args, `cancel ${id}`);
+
+    if (args.flags['at-period-end']) {
+      const data = await client.cancelAtPeriodEnd(id);
+      return {data, text: formatSubscription(data)};
+    }
+
+    const data = await client.cancelSubscription(id);
+    return {data, text: data.message};
+  },
+
+  'catalog sync': async ({client}, args) => {
+    const file = requirePositional(args, 2, 'manifest');
+    let text: string;
+    try {
+      text = fs.readFileSync(file, 'utf8');
+    } catch (error: unknown) {
+      throw new CliUsageError(`Cannot read ${file}`);
+    }
+    const manifest = parseCatalogManifest(
+      text,
+      path.extname(file) === '.json' ? 'json' : 'yaml'
+    );
+
+    const plan = await planCatalogSync(client, manifest);
+    if (!args.flags.apply) {
+      return {data: plan, text: formatCatalogSyncPlan(plan)};
+    }
+
+    const result = await applyCatalogSync(client, plan);
+    return {
+      data: {plan, result},
+      text: `${formatCatalogSyncPlan(plan)}\nApplied ${plan.actions.length} change(s)`,
+    };
+  },
+
+  'webhooks listen': async ({io, output}, args) => {
+    const forwardTo = stringFlag(args, 'forward-to');
+    const listener = await startWebhookListener(
+      {
+        secret: resolveWebhookSecret(args, io.env),
+        port: integerFlag(args, 'port'),
+        path: stringFlag(args, 'path'),
+        forwardTo,
+        output,
+      },
+      io
+    );
+    io.stderr(
+      `Listening for webhooks on ${listener.url}` +
+        (forwardTo ? `, forwarding to ${forwardTo}` : '') +
+        ' (Ctrl+C to stop)'
+    );
+
+    await new Promise<void>(resolve => process.once('SIGINT', resolve));
+    await listener.close();
+  },
+
+  'webhooks trigger': async ({io}, args) => {
+    const eventType = parseEventType(requirePositional(args, 2, 'event-type'));
+    const url =
+      stringFlag(args, 'to') ??
+      `http://127.0.0.1:${DEFAULT_LISTEN_PORT}${DEFAULT_LISTEN_PATH}`;
+    const data = await triggerWebhook(
+      url,
+      eventType,
+      resolveWebhookSecret(args, io.env),
+      readBody(args, webhookEventDecoderOf(eventType).name) as
+        | DeepPartial<RecurrenteWebhookEvent>
+        | undefined
+    );
+
+    if (data.status < 200 || data.status >= 300) {
+      throw new Error(
+        `${url} rejected ${eventType} ${data.event.id} (HTTP ${data.status}): ${data.body}`
+      );
+    }
+    return {
+      data,
+      text: `Sent ${eventType} ${data.event.id} to ${url} (HTTP ${data.status})`,
+    };
+  },
+};
+
+/**
+ * Describes an error for the user, including the validation errors of the API.
+ *
+ * @param {unknown} error - The error.
+ * @returns {string} The description.
+ */
+const describeError = (error: unknown): string => {
+  if (error instanceof ValidationError) {
+    const fields = Object.keys(error.errors).map(
+      field => `  ${field}: ${error.errors[field].join(', ')}`
+    );
+    return [`Error: ${error.message}`, ...fields].join('\n');
+  }
+  if (error instanceof RecurrenteError && error.status !== undefined) {
+    return `Error: ${error.message} (HTTP ${error.status})`;
+  }
+  return `Error: ${error instanceof Error ? error.message : String(error)}`;
+};
+
+/**
+ * Runs the `recurrente` command line tool.
+ *
+ * @param {string[]} argv - The arguments, without the node and script paths.
+ * @param {CliIO} [io] - Where to write the output and read the environment.
+ * @returns {Promise<number>} The exit status: 0 on success, 1 if the request failed, 2 for invalid usage.
+ *
+ * @example
+ * run(['products', 'list', '--output', 'json']).then(code => {
+ *   process.exitCode = code;
+ * });
+ */
+export async function run(
+  argv: string[],
+  io: CliIO = {
+    stdout: text => console.log(text),
+    stderr: text => console.error(text),
+    env: process.env,
+  }
+): Promise<number> {
+  try {
+    const args = parseArgs(argv);
+    const [group, action] = args.positionals;
+
+    if (args.flags.version) {
+      io.stdout(packageVersion());
+      return 0;
+    }
+
+    if (args.flags.help || group === undefined || group === 'help') {
+      io.stdout(USAGE);
+      return 0;
+    }
+
+    const command = COMMANDS[group] ?? COMMANDS[`${group} ${action}`];
+    if (!command) {
+      throw new CliUsageError(
+        `Unknown command: ${args.positionals.slice(0, 2).join(' ')}`
+      );
+    }
+
+    const output = stringFlag(args, 'output') ?? 'table';
+    if (output !== 'table' && output !== 'json') {
+      throw new CliUsageError('--output must be table or json');
+    }
+
+    let client: RecurrenteClient | undefined;
+    const context: CommandContext = {
+      get client() {
+        client ??= new RecurrenteClient({
+          ...resolveCredentials(args, io.env),
+          logger: {warn: message => io.stderr(`Warning: ${message}`)},
+        });
+        return client;
+      },
+      io,
+      output,
+    };
+
+    const result = await command(context, args);
+    if (result) {
+      io.stdout(
+        output === 'json' ? JSON.stringify(result.data, null, 2) : result.text
+      );
+    }
+    return 0;
+  } catch (error: unknown) {
+    if (error instanceof CliUsageError) {
+      io.stderr(`${error.message}\nRun "recurrente help" for usage.`);
+      return 2;
+    }
+    io.stderr(describeError(error));
+    return 1;
+  }
+}
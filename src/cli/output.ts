@@ -0,0 +1,155 @@
+import {GetProductResponse, SubscriptionStatusResponse} from '../types/globals';
+
+/**
+ * The output formats of the CLI.
+ */
+export type OutputFormat = 'table' | 'json';
+
+/**
+ * A price of a product, as returned by any product endpoint. The responses
+ * of one-time products omit the billing interval.
+ */
+type Price = Pick<
+  GetProductResponse['prices'][number],
+  'id' | 'amountInCents' | 'currency' | 'chargeType'
+> &
+  Partial<
+    Pick<
+      GetProductResponse['prices'][number],
+      'billingInterval' | 'billingIntervalCount'
+    >
+  >;
+
+/**
+ * A product, as returned by any product endpoint.
+ */
+type Product = Pick<GetProductResponse, 'id' | 'name'> & {
+  status?: string;
+  storefrontLink?: string;
+  metadata?: Record<string, string>;
+  prices?: Price[];
+};
+
+/**
+ * Formats rows as a table with a header, padding each column to its widest
+ * cell.
+ *
+ * @param {string[]} headers - The column headers.
+ * @param {string[][]} rows - The cells of each row.
+ * @returns {string} The table, one line per row.
+ */
+export function formatTable(headers: string[], rows: string[][]): string {
+  const widths = headers.map((header, column) =>
+    Math.max(header.length, ...rows.map(row => (row[column] ?? '').length))
+  );
+  const line = (cells: string[]) =>
+    cells
+      .map((cell, column) => cell.padEnd(widths[column]))
+      .join('  ')
+      .trimEnd();
+
+  return [line(headers), ...rows.map(line)].join('\n');
+}
+
+/**
+ * Formats labeled values as aligned `label  value` lines.
+ *
+ * @param {[string, string][]} entries - The labels and their values.
+ * @returns {string} The lines.
+ */
+export function formatDetails(entries: [string, string][]): string {
+  const width = Math.max(...entries.map(([label]) => label.length));
+  return entries
+    .map(([label, value]) => `${label.padEnd(width)}  ${value}`)
+    .join('\n');
+}
+
+/**
+ * Formats a price as its amount and, for recurring prices, its interval
+ * (e.g., 'GTQ 10.00' or 'GTQ 5.00 every 1 month').
+ *
+ * @param {Price} price - The price.
+ * @returns {string} The formatted price.
+ */
+export function formatPrice(price: Price): string {
+  const amount = `${price.currency} ${(price.amountInCents / 100).toFixed(2)}`;
+  return price.chargeType === 'recurring' && price.billingInterval
+    ? `${amount} every ${price.billingIntervalCount} ${price.billingInterval}`
+    : amount;
+}
+
+/**
+ * Formats products as a table.
+ *
+ * @param {Product[]} products - The products.
+ * @returns {string} The table.
+ */
+export function formatProducts(products: Product[]): string {
+  if (products.length === 0) {
+    return 'No products found';
+  }
+
+  return formatTable(
+    ['ID', 'NAME', 'STATUS', 'PRICES'],
+    products.map(product => [
+      product.id,
+      product.name,
+      product.status ?? '',
+      (product.prices ?? []).map(formatPrice).join(', '),
+    ])
+  );
+}
+
+/**
+ * Formats the details of a product and a table of its prices.
+ *
+ * @param {Product} product - The product.
+ * @returns {string} The details.
+ */
+export function formatProduct(product: Product): string {
+  const details = formatDetails([
+    ['ID', product.id],
+    ['Name', product.name],
+    ['Status', product.status ?? ''],
+    ['Storefront', product.storefrontLink ?? ''],
+    ...(product.metadata
+      ? ([['Metadata', JSON.stringify(product.metadata)]] as [string, string][])
+      : []),
+  ]);
+  const prices = formatTable(
+    ['PRICE ID', 'PRICE', 'CHARGE TYPE'],
+    (product.prices ?? []).map(price => [
+      price.id,
+      formatPrice(price),
+      price.chargeType,
+    ])
+  );
+
+  return `${details}\n\n${prices}`;
+}
+
+/**
+ * Formats the details of a subscription.
+ *
+ * @param {SubscriptionStatusResponse} subscription - The subscription.
+ * @returns {string} The details.
+ */
+export function formatSubscription(
+  subscription: SubscriptionStatusResponse
+): string {
+  return formatDetails([
+    ['ID', subscription.id],
+    ['Status', subscription.status],
+    ['Description', subscription.description],
+    ['Product', subscription.product.id],
+    [
+      'Subscriber',
+      `${subscription.subscriber.fullName} <${subscription.subscriber.email}>`,
+    ],
+    [
+      'Current period',
+      `${subscription.currentPeriodStart} - ${subscription.currentPeriodEnd}`,
+    ],
+    ['Cancel at period end', subscription.cancelAtPeriodEnd ? 'yes' : 'no'],
+  ]);
+}
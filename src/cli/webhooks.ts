@@ -0,0 +1,317 @@
+import axios from 'axios';
+import http, {IncomingMessage} from 'http';
+import {AddressInfo} from 'net';
+import {verifySvixSignature} from '../api/recurrente-webhooks';
+import {
+  RecurrenteWebhookEvent,
+  WebhookEvent,
+  WebhookEventType,
+  DeepPartial,
+  WebhookEventForPattern,
+} from '../types/globals';
+import {
+  createSignedWebhook,
+  webhookEventTypes,
+} from '../utils/webhook-fixtures';
+import {isKnownWebhookEvent} from '../utils/decoders';
+import {ParsedArgs, CliUsageError, stringFlag} from './args';
+import type {CliIO} from './index';
+import {OutputFormat} from './output';
+
+/**
+ * The default address of `webhooks listen`, also the default target of
+ * `webhooks trigger`.
+ */
+export const DEFAULT_LISTEN_PORT = 4242;
+export const DEFAULT_LISTEN_PATH = '/webhooks';
+
+/**
+ * Options of `startWebhookListener`.
+ */
+export interface WebhookListenerOptions {
+  /**
+   * The signing secret used to verify the deliveries.
+   */
+  secret: string;
+
+  /**
+   * The port to listen on; 0 picks a free port. Defaults to 4242.
+   */
+  port?: number;
+
+  /**
+   * The interface to listen on. Defaults to '127.0.0.1'.
+   */
+  host?: string;
+
+  /**
+   * The path that receives the webhooks. Defaults to '/webhooks'.
+   */
+  path?: string;
+
+  /**
+   * A URL that receives every verified delivery, with its original body and
+   * signature headers.
+   */
+  forwardTo?: string;
+
+  /**
+   * How the events are printed: a summary line and the indented event, or
+   * one JSON object per line.
+   */
+  output?: OutputFormat;
+}
+
+/**
+ * A running webhook listener.
+ */
+export interface WebhookListener {
+  /**
+   * The URL that receives the webhooks.
+   */
+  url: string;
+
+  /**
+   * Stops listening.
+   */
+  close(): Promise<void>;
+}
+
+/**
+ * Reads the body of a request.
+ *
+ * @param {IncomingMessage} request - The request to read.
+ * @returns {Promise<string>} The body, decoded as UTF-8.
+ */
+const readBody = (request: IncomingMessage): Promise<string> =>
+  new Promise((resolve, reject) => {
+    let body = '';
+    request.setEncoding('utf8');
+    request.on('data', (chunk: string) => (body += chunk));
+    request.on('end', () => resolve(body));
+    request.on('error', reject);
+  });
+
+/**
+ * Keeps the signature headers of a delivery, to forward them unchanged.
+ *
+ * @param {IncomingMessage['headers']} headers - The request headers.
+ * @returns {Record<string, string>} The `svix-*` and `webhook-*` headers.
+ */
+const signatureHeaders = (
+  headers: IncomingMessage['headers']
+): Record<string, string> => {
+  const kept: Record<string, string> = {};
+  Object.keys(headers).forEach(name => {
+    const value = headers[name];
+    if (/^(svix|webhook)-/.test(name) && typeof value === 'string') {
+      kept[name] = value;
+    }
+  });
+  return kept;
+};
+
+/**
+ * Formats a verified event for the terminal. Events of a type unknown to this
+ * version of the library are printed too, flagged in the summary line.
+ *
+ * @param {WebhookEvent} event - The event.
+ * @param {OutputFormat} output - The output format.
+ * @returns {string} The event.
+ */
+const formatEvent = (event: WebhookEvent, output: OutputFormat): string => {
+  if (output === 'json') {
+    return JSON.stringify(event);
+  }
+
+  const body = JSON.stringify(event, null, 2)
+    .split('\n')
+    .map(line => `  ${line}`)
+    .join('\n');
+  const unknown = isKnownWebhookEvent(event) ? '' : '  (unknown event type)';
+  return `${new Date().toISOString()}  ${event.eventType}  ${event.id}${unknown}\n${body}`;
+};
+
+/**
+ * Starts a local endpoint that verifies incoming Svix signatures, prints the
+ * decoded events and optionally forwards them to another URL.
+ *
+ * Verified deliveries are answered with 200, or with the status returned by
+ * `forwardTo` (502 if it cannot be reached), so the sender sees what the
+ * application would answer. Rejected deliveries are answered with 400.
+ *
+ * @param {WebhookListenerOptions} options - The secret, address, forwarding URL and output format.
+ * @param {CliIO} io - Where to print the events and errors.
+ * @returns {Promise<WebhookListener>} The running listener.
+ *
+ * @example
+ * const listener = await startWebhookListener({
+ *   secret: 'whsec_...',
+ *   forwardTo: 'http://localhost:3000/webhooks/recurrente',
+ * }, io);
+ */
+export async function startWebhookListener(
+  options: WebhookListenerOptions,
+  io: CliIO
+): Promise<WebhookListener> {
+  const {
+    secret,
+    port = DEFAULT_LISTEN_PORT,
+    host = '127.0.0.1',
+    path = DEFAULT_LISTEN_PATH,
+    forwardTo,
+    output = 'table',
+  } = options;
+
+  const respond = (
+    response: http.ServerResponse,
+    status: number,
+    body: unknown
+  ) => {
+    response.statusCode = status;
+    response.setHeader('Content-Type', 'application/json');
+    response.end(JSON.stringify(body));
+  };
+
+  const server = http.createServer(async (request, response) => {
+    if ((request.url || '').split('?')[0] !== path) {
+      respond(response, 404, {error: 'Not found'});
+      return;
+    }
+    if (request.method !== 'POST') {
+      respond(response, 405, {error: 'Method not allowed'});
+      return;
+    }
+
+    let payload: string;
+    let event: WebhookEvent;
+    try {
+      payload = await readBody(request);
+      event = verifySvixSignature(payload, request.headers, {
+        secret,
+        logger: {warn: message => io.stderr(`Warning: ${message}`)},
+      });
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : String(error);
+      io.stderr(`Rejected delivery: ${message}`);
+      respond(response, 400, {error: message});
+      return;
+    }
+
+    io.stdout(formatEvent(event, output));
+
+    if (!forwardTo) {
+      respond(response, 200, {received: true});
+      return;
+    }
+
+    try {
+      const forwarded = await axios.post(forwardTo, payload, {
+        headers: {
+          ...signatureHeaders(request.headers),
+          'Content-Type': 'application/json',
+        },
+        transformRequest: [data => data],
+        transformResponse: [data => data],
+        validateStatus: () => true,
+      });
+      io.stderr(`Forwarded to ${forwardTo}: ${forwarded.status}`);
+      response.statusCode = forwarded.status;
+      const contentType = forwarded.headers['content-type'];
+      if (contentType) {
+        response.setHeader('Content-Type', String(contentType));
+      }
+      response.end(forwarded.data);
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : String(error);
+      io.stderr(`Could not forward to ${forwardTo}: ${message}`);
+      respond(response, 502, {error: 'Could not forward the webhook'});
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, host, resolve);
+  });
+
+  const address = server.address() as AddressInfo;
+  return {
+    url: `http://${host}:${address.port}${path}`,
+    close: () =>
+      new Promise<void>(resolve => {
+        server.close(() => resolve());
+        server.closeAllConnections();
+      }),
+  };
+}
+
+/**
+ * Checks that an event type is known.
+ *
+ * @param {string} eventType - The event type given on the command line.
+ * @returns {WebhookEventType} The event type.
+ * @throws {CliUsageError} If the event type is unknown, listing the known ones.
+ */
+export function parseEventType(eventType: string): WebhookEventType {
+  if (!(webhookEventTypes as string[]).includes(eventType)) {
+    throw new CliUsageError(
+      `Unknown event type: ${eventType}. Use one of: ${webhookEventTypes.join(', ')}`
+    );
+  }
+  return eventType as WebhookEventType;
+}
+
+/**
+ * Sends a signed fixture event to a URL, as Recurrente would.
+ *
+ * @param {string} url - The webhook URL of the application.
+ * @param {WebhookEventType} eventType - The type of the event.
+ * @param {string} secret - The signing secret.
+ * @param {DeepPartial<RecurrenteWebhookEvent>} [overrides] - Fields of the fixture event to override.
+ * @returns {Promise<{event: RecurrenteWebhookEvent, status: number, body: string}>} The event sent and the response.
+ */
+export async function triggerWebhook(
+  url: string,
+  eventType: WebhookEventType,
+  secret: string,
+  overrides?: DeepPartial<RecurrenteWebhookEvent>
+): Promise<{event: RecurrenteWebhookEvent; status: number; body: string}> {
+  const {event, payload, headers} = createSignedWebhook(eventType, {
+    secret,
+    overrides: overrides as DeepPartial<
+      WebhookEventForPattern<typeof eventType>
+    >,
+  });
+
+  const response = await axios.post(url, payload, {
+    headers: {...headers, 'Content-Type': 'application/json'},
+    transformRequest: [data => data],
+    transformResponse: [data => data],
+    validateStatus: () => true,
+  });
+
+  return {event, status: response.status, body: String(response.data ?? '')};
+}
+
+/**
+ * Resolves the signing secret of the webhook commands, from `--secret` or the
+ * `RECURRENTE_SVIX_SIGNING_SECRET` environment variable.
+ *
+ * @param {ParsedArgs} args - The parsed command line.
+ * @param {Record<string, string | undefined>} env - The environment variables.
+ * @returns {string} The signing secret.
+ * @throws {CliUsageError} If neither sets it.
+ */
+export function resolveWebhookSecret(
+  args: ParsedArgs,
+  env: Record<string, string | undefined>
+): string {
+  const secret =
+    stringFlag(args, 'secret') ?? env.RECURRENTE_SVIX_SIGNING_SECRET;
+  if (!secret) {
+    throw new CliUsageError(
+      'Missing the webhook signing secret: use --secret or set RECURRENTE_SVIX_SIGNING_SECRET'
+    );
+  }
+  return secret;
+}
@@ -1,34 +1,90 @@
 import axios, {AxiosInstance} from 'axios';
 import * as dotenv from 'dotenv';
+import {RecurrenteClientConfig} from '../types/globals';
+import {applyRetryPolicy} from './retry';
+import {applyIdempotency} from './idempotency';
+import {applyDecoding} from './decoding';
 
-// Load environment variables from .env file
-dotenv.config();
+/**
+ * The base URL used when a client is created without an explicit `baseUrl`.
+ */
+export const DEFAULT_BASE_URL = 'https://app.recurrente.com';
 
-const baseURL = process.env.RECURRENTE_BASE_URL;
-const publicKey = process.env.RECURRENTE_PUBLIC_KEY;
-const secretKey = process.env.RECURRENTE_SECRET_KEY;
+/**
+ * Creates an Axios instance configured for a single Recurrente account.
+ *
+ * Every `RecurrenteClient` owns its own instance, so several merchant accounts
+ * can be used side by side from the same process. Idempotency key handling and,
+ * unless disabled, the retry policy are installed on the instance, and its
+ * responses are decoded with the configured decoding mode.
+ *
+ * @param {RecurrenteClientConfig} config - The credentials and transport options for the account.
+ * @returns {AxiosInstance} The configured Axios instance.
+ * @throws {Error} If the public or secret key is missing.
+ */
+export function createAxiosInstance(
+  config: RecurrenteClientConfig
+): AxiosInstance {
+  if (!config.publicKey) {
+    throw new Error('Missing Recurrente Public Key');
+  }
 
-if (!baseURL) {
-  throw new Error('Missing Recurrente base URL');
-}
+  if (!config.secretKey) {
+    throw new Error('Missing Recurrente Secret Key');
+  }
 
-if (!publicKey) {
-  throw new Error('Missing Recurrente Public Key');
-}
+  const baseURL = (config.baseUrl || DEFAULT_BASE_URL).replace(/\/+$/, '');
+
+  const instance = axios.create({
+    baseURL: `${baseURL}/api`,
+    timeout: config.timeout,
+    headers: {
+      ...config.headers,
+      'X-PUBLIC-KEY': config.publicKey,
+      'X-SECRET-KEY': config.secretKey,
+      'Content-Type': 'application/json',
+    },
+  });
+
+  applyIdempotency(instance, config.retry !== false);
+
+  if (config.retry !== false) {
+    applyRetryPolicy(instance, config.retry);
+  }
+
+  applyDecoding(instance, {mode: config.decoding, logger: config.logger});
 
-if (!secretKey) {
-  throw new Error('Missing Recurrente Secret Key');
+  return instance;
 }
 
-// Create an Axios instance with configuration
-const client: AxiosInstance = axios.create({
-  baseURL: `${baseURL}/api`,
-  headers: {
-    'X-PUBLIC-KEY': publicKey,
-    'X-SECRET-KEY': secretKey,
-    'Content-Type': 'application/json',
-  },
-});
-
-// Export the Axios instance for use in other parts of the package
-export default client;
+/**
+ * Builds a client configuration from environment variables.
+ *
+ * Loads the `.env` file (if any) and reads `RECURRENTE_BASE_URL`,
+ * `RECURRENTE_PUBLIC_KEY` and `RECURRENTE_SECRET_KEY`. This is only called when
+ * the env-based default client is explicitly requested, never at import time.
+ *
+ * @returns {RecurrenteClientConfig} The configuration read from the environment.
+ * @throws {Error} If the public or secret key is missing.
+ */
+export function loadConfigFromEnv(): RecurrenteClientConfig {
+  // Load environment variables from .env file
+  dotenv.config();
+
+  const publicKey = process.env.RECURRENTE_PUBLIC_KEY;
+  const secretKey = process.env.RECURRENTE_SECRET_KEY;
+
+  if (!publicKey) {
+    throw new Error('Missing Recurrente Public Key');
+  }
+
+  if (!secretKey) {
+    throw new Error('Missing Recurrente Secret Key');
+  }
+
+  return {
+    publicKey,
+    secretKey,
+    baseUrl: process.env.RECURRENTE_BASE_URL || DEFAULT_BASE_URL,
+  };
+}
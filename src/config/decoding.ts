@@ -0,0 +1,53 @@
+import {AxiosInstance, AxiosResponse} from 'axios';
+import {DecodingOptions} from '../types/globals';
+import {toCamelCase} from '../utils/conversion';
+import {Decoder, decode} from '../utils/decoders';
+
+/**
+ * The decoding options of each Axios instance created by the library.
+ */
+const instanceOptions = new WeakMap<AxiosInstance, DecodingOptions>();
+
+/**
+ * Sets the decoding mode and logger used for the responses of an Axios instance.
+ *
+ * @param {AxiosInstance} instance - The Axios instance to configure.
+ * @param {DecodingOptions} options - The decoding mode and logger.
+ */
+export function applyDecoding(
+  instance: AxiosInstance,
+  options: DecodingOptions
+): void {
+  instanceOptions.set(instance, options);
+}
+
+/**
+ * Converts a response body to camelCase, leaving the opaque values of the
+ * expected type untouched, and decodes it with the options of the instance
+ * that sent the request. Instances not created by the library decode
+ * leniently.
+ *
+ * @template T - The type of the decoded body.
+ * @param {AxiosInstance} client - The Axios instance that sent the request.
+ * @param {Decoder<T>} expected - The decoder of the expected body.
+ * @param {AxiosResponse} response - The response to decode.
+ * @returns {T} The camelCased body.
+ * @throws {DecodingError} In strict mode, if the body does not match.
+ */
+export function decodeResponse<T>(
+  client: AxiosInstance,
+  expected: Decoder<T>,
+  response: AxiosResponse
+): T {
+  return decode(
+    expected,
+    toCamelCase(response.data, {type: expected.name}),
+    instanceOptions.get(client),
+    {
+      status: response.status,
+      requestId: response.headers?.['x-request-id'] as string | undefined,
+      method: response.config?.method?.toUpperCase(),
+      path: response.config?.url,
+    }
+  );
+}
@@ -0,0 +1,129 @@
+import {randomUUID} from 'crypto';
+import {AxiosInstance, AxiosRequestConfig, AxiosResponse} from 'axios';
+import {RequestOptions} from '../types/globals';
+
+/**
+ * The header used to send idempotency keys to the API.
+ */
+export const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+
+/**
+ * HTTP methods that create or modify resources and accept an idempotency key.
+ */
+const MUTATING_METHODS = ['POST', 'PUT', 'PATCH', 'DELETE'];
+
+/**
+ * HTTP methods that are not naturally idempotent and receive a generated key
+ * when retries are enabled.
+ */
+const NON_IDEMPOTENT_METHODS = ['POST', 'PATCH'];
+
+/**
+ * How long a successful response is remembered for its idempotency key.
+ */
+const IDEMPOTENCY_TTL = 24 * 60 * 60 * 1000;
+
+/**
+ * Maximum number of responses remembered per client; the oldest are evicted first.
+ */
+const IDEMPOTENCY_CACHE_SIZE = 1000;
+
+/**
+ * The parts of a response replayed for a reused idempotency key. The request
+ * and configuration of the first call are not kept.
+ */
+type CachedResponse = Pick<
+  AxiosResponse,
+  'status' | 'statusText' | 'headers' | 'data'
+>;
+
+/**
+ * Builds the Axios request configuration for the given per-request options.
+ *
+ * @param {RequestOptions} [options] - The per-request options passed by the caller.
+ * @returns {AxiosRequestConfig} The matching Axios request configuration.
+ */
+export function toRequestConfig(
+  options: RequestOptions = {}
+): AxiosRequestConfig {
+  if (!options.idempotencyKey) {
+    return {};
+  }
+
+  return {headers: {[IDEMPOTENCY_KEY_HEADER]: options.idempotencyKey}};
+}
+
+/**
+ * Installs idempotency key handling on an Axios instance.
+ *
+ * When `autoGenerate` is set, POST and PATCH requests without a key get a random
+ * one, so they can be retried safely. Successful responses to requests carrying
+ * a key are remembered: sending the same key again for the same method and path
+ * returns the first response instead of reaching the API.
+ *
+ * @param {AxiosInstance} instance - The Axios instance to configure.
+ * @param {boolean} autoGenerate - Whether to generate keys for non-idempotent requests.
+ */
+export function applyIdempotency(
+  instance: AxiosInstance,
+  autoGenerate: boolean
+): void {
+  const responses = new Map<
+    string,
+    {response: CachedResponse; expiresAt: number}
+  >();
+
+  const cacheKey = (config: AxiosRequestConfig): string | undefined => {
+    const method = (config.method || 'get').toUpperCase();
+    const key = config.headers?.[IDEMPOTENCY_KEY_HEADER];
+
+    if (!key || !MUTATING_METHODS.includes(method)) {
+      return undefined;
+    }
+
+    return `${method} ${config.url} ${key}`;
+  };
+
+  instance.interceptors.request.use(config => {
+    const method = (config.method || 'get').toUpperCase();
+
+    if (
+      autoGenerate &&
+      NON_IDEMPOTENT_METHODS.includes(method) &&
+      !config.headers[IDEMPOTENCY_KEY_HEADER]
+    ) {
+      config.headers[IDEMPOTENCY_KEY_HEADER] = randomUUID();
+    }
+
+    const key = cacheKey(config);
+    const cached = key ? responses.get(key) : undefined;
+
+    if (key && cached) {
+      if (cached.expiresAt > Date.now()) {
+        // Short-circuit the request and replay the first response
+        config.adapter = async () => ({...cached.response, config});
+      } else {
+        responses.delete(key);
+      }
+    }
+
+    return config;
+  });
+
+  instance.interceptors.response.use(response => {
+    const key = cacheKey(response.config);
+
+    if (key && !responses.has(key)) {
+      if (responses.size >= IDEMPOTENCY_CACHE_SIZE) {
+        responses.delete(responses.keys().next().value as string);
+      }
+      const {status, statusText, headers, data} = response;
+      responses.set(key, {
+        response: {status, statusText, headers, data},
+        expiresAt: Date.now() + IDEMPOTENCY_TTL,
+      });
+    }
+
+    return response;
+  });
+}
@@ -0,0 +1,162 @@
+import axios, {
+  AxiosError,
+  AxiosInstance,
+  InternalAxiosRequestConfig,
+} from 'axios';
+import {RetryPolicy} from '../types/globals';
+import {parseRetryAfter} from '../api/errors';
+import {IDEMPOTENCY_KEY_HEADER} from './idempotency';
+
+/**
+ * The retry policy used when the client configuration does not override it.
+ */
+export const DEFAULT_RETRY_POLICY: Required<RetryPolicy> = {
+  maxAttempts: 3,
+  initialDelay: 500,
+  maxDelay: 8000,
+  backoffFactor: 2,
+  jitter: true,
+  retryableStatusCodes: [408, 429, 500, 502, 503, 504],
+  retryableMethods: ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'],
+  respectRetryAfter: true,
+};
+
+/**
+ * Request configuration extended with the number of attempts already made.
+ */
+interface RetryableRequestConfig extends InternalAxiosRequestConfig {
+  retryAttempt?: number;
+}
+
+/**
+ * Waits for the given number of milliseconds.
+ *
+ * @param {number} ms - The delay in milliseconds.
+ * @returns {Promise<void>} A promise that resolves after the delay.
+ */
+const sleep = (ms: number): Promise<void> =>
+  new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Determines whether a failed request may be sent again.
+ *
+ * Network failures and the configured status codes are considered transient.
+ * Requests using a method outside `retryableMethods` are only retried when they
+ * carry an `Idempotency-Key` header, so the API can deduplicate them.
+ *
+ * @param {AxiosError} error - The error raised by the failed attempt.
+ * @param {Required<RetryPolicy>} policy - The retry policy in effect.
+ * @returns {boolean} True if the request can be retried.
+ */
+function isRetryable(
+  error: AxiosError,
+  policy: Required<RetryPolicy>
+): boolean {
+  const config = error.config;
+  if (!config || axios.isCancel(error)) {
+    return false;
+  }
+
+  const method = (config.method || 'get').toUpperCase();
+  const idempotent =
+    policy.retryableMethods.includes(method) ||
+    Boolean(config.headers?.[IDEMPOTENCY_KEY_HEADER]);
+
+  if (!idempotent) {
+    return false;
+  }
+
+  if (!error.response) {
+    return true;
+  }
+
+  return policy.retryableStatusCodes.includes(error.response.status);
+}
+
+/**
+ * Reads the delay requested by the `Retry-After` header of a failed attempt.
+ *
+ * @param {AxiosError} error - The error raised by the failed attempt.
+ * @param {Required<RetryPolicy>} policy - The retry policy in effect.
+ * @returns {number | undefined} The delay in milliseconds, or undefined if none is requested or the policy ignores it.
+ */
+function requestedDelay(
+  error: AxiosError,
+  policy: Required<RetryPolicy>
+): number | undefined {
+  if (!policy.respectRetryAfter) {
+    return undefined;
+  }
+
+  const retryAfter = parseRetryAfter(error.response?.headers?.['retry-after']);
+  return retryAfter === undefined ? undefined : retryAfter * 1000;
+}
+
+/**
+ * Computes the delay before the next attempt. A delay requested by the API is
+ * honored as given, even when it is longer than the backoff.
+ *
+ * @param {number} attempt - The number of attempts already made (1 for the first retry).
+ * @param {number | undefined} requested - The delay requested by `Retry-After`, in milliseconds.
+ * @param {Required<RetryPolicy>} policy - The retry policy in effect.
+ * @returns {number} The delay in milliseconds.
+ */
+function computeDelay(
+  attempt: number,
+  requested: number | undefined,
+  policy: Required<RetryPolicy>
+): number {
+  const backoff = Math.min(
+    policy.maxDelay,
+    policy.initialDelay * Math.pow(policy.backoffFactor, attempt - 1)
+  );
+  const delay = policy.jitter ? Math.random() * backoff : backoff;
+
+  return requested === undefined ? delay : Math.max(delay, requested);
+}
+
+/**
+ * Installs the retry policy on an Axios instance.
+ *
+ * A response interceptor re-sends transient failures through the same instance
+ * until they succeed or `maxAttempts` is reached; the last error is then
+ * propagated unchanged. When the API asks to wait longer than `maxDelay`, the
+ * request is not retried and its error is propagated unchanged too, so the
+ * caller decides whether to wait that long: a 429 surfaces as a
+ * `RateLimitError` carrying `retryAfter`, a 5xx as a `ServerError`.
+ *
+ * @param {AxiosInstance} instance - The Axios instance to configure.
+ * @param {RetryPolicy} [retryPolicy] - Overrides for the default retry policy.
+ */
+export function applyRetryPolicy(
+  instance: AxiosInstance,
+  retryPolicy: RetryPolicy = {}
+): void {
+  const policy: Required<RetryPolicy> = {
+    ...DEFAULT_RETRY_POLICY,
+    ...retryPolicy,
+  };
+
+  instance.interceptors.response.use(undefined, async (error: unknown) => {
+    if (!axios.isAxiosError(error) || !error.config) {
+      throw error;
+    }
+
+    const config = error.config as RetryableRequestConfig;
+    const attempt = (config.retryAttempt || 0) + 1;
+
+    if (attempt >= policy.maxAttempts || !isRetryable(error, policy)) {
+      throw error;
+    }
+
+    const requested = requestedDelay(error, policy);
+    if (requested !== undefined && requested > policy.maxDelay) {
+      throw error;
+    }
+
+    await sleep(computeDelay(attempt, requested, policy));
+
+    config.retryAttempt = attempt;
+    return instance.request(config);
+  });
+}
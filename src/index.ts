@@ -1 +1,19 @@
-export {default as recurrente} from './api/recurrente';
+export {recurrente, RecurrenteClient, createClientFromEnv} from './api/client';
+export {
+  RecurrenteError,
+  AuthenticationError,
+  ValidationError,
+  NotFoundError,
+  RateLimitError,
+  ServerError,
+  NetworkError,
+  TimeoutError,
+  DecodingError,
+} from './api/errors';
+export {PaginatedList} from './utils/pagination';
+export {parseCatalogManifest} from './catalog/manifest';
+export {
+  planCatalogSync,
+  applyCatalogSync,
+  formatCatalogSyncPlan,
+} from './catalog/sync';
@@ -0,0 +1,735 @@
+import axios from 'axios';
+import http, {IncomingMessage, ServerResponse} from 'http';
+import {AddressInfo} from 'net';
+import querystring from 'querystring';
+import {
+  MockServerOptions,
+  MockFault,
+  MockRequest,
+  MockSubscriptionInput,
+  MockCheckoutInput,
+  MockCheckoutResult,
+  MockClockOptions,
+  MockWebhookDelivery,
+  SubscriptionStatusResponse,
+  RecurrenteClientConfig,
+  ErrorResponse,
+} from '../types/globals';
+import {toCamelCase, toSnakeCase} from '../utils/conversion';
+import {
+  serializeWebhookEvent,
+  signWebhookPayload,
+} from '../utils/webhook-fixtures';
+import {MockHttpError, MockState, MockStateChange} from './state';
+import {mockWebhookEvent} from './webhooks';
+
+/**
+ * The outcome of a request, before it is written to the response.
+ */
+interface MockResponse {
+  status: number;
+  body?: unknown;
+  headers?: Record<string, string>;
+}
+
+/**
+ * A route of the mock API: the method, the path pattern, its handler, which
+ * receives the path parameters and the request, with a camelCase body, and
+ * the type of the request body, if it has opaque values.
+ */
+type Route = [
+  string,
+  RegExp,
+  (params: string[], request: MockRequest) => MockResponse,
+  string?,
+];
+
+/**
+ * Waits for the given number of milliseconds.
+ *
+ * @param {number} ms - The delay in milliseconds.
+ * @returns {Promise<void>} A promise that resolves after the delay.
+ */
+const sleep = (ms: number): Promise<void> =>
+  new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Builds an error response in the format of the API.
+ *
+ * @param {number} status - The HTTP status code.
+ * @param {string} message - The error message.
+ * @param {Record<string, string[]>} [errors] - The validation errors, keyed by field.
+ * @returns {MockResponse} The response.
+ */
+const errorResponse = (
+  status: number,
+  message: string,
+  errors?: Record<string, string[]>
+): MockResponse => {
+  const body: ErrorResponse = {status: 'error', message};
+  if (errors) {
+    body.errors = errors;
+  }
+  return {status, body};
+};
+
+/**
+ * Reads the body of a request.
+ *
+ * @param {IncomingMessage} request - The request to read.
+ * @returns {Promise<string>} The body, decoded as UTF-8.
+ */
+const readBody = (request: IncomingMessage): Promise<string> =>
+  new Promise((resolve, reject) => {
+    let body = '';
+    request.setEncoding('utf8');
+    request.on('data', (chunk: string) => (body += chunk));
+    request.on('end', () => resolve(body));
+    request.on('error', reject);
+  });
+
+/**
+ * An in-process imitation of the Recurrente API, to exercise the client in
+ * tests without network access or credentials.
+ *
+ * It implements `/api/test`, `/api/products` and `/api/subscriptions` with
+ * in-memory state and snake_case payloads shaped like the real ones,
+ * validates request bodies, replays requests with a known `Idempotency-Key`,
+ * and can inject latency and failures (5xx, 429) to test retries and timeouts.
+ * Subscriptions start with `completeCheckout`, as they would when a customer
+ * pays, and renew with `advanceClock`. Like Recurrente, the server reports
+ * those changes with webhooks signed the way Svix does, sent to
+ * `webhooks.url`.
+ *
+ * @example
+ * const server = new MockRecurrenteServer();
+ * await server.start();
+ *
+ * const client = new RecurrenteClient(server.clientConfig());
+ * const product = await client.createProduct({...});
+ *
+ * server.injectFault({path: '/products', status: 503, times: 2});
+ *
+ * // Sends payment_intent.succeeded and subscription.create
+ * const {subscription} = await server.completeCheckout({priceId});
+ *
+ * await server.stop();
+ */
+export class MockRecurrenteServer {
+  /**
+   * The public key accepted by the server.
+   */
+  readonly publicKey: string;
+
+  /**
+   * The secret key accepted by the server.
+   */
+  readonly secretKey: string;
+
+  /**
+   * Every request received since the server started or was reset, in order.
+   */
+  readonly requests: MockRequest[] = [];
+
+  /**
+   * The secret used to sign the webhooks.
+   */
+  readonly webhookSecret: string;
+
+  /**
+   * Every webhook emitted since the server started or was reset, in order.
+   */
+  readonly webhooks: MockWebhookDelivery[] = [];
+
+  private state: MockState;
+  private faults: MockFault[] = [];
+  private replies = new Map<string, MockResponse>();
+  private server?: http.Server;
+  private requestCount = 0;
+  private eventCount = 0;
+  private deliveries: Promise<void> = Promise.resolve();
+  private readonly routes: Route[];
+
+  /**
+   * @param {MockServerOptions} [options] - The accepted credentials, latency and page size.
+   */
+  constructor(private readonly options: MockServerOptions = {}) {
+    this.publicKey = options.publicKey ?? 'pk_test_mock';
+    this.secretKey = options.secretKey ?? 'sk_test_mock';
+    this.webhookSecret =
+      options.webhooks?.secret ??
+      `whsec_${Buffer.from('recurrente-mock-secret').toString('base64')}`;
+    this.state = this.createState();
+    this.routes = this.createRoutes();
+  }
+
+  /**
+   * The base URL of the server, to use as the client `baseUrl`.
+   *
+   * @throws {Error} If the server is not started.
+   */
+  get url(): string {
+    const address = this.server?.address() as AddressInfo | null | undefined;
+    if (!address) {
+      throw new Error('The mock server is not started');
+    }
+    return `http://127.0.0.1:${address.port}`;
+  }
+
+  /**
+   * Starts listening on the loopback interface.
+   *
+   * @param {number} [port] - The port; a free port is chosen by default.
+   * @returns {Promise<string>} The base URL of the server.
+   */
+  async start(port = 0): Promise<string> {
+    if (!this.server) {
+      const server = http.createServer((request, response) => {
+        this.handle(request, response).catch(() => {
+          response.statusCode = 500;
+          response.end();
+        });
+      });
+      await new Promise<void>((resolve, reject) => {
+        server.once('error', reject);
+        server.listen(port, '127.0.0.1', resolve);
+      });
+      this.server = server;
+    }
+    return this.url;
+  }
+
+  /**
+   * Stops the server and closes its open connections.
+   *
+   * @returns {Promise<void>} Resolves once the server is closed.
+   */
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) {
+      return;
+    }
+    this.server = undefined;
+    await new Promise<void>(resolve => {
+      server.close(() => resolve());
+      server.closeAllConnections();
+    });
+  }
+
+  /**
+   * Builds the configuration of a client connected to this server.
+   *
+   * @returns {RecurrenteClientConfig} The credentials and base URL.
+   */
+  clientConfig(): RecurrenteClientConfig {
+    return {
+      publicKey: this.publicKey,
+      secretKey: this.secretKey,
+      baseUrl: this.url,
+    };
+  }
+
+  /**
+   * Clears the state and clock, the recorded requests and webhooks, and the
+   * pending faults.
+   *
+   * @returns {this} The server, for chaining.
+   */
+  reset(): this {
+    this.state = this.createState();
+    this.requests.length = 0;
+    this.webhooks.length = 0;
+    this.faults = [];
+    this.replies.clear();
+    return this;
+  }
+
+  /**
+   * Makes the next matching requests fail or respond slowly.
+   *
+   * @param {MockFault} fault - The requests affected and the failure to inject.
+   * @returns {this} The server, for chaining.
+   *
+   * @example
+   * // The next two product requests fail, then the API recovers
+   * server.injectFault({path: '/products', status: 503, times: 2});
+   *
+   * // Every request is rate limited
+   * server.injectFault({status: 429, retryAfter: 1, times: Infinity});
+   */
+  injectFault(fault: MockFault): this {
+    this.faults.push({...fault, times: fault.times ?? 1});
+    return this;
+  }
+
+  /**
+   * Removes the faults that were not used up.
+   *
+   * @returns {this} The server, for chaining.
+   */
+  clearFaults(): this {
+    this.faults = [];
+    return this;
+  }
+
+  /**
+   * Adds a subscription to a recurring price, as if a customer had paid its
+   * checkout, without sending webhooks. Use `completeCheckout` to receive them.
+   *
+   * @param {MockSubscriptionInput} input - The price, status and subscriber.
+   * @returns {SubscriptionStatusResponse} The subscription.
+   * @throws {Error} If the price does not exist or is not recurring.
+   */
+  addSubscription(input: MockSubscriptionInput): SubscriptionStatusResponse {
+    try {
+      return this.state.addSubscription(input);
+    } catch (error: unknown) {
+      if (error instanceof MockHttpError) {
+        throw new Error(
+          `Cannot add a subscription: ${input.priceId} is not a recurring price`
+        );
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Pays a checkout: charges the customer and, for recurring prices, starts a
+   * subscription. Sends `payment_intent.succeeded`, then `subscription.create`
+   * for subscriptions.
+   *
+   * @param {MockCheckoutInput} input - The price, customer and checkout metadata.
+   * @returns {Promise<MockCheckoutResult>} The checkout, payment and subscription, once the webhooks are delivered.
+   * @throws {Error} If the price does not exist.
+   *
+   * @example
+   * const {subscription} = await server.completeCheckout({
+   *   priceId: plan.prices[0].id,
+   *   subscriber: {email: 'ana@example.com'},
+   * });
+   */
+  async completeCheckout(
+    input: MockCheckoutInput
+  ): Promise<MockCheckoutResult> {
+    let result: MockCheckoutResult;
+    try {
+      result = this.state.completeCheckout(input);
+    } catch (error: unknown) {
+      if (error instanceof MockHttpError) {
+        throw new Error(
+          `Cannot complete a checkout: price ${input.priceId} does not exist`
+        );
+      }
+      throw error;
+    }
+
+    await this.flushWebhooks();
+    return result;
+  }
+
+  /**
+   * Moves the clock of the server forward, renewing the subscriptions whose
+   * period ends in the meantime. Each renewal sends `payment_intent.succeeded`
+   * or, with `declinePayments`, `payment_intent.failed` and
+   * `subscription.past_due` (or `subscription.cancel`, if it was already past
+   * due). Subscriptions set to cancel at the end of the period send
+   * `subscription.cancel`.
+   *
+   * @param {number} duration - The time to advance, in milliseconds.
+   * @param {MockClockOptions} [options] - Whether the renewal payments are declined.
+   * @returns {Promise<MockWebhookDelivery[]>} The webhooks sent, once delivered.
+   *
+   * @example
+   * // A month later, the renewal payment is declined
+   * await server.advanceClock(31 * 24 * 60 * 60 * 1000, {declinePayments: true});
+   */
+  async advanceClock(
+    duration: number,
+    options?: MockClockOptions
+  ): Promise<MockWebhookDelivery[]> {
+    const first = this.webhooks.length;
+    this.state.advanceClock(duration, options);
+
+    await this.flushWebhooks();
+    return this.webhooks.slice(first);
+  }
+
+  /**
+   * The current time of the server clock, moved forward by `advanceClock`.
+   *
+   * @returns {Date} The current time.
+   */
+  now(): Date {
+    return this.state.now();
+  }
+
+  /**
+   * Waits until every webhook emitted so far is delivered, including those
+   * that follow API requests, such as `subscription.cancel`.
+   *
+   * @returns {Promise<void>} Resolves once the deliveries finish, successfully or not.
+   */
+  async flushWebhooks(): Promise<void> {
+    let pending: Promise<void>;
+    do {
+      pending = this.deliveries;
+      await pending;
+    } while (pending !== this.deliveries);
+  }
+
+  /**
+   * Creates the state of the server, reporting its changes with webhooks.
+   *
+   * @returns {MockState} The empty state.
+   */
+  private createState(): MockState {
+    return new MockState(this.options.pageSize ?? 10, change =>
+      this.emit(change)
+    );
+  }
+
+  /**
+   * Builds, signs and records the webhook for a state change, and queues its
+   * delivery. Deliveries are sent one at a time, in order.
+   *
+   * @param {MockStateChange} change - The state change.
+   */
+  private emit(change: MockStateChange): void {
+    this.eventCount += 1;
+    const event = mockWebhookEvent(
+      change,
+      `evt_mock_${this.eventCount}`,
+      this.state.now()
+    );
+    const payload = serializeWebhookEvent(event);
+    const delivery: MockWebhookDelivery = {
+      event,
+      payload,
+      headers: signWebhookPayload(payload, {
+        secret: this.webhookSecret,
+        id: `msg_mock_${this.eventCount}`,
+      }),
+    };
+    this.webhooks.push(delivery);
+
+    const url = this.options.webhooks?.url;
+    if (url) {
+      this.deliveries = this.deliveries.then(() => this.deliver(url, delivery));
+    }
+  }
+
+  /**
+   * Sends a webhook, recording the status code or the error.
+   *
+   * @param {string} url - The webhook URL.
+   * @param {MockWebhookDelivery} delivery - The webhook.
+   * @returns {Promise<void>} Resolves once the delivery finishes.
+   */
+  private async deliver(
+    url: string,
+    delivery: MockWebhookDelivery
+  ): Promise<void> {
+    try {
+      const response = await axios.post(url, delivery.payload, {
+        headers: {...delivery.headers, 'Content-Type': 'application/json'},
+        transformRequest: [data => data],
+        validateStatus: () => true,
+      });
+      delivery.status = response.status;
+    } catch (error: unknown) {
+      delivery.error = error;
+    }
+  }
+
+  /**
+   * Takes the first fault matching a request, using it up.
+   *
+   * @param {MockRequest} request - The request.
+   * @returns {MockFault | undefined} The fault to apply, if any.
+   */
+  private takeFault(request: MockRequest): MockFault | undefined {
+    const fault = this.faults.find(
+      candidate =>
+        (!candidate.method ||
+          candidate.method.toUpperCase() === request.method) &&
+        (candidate.path === undefined ||
+          (typeof candidate.path === 'string'
+            ? request.path.startsWith(candidate.path)
+            : candidate.path.test(request.path)))
+    );
+
+    if (fault) {
+      fault.times = (fault.times as number) - 1;
+      if (fault.times <= 0) {
+        this.faults.splice(this.faults.indexOf(fault), 1);
+      }
+    }
+    return fault;
+  }
+
+  /**
+   * Handles a request: records it, applies latency and faults, checks the
+   * credentials, replays idempotent requests and routes the others.
+   *
+   * @param {IncomingMessage} incoming - The request.
+   * @param {ServerResponse} outgoing - The response.
+   */
+  private async handle(
+    incoming: IncomingMessage,
+    outgoing: ServerResponse
+  ): Promise<void> {
+    const [pathname, search = ''] = (incoming.url || '/').split('?');
+    const query: Record<string, string | string[]> = {};
+    const parsed = querystring.parse(search);
+    Object.keys(parsed).forEach(name => {
+      query[name] = parsed[name] as string | string[];
+    });
+
+    const text = await readBody(incoming);
+    const request: MockRequest = {
+      method: (incoming.method || 'GET').toUpperCase(),
+      path: pathname.replace(/^\/api/, '').replace(/\/+$/, '') || '/',
+      query,
+      headers: incoming.headers,
+      body: undefined,
+    };
+    this.requests.push(request);
+
+    let response: MockResponse;
+    try {
+      request.body = text ? JSON.parse(text) : undefined;
+      response = await this.respond(request, pathname);
+    } catch (error: unknown) {
+      if (!(error instanceof SyntaxError)) {
+        throw error;
+      }
+      response = errorResponse(400, 'Invalid JSON body');
+    }
+
+    this.requestCount += 1;
+    outgoing.statusCode = response.status;
+    outgoing.setHeader('X-Request-Id', `req_mock_${this.requestCount}`);
+    Object.keys(response.headers || {}).forEach(name =>
+      outgoing.setHeader(
+        name,
+        (response.headers as Record<string, string>)[name]
+      )
+    );
+
+    if (response.body === undefined) {
+      outgoing.end();
+      return;
+    }
+    outgoing.setHeader('Content-Type', 'application/json');
+    outgoing.end(JSON.stringify(response.body));
+  }
+
+  /**
+   * Computes the response to a parsed request.
+   *
+   * @param {MockRequest} request - The request.
+   * @param {string} pathname - The full path, including `/api`.
+   * @returns {Promise<MockResponse>} The response.
+   */
+  private async respond(
+    request: MockRequest,
+    pathname: string
+  ): Promise<MockResponse> {
+    const fault = this.takeFault(request);
+    const latency = (this.options.latency ?? 0) + (fault?.latency ?? 0);
+    if (latency > 0) {
+      await sleep(latency);
+    }
+
+    if (fault?.status !== undefined) {
+      return {
+        status: fault.status,
+        body: fault.body ?? errorResponse(fault.status, 'Injected fault').body,
+        headers:
+          fault.retryAfter === undefined
+            ? undefined
+            : {'Retry-After': String(fault.retryAfter)},
+      };
+    }
+
+    if (!pathname.startsWith('/api/')) {
+      return errorResponse(404, 'Not found');
+    }
+
+    if (
+      request.headers['x-public-key'] !== this.publicKey ||
+      request.headers['x-secret-key'] !== this.secretKey
+    ) {
+      return errorResponse(401, 'Invalid API credentials');
+    }
+
+    const key = request.headers['idempotency-key'];
+    const replayKey =
+      request.method !== 'GET' && typeof key === 'string'
+        ? `${request.method} ${request.path} ${key}`
+        : undefined;
+    const replay = replayKey && this.replies.get(replayKey);
+    if (replay) {
+      return replay;
+    }
+
+    const response = this.route(request);
+
+    if (replayKey && response.status < 500) {
+      this.replies.set(replayKey, response);
+    }
+    return response;
+  }
+
+  /**
+   * Runs the handler of the route matching a request.
+   *
+   * @param {MockRequest} request - The request.
+   * @returns {MockResponse} The response; 404 if no route matches.
+   */
+  private route(request: MockRequest): MockResponse {
+    for (const [method, pattern, handler, type] of this.routes) {
+      const match = method === request.method && pattern.exec(request.path);
+      if (match) {
+        try {
+          return handler(match.slice(1), {
+            ...request,
+            body: toCamelCase(request.body, {type}),
+          });
+        } catch (error: unknown) {
+          if (error instanceof MockHttpError) {
+            return errorResponse(error.status, error.message, error.errors);
+          }
+          throw error;
+        }
+      }
+    }
+
+    return errorResponse(404, 'Not found');
+  }
+
+  /**
+   * Defines the routes of the mock API.
+   *
+   * @returns {Route[]} The routes, in matching order.
+   */
+  private createRoutes(): Route[] {
+    const json = (
+      body: unknown,
+      type?: string,
+      status = 200
+    ): MockResponse => ({
+      status,
+      body: toSnakeCase(body, {type}),
+    });
+
+    return [
+      ['GET', /^\/test$/, () => json({message: 'Hello, Mock Merchant'})],
+
+      [
+        'POST',
+        /^\/products$/,
+        (params, {body}) => {
+          const {product, recurring} = this.state.createProduct(body);
+          return json(
+            recurring
+              ? product
+              : {
+                  ...product,
+                  prices: product.prices.map(price => ({
+                    id: price.id,
+                    amountInCents: price.amountInCents,
+                    currency: price.currency,
+                    chargeType: price.chargeType,
+                  })),
+                },
+            recurring ? 'CreateSubscriptionResponse' : 'CreateProductResponse',
+            201
+          );
+        },
+        'CreateProductRequest',
+      ],
+      [
+        'GET',
+        /^\/products$/,
+        (params, {query}) =>
+          json(
+            this.state.listProducts(Number(query.page ?? 1)),
+            'GetAllProductsResponse'
+          ),
+      ],
+      [
+        'GET',
+        /^\/products\/([^/]+)$/,
+        ([id]) => json(this.state.getProduct(id), 'GetProductResponse'),
+      ],
+      [
+        'PATCH',
+        /^\/products\/([^/]+)$/,
+        ([id], {body}) =>
+          json(this.state.updateProduct(id, body), 'GetProductResponse'),
+        'UpdateProductRequest',
+      ],
+      [
+        'DELETE',
+        /^\/products\/([^/]+)$/,
+        ([id]) => {
+          this.state.deleteProduct(id);
+          return {status: 204};
+        },
+      ],
+
+      [
+        'GET',
+        /^\/subscriptions$/,
+        (params, {query}) =>
+          json(
+            this.state.listSubscriptions(query),
+            'GetAllSubscriptionsResponse'
+          ),
+      ],
+      [
+        'GET',
+        /^\/subscriptions\/([^/]+)$/,
+        ([id]) =>
+          json(this.state.getSubscription(id), 'SubscriptionStatusResponse'),
+      ],
+      [
+        'PATCH',
+        /^\/subscriptions\/([^/]+)$/,
+        ([id], {body}) =>
+          json(
+            this.state.updateSubscription(id, body),
+            'SubscriptionStatusResponse'
+          ),
+      ],
+      [
+        'DELETE',
+        /^\/subscriptions\/([^/]+)$/,
+        ([id]) =>
+          json(this.state.cancelSubscription(id), 'SubscriptionStatusResponse'),
+      ],
+      [
+        'POST',
+        /^\/subscriptions\/([^/]+)\/pause$/,
+        ([id], {body}) =>
+          json(
+            this.state.pauseSubscription(id, body),
+            'SubscriptionStatusResponse'
+          ),
+      ],
+      [
+        'POST',
+        /^\/subscriptions\/([^/]+)\/resume$/,
+        ([id]) =>
+          json(this.state.resumeSubscription(id), 'SubscriptionStatusResponse'),
+      ],
+      [
+        'GET',
+        /^\/subscriptions\/([^/]+)\/proration_preview$/,
+        ([id], {query}) =>
+          json(this.state.previewPriceChange(id, toCamelCase(query))),
+      ],
+    ];
+  }
+}
@@ -0,0 +1,848 @@
+import {
+  CreateProductRequest,
+  ProductSubscription,
+  UpdateProductRequest,
+  GetProductResponse,
+  SubscriptionStatusResponse,
+  SubscriptionStatus,
+  ChangeSubscriptionPriceRequest,
+  PauseSubscriptionRequest,
+  ProrationPreview,
+  Customer,
+  MockSubscriptionInput,
+  MockCheckoutInput,
+  MockCheckoutResult,
+  MockClockOptions,
+} from '../types/globals';
+import {Schema, checkSchema, groupIssues} from '../utils/schema';
+import {
+  createProductRequestSchema,
+  updateProductRequestSchema,
+  productSubscriptionSchema,
+  pauseSubscriptionRequestSchema,
+  changeSubscriptionPriceRequestSchema,
+} from '../utils/validation';
+
+/**
+ * A price as stored by the mock server.
+ */
+type Price = GetProductResponse['prices'][number];
+
+/**
+ * A subscription as stored by the mock server, with the price it bills.
+ */
+interface SubscriptionRecord {
+  subscription: SubscriptionStatusResponse;
+  priceId: string;
+}
+
+/**
+ * A payment charged by the mock server, for a checkout or a renewal.
+ */
+export interface MockPayment {
+  id: string;
+  checkoutId: string;
+  productId: string;
+  amountInCents: number;
+  currency: string;
+  customer: Customer;
+  metadata: Record<string, string>;
+  createdAt: string;
+}
+
+/**
+ * A state change that Recurrente reports with a webhook event.
+ */
+export type MockStateChange =
+  | {
+      type: 'payment_intent.succeeded' | 'payment_intent.failed';
+      payment: MockPayment;
+    }
+  | {
+      type:
+        | 'subscription.create'
+        | 'subscription.past_due'
+        | 'subscription.paused'
+        | 'subscription.cancel';
+      subscription: SubscriptionStatusResponse;
+    };
+
+/**
+ * Thrown by the mock state to respond with an API error.
+ */
+export class MockHttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+    readonly errors?: Record<string, string[]>
+  ) {
+    super(message);
+    this.name = 'MockHttpError';
+  }
+}
+
+/**
+ * Converts the camelCase path of a validation issue to the snake_case field
+ * names used by the API (e.g., 'pricesAttributes[0].amountInCents').
+ *
+ * @param {Record<string, string[]>} errors - The errors keyed by camelCase path.
+ * @returns {Record<string, string[]>} The errors keyed by snake_case path.
+ */
+const snakeCaseErrors = (
+  errors: Record<string, string[]>
+): Record<string, string[]> => {
+  const converted: Record<string, string[]> = {};
+  for (const path of Object.keys(errors)) {
+    converted[path.replace(/([A-Z])/g, '_$1').toLowerCase()] = errors[path];
+  }
+  return converted;
+};
+
+/**
+ * Validates a request body like the API does, with the request schemas.
+ *
+ * @param {Schema} schema - The schema of the request.
+ * @param {unknown} body - The request body, in camelCase.
+ * @throws {MockHttpError} With status 422, if the body does not match the schema.
+ */
+const validate = (schema: Schema, body: unknown): void => {
+  const issues = checkSchema(schema, body);
+  if (issues.length > 0) {
+    throw new MockHttpError(
+      422,
+      'Validation failed',
+      snakeCaseErrors(groupIssues(issues))
+    );
+  }
+};
+
+/**
+ * Adds a billing interval to a date.
+ *
+ * @param {Date} date - The start of the period.
+ * @param {string} interval - 'week', 'month' or 'year'.
+ * @param {number} count - The number of intervals.
+ * @returns {Date} The end of the period.
+ */
+const addInterval = (date: Date, interval: string, count: number): Date => {
+  const end = new Date(date.getTime());
+  if (interval === 'week') {
+    end.setUTCDate(end.getUTCDate() + 7 * count);
+  } else if (interval === 'year') {
+    end.setUTCFullYear(end.getUTCFullYear() + count);
+  } else {
+    end.setUTCMonth(end.getUTCMonth() + count);
+  }
+  return end;
+};
+
+/**
+ * The in-memory products and subscriptions of a `MockRecurrenteServer`.
+ *
+ * Every method takes and returns camelCase objects; the server converts them
+ * from and to the snake_case wire format.
+ */
+export class MockState {
+  private products = new Map<string, GetProductResponse>();
+  private subscriptions = new Map<string, SubscriptionRecord>();
+  private customers = new Map<string, Customer>();
+  private sequence = 0;
+  private clockOffset = 0;
+  private stoppedAt?: number;
+
+  /**
+   * @param {number} pageSize - The number of items in each page of a list.
+   * @param {(change: MockStateChange) => void} [notify] - Receives every change reported with a webhook.
+   */
+  constructor(
+    private readonly pageSize: number,
+    private readonly notify: (change: MockStateChange) => void = () => {}
+  ) {}
+
+  /**
+   * The current time of the mock clock.
+   *
+   * @returns {Date} The real time, plus the time the clock was advanced; or
+   * the end of the period being renewed, while `advanceClock` renews it.
+   */
+  now(): Date {
+    return new Date(this.stoppedAt ?? Date.now() + this.clockOffset);
+  }
+
+  /**
+   * Generates the next ID with a prefix (e.g., 'prod_000001').
+   *
+   * @param {string} prefix - The prefix of the resource.
+   * @returns {string} The ID.
+   */
+  private nextId(prefix: string): string {
+    this.sequence += 1;
+    return `${prefix}_${String(this.sequence).padStart(6, '0')}`;
+  }
+
+  /**
+   * Returns one page of a list.
+   *
+   * @param {T[]} items - All the items.
+   * @param {number} page - The page number, starting at 1.
+   * @returns {T[]} The items of the page; empty past the last page.
+   */
+  private paginate<T>(items: T[], page: number): T[] {
+    const start = (Math.max(1, Math.floor(page) || 1) - 1) * this.pageSize;
+    return items.slice(start, start + this.pageSize);
+  }
+
+  /**
+   * Finds a price among every product.
+   *
+   * @param {string} priceId - The ID of the price.
+   * @returns {{product: GetProductResponse, price: Price} | undefined} The price and its product.
+   */
+  private findPrice(
+    priceId: string
+  ): {product: GetProductResponse; price: Price} | undefined {
+    for (const product of this.products.values()) {
+      const price = product.prices.find(candidate => candidate.id === priceId);
+      if (price) {
+        return {product, price};
+      }
+    }
+    return undefined;
+  }
+
+  private getProductRecord(productId: string): GetProductResponse {
+    const product = this.products.get(productId);
+    if (!product) {
+      throw new MockHttpError(404, 'Product not found');
+    }
+    return product;
+  }
+
+  private getSubscriptionRecord(subscriptionId: string): SubscriptionRecord {
+    const record = this.subscriptions.get(subscriptionId);
+    if (!record) {
+      throw new MockHttpError(404, 'Subscription not found');
+    }
+    return record;
+  }
+
+  /*
+
+  Products
+
+  */
+
+  /**
+   * Creates a product with one-time prices (`CreateProductRequest`) or, when
+   * the body is nested under `product`, recurring prices (`ProductSubscription`).
+   *
+   * @param {unknown} body - The request body.
+   * @returns {{product: GetProductResponse, recurring: boolean}} The product, and whether it has recurring prices.
+   */
+  createProduct(body: unknown): {
+    product: GetProductResponse;
+    recurring: boolean;
+  } {
+    const recurring =
+      typeof body === 'object' && body !== null && 'product' in body;
+    let attributes: CreateProductRequest | ProductSubscription['product'];
+    let metadata: Record<string, string> | undefined;
+
+    if (recurring) {
+      validate(productSubscriptionSchema, body);
+      attributes = (body as ProductSubscription).product;
+      metadata = (body as ProductSubscription).metadata;
+    } else {
+      validate(createProductRequestSchema, body);
+      attributes = body as CreateProductRequest;
+      metadata = attributes.metadata;
+    }
+
+    const id = this.nextId('prod');
+    const product: GetProductResponse = {
+      id,
+      status: 'active',
+      name: attributes.name,
+      ...(attributes.description !== undefined && {
+        description: attributes.description,
+      }),
+      successUrl: attributes.successUrl ?? '',
+      cancelUrl: attributes.cancelUrl ?? '',
+      ...(attributes.customTermsAndConditions !== undefined && {
+        customTermsAndConditions: attributes.customTermsAndConditions,
+      }),
+      phoneRequirement: attributes.phoneRequirement ?? 'none',
+      addressRequirement: attributes.addressRequirement ?? 'none',
+      billingInfoRequirement: attributes.billingInfoRequirement ?? 'none',
+      prices: attributes.pricesAttributes.map(price => ({
+        id: this.nextId('price'),
+        amountInCents: price.amountInCents,
+        currency: price.currency,
+        billingIntervalCount:
+          'billingIntervalCount' in price ? price.billingIntervalCount : 0,
+        billingInterval:
+          'billingInterval' in price ? price.billingInterval : '',
+        chargeType: price.chargeType,
+        ...('freeTrialInterval' in price &&
+          price.freeTrialInterval !== undefined && {
+            freeTrialInterval: price.freeTrialInterval,
+            freeTrialIntervalCount: price.freeTrialIntervalCount,
+          }),
+        ...('periodsBeforeAutomaticCancellation' in price &&
+          price.periodsBeforeAutomaticCancellation !== undefined && {
+            periodsBeforeAutomaticCancellation:
+              price.periodsBeforeAutomaticCancellation,
+          }),
+      })),
+      storefrontLink: `https://app.recurrente.com/s/mock/${id}`,
+      ...(metadata !== undefined && {metadata}),
+    };
+
+    this.products.set(id, product);
+    return {product, recurring};
+  }
+
+  getProduct(productId: string): GetProductResponse {
+    return this.getProductRecord(productId);
+  }
+
+  listProducts(page: number): GetProductResponse[] {
+    return this.paginate(Array.from(this.products.values()), page);
+  }
+
+  /**
+   * Updates a product. Prices with an `id` are updated, or removed with
+   * `_destroy` unless they are the last one, like the API does.
+   *
+   * @param {string} productId - The ID of the product.
+   * @param {unknown} body - The request body, optionally nested under `product`.
+   * @returns {GetProductResponse} The updated product.
+   */
+  updateProduct(productId: string, body: unknown): GetProductResponse {
+    const product = this.getProductRecord(productId);
+    const changes = (
+      typeof body === 'object' && body !== null && 'product' in body
+        ? (body as {product: unknown}).product
+        : body
+    ) as UpdateProductRequest;
+
+    validate(updateProductRequestSchema, changes);
+
+    const {pricesAttributes = [], ...fields} = changes;
+    const unknownPrices: Record<string, string[]> = {};
+    pricesAttributes.forEach((price, index) => {
+      if (!product.prices.some(candidate => candidate.id === price.id)) {
+        unknownPrices[`prices_attributes[${index}].id`] = [
+          'does not belong to the product',
+        ];
+      }
+    });
+    if (Object.keys(unknownPrices).length > 0) {
+      throw new MockHttpError(422, 'Validation failed', unknownPrices);
+    }
+
+    Object.assign(product, fields);
+
+    for (const {id, _destroy, ...priceFields} of pricesAttributes) {
+      const index = product.prices.findIndex(price => price.id === id);
+      if (_destroy) {
+        if (product.prices.length > 1) {
+          product.prices.splice(index, 1);
+        }
+      } else {
+        Object.assign(product.prices[index], priceFields);
+      }
+    }
+
+    return product;
+  }
+
+  deleteProduct(productId: string): void {
+    this.getProductRecord(productId);
+    this.products.delete(productId);
+  }
+
+  /*
+
+  Subscriptions
+
+  */
+
+  /**
+   * Finds a customer by email, or creates it.
+   *
+   * @param {{email?: string, fullName?: string}} [subscriber] - The email and name of the customer.
+   * @returns {Customer} The customer.
+   */
+  private customerFor(
+    subscriber: {email?: string; fullName?: string} = {}
+  ): Customer {
+    const email = subscriber.email ?? 'ana.lopez@example.com';
+    const existing = this.customers.get(email);
+    if (existing) {
+      return existing;
+    }
+
+    const fullName = subscriber.fullName ?? 'Ana López';
+    const [firstName, ...lastNames] = fullName.split(' ');
+    const customer: Customer = {
+      id: this.nextId('us'),
+      email,
+      fullName,
+      firstName,
+      lastName: lastNames.join(' '),
+      phoneNumber: null,
+      createdAt: this.now().toISOString(),
+    };
+    this.customers.set(email, customer);
+    return customer;
+  }
+
+  /**
+   * Finds a recurring price.
+   *
+   * @param {string} priceId - The ID of the price.
+   * @returns {{product: GetProductResponse, price: Price}} The price and its product.
+   * @throws {MockHttpError} If the price does not exist or is not recurring.
+   */
+  private findRecurringPrice(priceId: string): {
+    product: GetProductResponse;
+    price: Price;
+  } {
+    const found = this.findPrice(priceId);
+    if (!found || found.price.chargeType !== 'recurring') {
+      throw new MockHttpError(422, 'Validation failed', {
+        price_id: ['must be a recurring price'],
+      });
+    }
+    return found;
+  }
+
+  /**
+   * Starts a subscription to a recurring price.
+   *
+   * @param {{product: GetProductResponse, price: Price}} found - The price and its product.
+   * @param {Customer} subscriber - The customer.
+   * @param {SubscriptionStatus} status - The initial status.
+   * @param {string} checkoutId - The ID of the checkout that started it.
+   * @returns {SubscriptionStatusResponse} The subscription.
+   */
+  private startSubscription(
+    found: {product: GetProductResponse; price: Price},
+    subscriber: Customer,
+    status: SubscriptionStatus,
+    checkoutId: string
+  ): SubscriptionStatusResponse {
+    const now = this.now();
+    const id = this.nextId('su');
+    const subscription: SubscriptionStatusResponse = {
+      id,
+      description: found.product.name,
+      status,
+      createdAt: now.toISOString(),
+      updatedAt: now.toISOString(),
+      currentPeriodStart: now.toISOString(),
+      currentPeriodEnd: addInterval(
+        now,
+        found.price.billingInterval,
+        found.price.billingIntervalCount
+      ).toISOString(),
+      taxName: null,
+      taxId: null,
+      subscriber,
+      checkout: {id: checkoutId},
+      product: {id: found.product.id},
+      cancelAtPeriodEnd: false,
+      pausedAt: null,
+      resumesAt: null,
+    };
+
+    this.subscriptions.set(id, {subscription, priceId: found.price.id});
+    return subscription;
+  }
+
+  /**
+   * Records a payment and reports whether it succeeded.
+   *
+   * @param {{product: GetProductResponse, price: Price}} found - The price paid and its product.
+   * @param {Customer} customer - The customer who pays.
+   * @param {string} checkoutId - The ID of the checkout.
+   * @param {boolean} succeeded - Whether the payment goes through.
+   * @param {Record<string, string>} [metadata] - The metadata of the checkout.
+   * @returns {MockPayment} The payment.
+   */
+  private charge(
+    found: {product: GetProductResponse; price: Price},
+    customer: Customer,
+    checkoutId: string,
+    succeeded: boolean,
+    metadata: Record<string, string> = {}
+  ): MockPayment {
+    const payment: MockPayment = {
+      id: this.nextId('pa'),
+      checkoutId,
+      productId: found.product.id,
+      amountInCents: found.price.amountInCents,
+      currency: found.price.currency,
+      customer,
+      metadata,
+      createdAt: this.now().toISOString(),
+    };
+
+    this.notify({
+      type: succeeded ? 'payment_intent.succeeded' : 'payment_intent.failed',
+      payment,
+    });
+    return payment;
+  }
+
+  /**
+   * Creates a subscription to a recurring price, as if its checkout was paid,
+   * without reporting any change.
+   *
+   * @param {MockSubscriptionInput} input - The price, status and subscriber.
+   * @returns {SubscriptionStatusResponse} The subscription.
+   * @throws {MockHttpError} If the price does not exist or is not recurring.
+   */
+  addSubscription(input: MockSubscriptionInput): SubscriptionStatusResponse {
+    return this.startSubscription(
+      this.findRecurringPrice(input.priceId),
+      this.customerFor(input.subscriber),
+      input.status ?? 'active',
+      this.nextId('ch')
+    );
+  }
+
+  /**
+   * Pays a checkout for a price: charges the customer and, for recurring
+   * prices, starts a subscription.
+   *
+   * @param {MockCheckoutInput} input - The price, customer and metadata.
+   * @returns {MockCheckoutResult} The checkout, payment and subscription.
+   * @throws {MockHttpError} If the price does not exist.
+   */
+  completeCheckout(input: MockCheckoutInput): MockCheckoutResult {
+    const found = this.findPrice(input.priceId);
+    if (!found) {
+      throw new MockHttpError(422, 'Validation failed', {
+        price_id: ['does not exist'],
+      });
+    }
+
+    const customer = this.customerFor(input.subscriber);
+    const checkoutId = this.nextId('ch');
+    const payment = this.charge(
+      found,
+      customer,
+      checkoutId,
+      true,
+      input.metadata
+    );
+
+    if (found.price.chargeType !== 'recurring') {
+      return {checkoutId, paymentId: payment.id};
+    }
+
+    const subscription = this.startSubscription(
+      found,
+      customer,
+      'active',
+      checkoutId
+    );
+    this.notify({type: 'subscription.create', subscription});
+    return {checkoutId, paymentId: payment.id, subscription};
+  }
+
+  /**
+   * Moves the clock forward, renewing every subscription whose period ends
+   * in the meantime, in order. Subscriptions set to cancel at the end of the
+   * period are canceled; the others are charged again.
+   *
+   * @param {number} duration - The time to advance, in milliseconds.
+   * @param {MockClockOptions} [options] - Whether the renewal payments are declined.
+   */
+  advanceClock(duration: number, options: MockClockOptions = {}): void {
+    const target = this.now().getTime() + Math.max(0, duration);
+
+    for (;;) {
+      const due = Array.from(this.subscriptions.values())
+        .filter(
+          ({subscription}) =>
+            (subscription.status === 'active' ||
+              subscription.status === 'past_due') &&
+            Date.parse(subscription.currentPeriodEnd) <= target
+        )
+        .sort(
+          (a, b) =>
+            Date.parse(a.subscription.currentPeriodEnd) -
+            Date.parse(b.subscription.currentPeriodEnd)
+        )[0];
+
+      if (!due) {
+        break;
+      }
+
+      // Stop the clock, so the renewal and its webhooks carry the exact end
+      // of the period however long they take
+      this.stoppedAt = Date.parse(due.subscription.currentPeriodEnd);
+      try {
+        this.renew(due, !options.declinePayments);
+      } finally {
+        this.stoppedAt = undefined;
+      }
+    }
+
+    this.clockOffset = target - Date.now();
+  }
+
+  /**
+   * Renews a subscription at the end of its period. A declined payment makes
+   * an active subscription past due, and cancels a past due one.
+   *
+   * @param {SubscriptionRecord} record - The subscription and its price.
+   * @param {boolean} succeeded - Whether the renewal payment goes through.
+   */
+  private renew(record: SubscriptionRecord, succeeded: boolean): void {
+    const {subscription} = record;
+    const now = this.now().toISOString();
+    const found = this.findPrice(record.priceId);
+
+    // Subscriptions whose product was deleted end with the period too
+    if (subscription.cancelAtPeriodEnd || !found) {
+      Object.assign(subscription, {status: 'canceled', updatedAt: now});
+      this.notify({type: 'subscription.cancel', subscription});
+      return;
+    }
+
+    this.charge(
+      found,
+      subscription.subscriber,
+      subscription.checkout.id,
+      succeeded
+    );
+
+    const start = new Date(Date.parse(subscription.currentPeriodEnd));
+    Object.assign(subscription, {
+      currentPeriodStart: start.toISOString(),
+      currentPeriodEnd: addInterval(
+        start,
+        found.price.billingInterval,
+        found.price.billingIntervalCount
+      ).toISOString(),
+      updatedAt: now,
+    });
+
+    if (succeeded) {
+      subscription.status = 'active';
+    } else if (subscription.status === 'active') {
+      subscription.status = 'past_due';
+      this.notify({type: 'subscription.past_due', subscription});
+    } else {
+      subscription.status = 'canceled';
+      this.notify({type: 'subscription.cancel', subscription});
+    }
+  }
+
+  getSubscription(subscriptionId: string): SubscriptionStatusResponse {
+    return this.getSubscriptionRecord(subscriptionId).subscription;
+  }
+
+  /**
+   * Lists subscriptions, filtered like the API does.
+   *
+   * @param {Record<string, string | string[]>} query - The query string, with snake_case names.
+   * @returns {SubscriptionStatusResponse[]} The subscriptions of the requested page.
+   */
+  listSubscriptions(
+    query: Record<string, string | string[]>
+  ): SubscriptionStatusResponse[] {
+    const first = (name: string): string | undefined => {
+      const value = query[name];
+      return Array.isArray(value) ? value[0] : value;
+    };
+    const statuses = ([] as string[])
+      .concat(query.status ?? [], query['status[]'] ?? [])
+      .reduce((all, value) => all.concat(value.split(',')), [] as string[]);
+    const inRange = (value: string, after?: string, before?: string) =>
+      (after === undefined || Date.parse(value) >= Date.parse(after)) &&
+      (before === undefined || Date.parse(value) <= Date.parse(before));
+
+    const filtered = Array.from(this.subscriptions.values())
+      .map(record => record.subscription)
+      .filter(
+        subscription =>
+          (statuses.length === 0 || statuses.includes(subscription.status)) &&
+          (first('product_id') === undefined ||
+            subscription.product.id === first('product_id')) &&
+          (first('subscriber_email') === undefined ||
+            subscription.subscriber.email === first('subscriber_email')) &&
+          inRange(
+            subscription.createdAt,
+            first('created_after'),
+            first('created_before')
+          ) &&
+          inRange(
+            subscription.currentPeriodEnd,
+            first('current_period_end_after'),
+            first('current_period_end_before')
+          )
+      );
+
+    return this.paginate(filtered, Number(first('page') ?? 1));
+  }
+
+  /**
+   * Changes the status of a subscription, checking the current one.
+   *
+   * @param {string} subscriptionId - The ID of the subscription.
+   * @param {SubscriptionStatus[]} from - The statuses the change is allowed from.
+   * @param {Partial<SubscriptionStatusResponse>} changes - The fields to change.
+   * @returns {SubscriptionStatusResponse} The updated subscription.
+   */
+  private transition(
+    subscriptionId: string,
+    from: SubscriptionStatus[],
+    changes: Partial<SubscriptionStatusResponse>
+  ): SubscriptionStatusResponse {
+    const {subscription} = this.getSubscriptionRecord(subscriptionId);
+
+    if (!from.includes(subscription.status)) {
+      throw new MockHttpError(422, 'Validation failed', {
+        status: [`cannot change a ${subscription.status} subscription`],
+      });
+    }
+
+    return Object.assign(subscription, changes, {
+      updatedAt: this.now().toISOString(),
+    });
+  }
+
+  cancelSubscription(subscriptionId: string): SubscriptionStatusResponse {
+    const subscription = this.transition(
+      subscriptionId,
+      ['active', 'inactive', 'pending', 'paused', 'past_due', 'canceled'],
+      {status: 'canceled'}
+    );
+    this.notify({type: 'subscription.cancel', subscription});
+    return subscription;
+  }
+
+  pauseSubscription(
+    subscriptionId: string,
+    body: unknown
+  ): SubscriptionStatusResponse {
+    validate(pauseSubscriptionRequestSchema, body ?? {});
+    const {resumesAt} = (body ?? {}) as PauseSubscriptionRequest;
+
+    const subscription = this.transition(
+      subscriptionId,
+      ['active', 'past_due'],
+      {
+        status: 'paused',
+        pausedAt: this.now().toISOString(),
+        resumesAt: resumesAt ?? null,
+      }
+    );
+    this.notify({type: 'subscription.paused', subscription});
+    return subscription;
+  }
+
+  resumeSubscription(subscriptionId: string): SubscriptionStatusResponse {
+    return this.transition(subscriptionId, ['paused'], {
+      status: 'active',
+      pausedAt: null,
+      resumesAt: null,
+    });
+  }
+
+  /**
+   * Updates a subscription: schedules its cancellation at the end of the
+   * period, or moves it to another recurring price.
+   *
+   * @param {string} subscriptionId - The ID of the subscription.
+   * @param {unknown} body - `{cancelAtPeriodEnd}` or a `ChangeSubscriptionPriceRequest`.
+   * @returns {SubscriptionStatusResponse} The updated subscription.
+   */
+  updateSubscription(
+    subscriptionId: string,
+    body: unknown
+  ): SubscriptionStatusResponse {
+    const record = this.getSubscriptionRecord(subscriptionId);
+    const changes = (body ?? {}) as {cancelAtPeriodEnd?: unknown};
+
+    if (changes.cancelAtPeriodEnd !== undefined) {
+      if (typeof changes.cancelAtPeriodEnd !== 'boolean') {
+        throw new MockHttpError(422, 'Validation failed', {
+          cancel_at_period_end: ['must be a boolean'],
+        });
+      }
+      return this.transition(subscriptionId, ['active', 'past_due'], {
+        cancelAtPeriodEnd: changes.cancelAtPeriodEnd,
+      });
+    }
+
+    const {product} = this.recurringPrice(body);
+    const subscription = this.transition(
+      subscriptionId,
+      ['active', 'past_due', 'paused'],
+      {description: product.name, product: {id: product.id}}
+    );
+    record.priceId = (body as ChangeSubscriptionPriceRequest).priceId;
+    return subscription;
+  }
+
+  /**
+   * Computes the cost of moving a subscription to another price for the rest
+   * of its current period.
+   *
+   * @param {string} subscriptionId - The ID of the subscription.
+   * @param {unknown} query - The `ChangeSubscriptionPriceRequest`, from the query string.
+   * @returns {ProrationPreview} The prorated amount and the next invoice.
+   */
+  previewPriceChange(subscriptionId: string, query: unknown): ProrationPreview {
+    const record = this.getSubscriptionRecord(subscriptionId);
+    const {price} = this.recurringPrice(query);
+    const current = this.findPrice(record.priceId)?.price;
+    const {subscription} = record;
+
+    const start = Date.parse(subscription.currentPeriodStart);
+    const end = Date.parse(subscription.currentPeriodEnd);
+    const remaining = Math.min(
+      1,
+      Math.max(0, (end - this.now().getTime()) / (end - start))
+    );
+    const proration =
+      (query as ChangeSubscriptionPriceRequest).prorationBehavior === 'none'
+        ? 0
+        : Math.round(
+            (price.amountInCents - (current?.amountInCents ?? 0)) * remaining
+          );
+
+    return {
+      subscriptionId,
+      currentPriceId: record.priceId,
+      newPriceId: price.id,
+      prorationAmountInCents: proration,
+      nextInvoiceAmountInCents: price.amountInCents + proration,
+      currency: price.currency,
+      effectiveAt: this.now().toISOString(),
+    };
+  }
+
+  /**
+   * Validates a `ChangeSubscriptionPriceRequest` and finds its price.
+   *
+   * @param {unknown} body - The request.
+   * @returns {{product: GetProductResponse, price: Price}} The recurring price and its product.
+   */
+  private recurringPrice(body: unknown): {
+    product: GetProductResponse;
+    price: Price;
+  } {
+    validate(changeSubscriptionPriceRequestSchema, body);
+
+    return this.findRecurringPrice(
+      (body as ChangeSubscriptionPriceRequest).priceId
+    );
+  }
+}
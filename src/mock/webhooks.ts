@@ -0,0 +1,61 @@
+import {RecurrenteWebhookEvent} from '../types/globals';
+import {createWebhookEvent} from '../utils/webhook-fixtures';
+import {MockStateChange} from './state';
+
+/**
+ * Builds the webhook event that Recurrente sends for a state change, from the
+ * fixture of its type and the resources involved.
+ *
+ * @param {MockStateChange} change - The state change.
+ * @param {string} id - The ID of the event.
+ * @param {Date} createdAt - When the event happened, on the mock clock.
+ * @returns {RecurrenteWebhookEvent} The event, in camelCase.
+ */
+export function mockWebhookEvent(
+  change: MockStateChange,
+  id: string,
+  createdAt: Date
+): RecurrenteWebhookEvent {
+  const common = {id, createdAt: createdAt.toISOString()};
+
+  if ('subscription' in change) {
+    const {subscriber} = change.subscription;
+    return createWebhookEvent(change.type, {
+      ...common,
+      customerEmail: subscriber.email,
+      customerId: subscriber.id,
+      customerName: subscriber.fullName,
+    });
+  }
+
+  const {payment} = change;
+  const paymentFields = {
+    ...common,
+    amountInCents: payment.amountInCents,
+    currency: payment.currency,
+    vatWithheldCurrency: payment.currency,
+    customer: {
+      id: payment.customer.id,
+      email: payment.customer.email,
+      fullName: payment.customer.fullName,
+    },
+    payment: {id: payment.id, paymentable: {id: payment.checkoutId}},
+    product: {id: payment.productId},
+  };
+
+  if (change.type === 'payment_intent.failed') {
+    return createWebhookEvent(change.type, {
+      ...paymentFields,
+      checkout: {id: payment.checkoutId},
+    });
+  }
+
+  return createWebhookEvent(change.type, {
+    ...paymentFields,
+    checkout: {
+      id: payment.checkoutId,
+      payment: {id: payment.id, paymentable: {id: payment.checkoutId}},
+      metadata: payment.metadata,
+    },
+  });
+}
@@ -0,0 +1,8 @@
+export {
+  createWebhookEvent,
+  createSignedWebhook,
+  serializeWebhookEvent,
+  signWebhookPayload,
+  webhookEventTypes,
+} from './utils/webhook-fixtures';
+export {MockRecurrenteServer} from './mock/server';
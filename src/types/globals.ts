@@ -690,8 +690,16 @@ export interface SubscriptionStatusResponse {
    * - 'inactive': The subscription is inactive.
    * - 'pending': The subscription is pending further action.
    * - 'canceled': The subscription has been canceled.
+   * - 'paused': Billing is paused until the subscription is resumed.
+   * - 'past_due': The last payment failed and is pending collection.
    */
-  status: 'active' | 'inactive' | 'pending' | 'canceled';
+  status:
+    | 'active'
+    | 'inactive'
+    | 'pending'
+    | 'canceled'
+    | 'paused'
+    | 'past_due';
   /**
    * The date and time when the subscription was created.
    * Represented as an ISO date string.
@@ -725,33 +733,7 @@ export interface SubscriptionStatusResponse {
   /**
    * Information about the subscriber.
    */
-  subscriber: {
-    /**
-     * Unique identifier for the subscriber.
-     */
-    id: string;
-    /**
-     * The subscriber's first name.
-     */
-    firstName: string;
-    /**
-     * The subscriber's last name.
-     */
-    lastName: string;
-    /**
-     * The full name of the subscriber, typically a combination of first and last names.
-     */
-    fullName: string;
-    /**
-     * The subscriber's email address.
-     */
-    email: string;
-    /**
-     * The subscriber's phone number, if provided.
-     * If no phone number is provided, this will be null.
-     */
-    phoneNumber: string | null;
-  };
+  subscriber: Customer;
   /**
    * Information related to the subscription checkout.
    */
@@ -770,10 +752,156 @@ export interface SubscriptionStatusResponse {
      */
     id: string;
   };
+  /**
+   * Whether the subscription will be canceled at the end of the current billing period.
+   */
+  cancelAtPeriodEnd?: boolean;
+  /**
+   * The date and time when the subscription was paused, if it is paused.
+   * Represented as an ISO date string.
+   */
+  pausedAt?: string | null;
+  /**
+   * The date and time when a paused subscription resumes automatically, if scheduled.
+   * Represented as an ISO date string.
+   */
+  resumesAt?: string | null;
+}
+
+/**
+ * The possible statuses of a subscription.
+ */
+export type SubscriptionStatus = SubscriptionStatusResponse['status'];
+
+/**
+ * Represents the filters accepted when listing subscriptions.
+ * All filters are optional and combined with AND.
+ */
+export interface ListSubscriptionsFilters {
+  /**
+   * Only include subscriptions with this status, or any of these statuses.
+   * @optional
+   */
+  status?: SubscriptionStatus | SubscriptionStatus[];
+
+  /**
+   * Only include subscriptions to this product.
+   * @optional
+   */
+  productId?: string;
+
+  /**
+   * Only include subscriptions of the subscriber with this email address.
+   * @optional
+   */
+  subscriberEmail?: string;
+
+  /**
+   * Only include subscriptions created at or after this date (Date or ISO date string).
+   * @optional
+   */
+  createdAfter?: Date | string;
+
+  /**
+   * Only include subscriptions created at or before this date (Date or ISO date string).
+   * @optional
+   */
+  createdBefore?: Date | string;
+
+  /**
+   * Only include subscriptions whose current period ends at or after this date (Date or ISO date string).
+   * @optional
+   */
+  currentPeriodEndAfter?: Date | string;
+
+  /**
+   * Only include subscriptions whose current period ends at or before this date (Date or ISO date string).
+   * @optional
+   */
+  currentPeriodEndBefore?: Date | string;
+}
+
+/**
+ * Represents the response from the API when listing subscriptions.
+ * It is an array of subscription objects.
+ */
+export type GetAllSubscriptionsResponse = SubscriptionStatusResponse[];
+
+/**
+ * Represents the options used to pause a subscription.
+ */
+export interface PauseSubscriptionRequest {
+  /**
+   * The date and time when the subscription resumes automatically, in ISO date format.
+   * When omitted, the subscription stays paused until `resumeSubscription` is called.
+   * @optional
+   */
+  resumesAt?: string;
+}
+
+/**
+ * Represents the details required to move a subscription to another price.
+ */
+export interface ChangeSubscriptionPriceRequest {
+  /**
+   * The ID of the new price for the subscription.
+   * @required
+   */
+  priceId: string;
+
+  /**
+   * How the change is billed:
+   * - 'create_prorations': Credit the unused time and charge the difference on the next invoice.
+   * - 'none': Apply the new price from the next billing period, without prorations.
+   * Defaults to 'create_prorations'.
+   * @optional
+   */
+  prorationBehavior?: 'create_prorations' | 'none';
+}
+
+/**
+ * Represents the preview of a subscription price change.
+ */
+export interface ProrationPreview {
+  /**
+   * Unique identifier for the subscription.
+   */
+  subscriptionId: string;
+
+  /**
+   * The ID of the current price.
+   */
+  currentPriceId: string;
+
+  /**
+   * The ID of the new price.
+   */
+  newPriceId: string;
+
+  /**
+   * The prorated amount, in cents. Negative values are a credit for the customer.
+   */
+  prorationAmountInCents: number;
+
+  /**
+   * The amount of the next invoice after the change, in cents.
+   */
+  nextInvoiceAmountInCents: number;
+
+  /**
+   * The currency of the amounts (e.g., 'GTQ', 'USD').
+   */
+  currency: string;
+
+  /**
+   * The date and time when the change takes effect, in ISO date format.
+   */
+  effectiveAt: string;
 }
 
 /**
- * Represents an error response from the API.
+ * Represents the body of an error response from the API.
+ * Available as `body` on the `RecurrenteError` thrown by the client.
  */
 export interface ErrorResponse {
   /**
@@ -796,652 +924,2320 @@ export interface ErrorResponse {
 
 /*
 
-Webhooks
+Checkouts
 
 */
 
 /**
- * Represents the details of a successful payment intent event.
- * This webhook event is triggered when a payment is successfully completed.
+ * Represents a line item of a checkout.
+ * Either references an existing price by `priceId`, or describes an ad-hoc
+ * item with its own name and amount, without creating a permanent product.
  */
-export interface PaymentIntentSucceeded {
+export interface CheckoutItem {
   /**
-   * Unique identifier for the payment intent.
+   * The ID of an existing product price to charge.
+   * When provided, `name`, `amountInCents` and `currency` are ignored.
+   * @optional
    */
-  id: string;
+  priceId?: string;
 
   /**
-   * The event type, which is 'payment_intent.succeeded' for this event.
+   * The name of an ad-hoc item, shown to the customer.
+   * @optional
    */
-  eventType: 'payment_intent.succeeded';
+  name?: string;
 
   /**
-   * The version of the API used during the event.
+   * Optional description of an ad-hoc item.
+   * @optional
    */
-  apiVersion: string;
+  description?: string;
 
   /**
-   * Checkout details associated with the payment intent.
+   * Optional URL for the image of an ad-hoc item.
+   * @optional
    */
-  checkout: {
-    /**
-     * Unique identifier for the checkout session.
-     */
-    id: string;
-
-    /**
-     * The status of the checkout session.
-     */
-    status: string;
-
-    /**
-     * Payment details associated with the checkout.
-     */
-    payment: {
-      /**
-       * Unique identifier for the payment.
-       */
-      id: string;
-
-      /**
-       * Details about the entity responsible for the payment, e.g., a subscription or one-time payment.
-       */
-      paymentable: {
-        /**
-         * The type of paymentable entity (e.g., 'OneTimePayment').
-         */
-        type: string;
-
-        /**
-         * Unique identifier for the paymentable entity.
-         */
-        id: string;
-
-        /**
-         * The name of the tax applied, if applicable.
-         * Null if no tax is applied.
-         */
-        taxName: string | null;
-
-        /**
-         * The tax identification number, if applicable.
-         * Null if no tax is applied.
-         */
-        taxId: string | null;
-
-        /**
-         * The address associated with the payment, if provided.
-         * Null if no address is provided.
-         */
-        address: string | null;
-
-        /**
-         * The phone number associated with the payment, if provided.
-         * Null if no phone number is provided.
-         */
-        phoneNumber: string | null;
-      };
-    };
-
-    /**
-     * Details of the payment method used for the checkout.
-     */
-    paymentMethod: {
-      /**
-       * Unique identifier for the payment method.
-       */
-      id: string;
-
-      /**
-       * The type of payment method, e.g., 'card'.
-       */
-      type: string;
-
-      /**
-       * Card details for the payment method.
-       */
-      card: {
-        /**
-         * The last four digits of the card used.
-         */
-        last4: string;
-
-        /**
-         * The card network, e.g., 'visa'.
-         */
-        network: string;
-      };
-    };
-
-    /**
-     * Array of transfer setups, if any are needed for the payment.
-     */
-    transferSetups: string[];
+  imageUrl?: string;
 
-    /**
-     * Optional metadata for additional information.
-     * This is a key-value map storing extra details about the checkout session.
-     */
-    metadata: Record<string, string>;
-  };
+  /**
+   * The amount to charge in cents for an ad-hoc item.
+   * @optional
+   */
+  amountInCents?: number;
 
   /**
-   * The date and time when the payment intent was created, in ISO date format.
+   * The currency of an ad-hoc item (GTQ or USD).
+   * @optional
    */
-  createdAt: string;
+  currency?: 'GTQ' | 'USD';
 
   /**
-   * The reason for any failure, or null if the payment was successful.
+   * The number of units of the item. Defaults to 1.
+   * @optional
    */
-  failureReason: string | null;
+  quantity?: number;
+}
 
+/**
+ * Represents the details required to create a checkout.
+ */
+export interface CreateCheckoutRequest {
   /**
-   * The total amount of the payment in cents.
+   * The items the customer will pay for.
+   * @required
    */
-  amountInCents: number;
+  items: CheckoutItem[];
 
   /**
-   * The currency of the payment (e.g., 'GTQ', 'USD').
+   * Optional URL to redirect the user after a successful payment.
+   * @optional
    */
-  currency: string;
+  successUrl?: string;
 
   /**
-   * The fee charged for the transaction, in cents.
+   * Optional URL to redirect the user after canceling the checkout.
+   * @optional
    */
-  fee: number;
+  cancelUrl?: string;
 
   /**
-   * The amount of VAT withheld for the transaction, in cents.
+   * Optional ID of an existing customer (user) to associate with the checkout.
+   * @optional
    */
-  vatWithheld: number;
+  userId?: string;
 
   /**
-   * The currency in which the VAT is withheld.
+   * The date and time after which the checkout can no longer be paid, in ISO date format.
+   * @optional
    */
-  vatWithheldCurrency: string;
+  expiresAt?: string;
 
   /**
-   * Customer details associated with the payment.
+   * Optional metadata for additional information about the checkout.
+   * @optional
    */
-  customer: {
-    /**
-     * The customer's email address.
-     */
-    email: string;
+  metadata?: Record<string, string>;
+}
 
+/**
+ * Represents the response after creating a checkout.
+ */
+export interface CreateCheckoutResponse {
+  /**
+   * The unique identifier for the checkout.
+   */
+  id: string;
+
+  /**
+   * The URL of the hosted checkout page where the customer pays.
+   */
+  checkoutUrl: string;
+}
+
+/**
+ * Represents the response from the API when fetching a checkout by its ID.
+ */
+export interface CheckoutResponse {
+  /**
+   * The unique identifier for the checkout.
+   */
+  id: string;
+
+  /**
+   * The status of the checkout.
+   * - 'unpaid': The checkout is waiting for payment.
+   * - 'paid': The checkout has been paid.
+   * - 'expired': The checkout expired before being paid.
+   */
+  status: 'unpaid' | 'paid' | 'expired';
+
+  /**
+   * The URL of the hosted checkout page where the customer pays.
+   */
+  checkoutUrl: string;
+
+  /**
+   * The items included in the checkout.
+   */
+  items: {
     /**
-     * The customer's full name.
+     * The ID of the price charged, if the item references an existing product.
      */
-    fullName: string;
+    priceId: string | null;
 
     /**
-     * Unique identifier for the customer.
+     * The name of the item.
      */
-    id: string;
-  };
+    name: string;
 
-  /**
-   * Additional payment details.
-   */
-  payment: {
     /**
-     * Unique identifier for the payment.
+     * The amount charged per unit, in cents.
      */
-    id: string;
+    amountInCents: number;
 
     /**
-     * Details about the paymentable entity, including address and tax information.
+     * The currency of the item (GTQ or USD).
      */
-    paymentable: {
-      /**
-       * Unique identifier for the paymentable entity.
-       */
-      id: string;
+    currency: 'GTQ' | 'USD';
 
-      /**
-       * The tax identification number, if applicable.
-       */
-      taxId: string | null;
+    /**
+     * The number of units of the item.
+     */
+    quantity: number;
+  }[];
 
-      /**
-       * The name of the tax applied, if applicable.
-       */
-      taxName: string | null;
+  /**
+   * The total amount of the checkout, in cents.
+   */
+  totalInCents: number;
 
-      /**
-       * The type of paymentable entity (e.g., 'Subscription').
-       */
-      type: string;
+  /**
+   * URL to redirect the user after a successful payment.
+   */
+  successUrl: string | null;
 
-      /**
-       * The address associated with the paymentable entity.
-       */
-      address: {
-        /**
-         * The first line of the address.
-         */
-        addressLine1: string;
+  /**
+   * URL to redirect the user after canceling the checkout.
+   */
+  cancelUrl: string | null;
 
-        /**
-         * The second line of the address, if any.
-         */
-        addressLine2: string | null;
+  /**
+   * The date and time when the checkout was created, in ISO date format.
+   */
+  createdAt: string;
 
-        /**
-         * The city associated with the address.
-         */
-        city: string;
+  /**
+   * The date and time when the checkout expires, in ISO date format.
+   * Null if the checkout does not expire.
+   */
+  expiresAt: string | null;
 
-        /**
-         * The country associated with the address.
-         */
-        country: string;
+  /**
+   * Optional metadata for additional information about the checkout.
+   */
+  metadata?: Record<string, string>;
+}
 
-        /**
-         * The postal code or zip code for the address.
-         */
-        zipCode: string;
-      };
+/**
+ * Represents the response from the API when fetching all checkouts.
+ * It is an array of checkout objects.
+ */
+export type GetAllCheckoutsResponse = CheckoutResponse[];
 
-      /**
-       * The phone number associated with the paymentable entity.
-       */
-      phoneNumber: string;
-    };
-  };
+/*
+
+Refunds
+
+*/
 
+/**
+ * Represents the details required to refund a payment intent.
+ */
+export interface CreateRefundRequest {
   /**
-   * The product associated with the payment intent.
+   * The ID of the payment intent to refund (e.g., `PaymentIntentSucceeded.id`).
+   * @required
    */
-  product: {
-    /**
-     * Unique identifier for the product.
-     */
-    id: string;
-  };
+  paymentIntentId: string;
 
   /**
-   * Invoice details related to the payment, if available.
+   * The amount to refund in cents, for a partial refund.
+   * When omitted, the remaining captured amount is refunded in full.
+   * @optional
    */
-  invoice: {
-    /**
-     * Unique identifier for the invoice.
-     */
-    id: string;
+  amountInCents?: number;
 
-    /**
-     * The URL to view or download the tax invoice, if available.
-     * Null if no tax invoice is available.
-     */
-    taxInvoiceUrl: string | null;
-  };
+  /**
+   * Optional reason for the refund.
+   * @optional
+   */
+  reason?: string;
+
+  /**
+   * Optional metadata for additional information about the refund.
+   * @optional
+   */
+  metadata?: Record<string, string>;
 }
 
 /**
- * Represents the details of a failed payment intent event.
- * This webhook event is triggered when a payment attempt fails.
+ * Represents the details of a payment intent, as used to validate refunds.
  */
-export interface PaymentIntentFailed {
+export interface PaymentIntentResponse {
   /**
    * Unique identifier for the payment intent.
    */
   id: string;
 
   /**
-   * The event type, which is 'payment_intent.failed' for this event.
+   * The status of the payment intent (e.g., 'succeeded').
    */
-  eventType: 'payment_intent.failed';
+  status: string;
 
   /**
-   * The version of the API used during the event.
+   * The captured amount of the payment, in cents.
    */
-  apiVersion: string;
+  amountInCents: number;
 
   /**
-   * Checkout details associated with the failed payment intent.
+   * The amount already refunded, in cents.
    */
-  checkout: {
-    /**
-     * Unique identifier for the checkout session.
-     */
-    id: string;
-  };
+  refundedAmountInCents?: number;
 
   /**
-   * The date and time when the payment intent was created, in ISO date format.
+   * The currency of the payment (e.g., 'GTQ', 'USD').
    */
-  createdAt: string;
+  currency: string;
+}
+
+/**
+ * Represents a refund.
+ */
+export interface RefundResponse {
+  /**
+   * Unique identifier for the refund.
+   */
+  id: string;
 
   /**
-   * The reason for the failure of the payment attempt.
+   * The status of the refund.
    */
-  failureReason: string;
+  status: 'pending' | 'succeeded' | 'failed';
 
   /**
-   * The total amount of the attempted payment in cents.
+   * The refunded amount, in cents.
    */
   amountInCents: number;
 
   /**
-   * The currency of the attempted payment (e.g., 'GTQ', 'USD').
+   * The currency of the refund (e.g., 'GTQ', 'USD').
    */
   currency: string;
 
   /**
-   * The fee charged for the transaction, in cents, even if the payment failed.
+   * The reason for the refund, if one was given.
    */
-  fee: number;
+  reason: string | null;
 
   /**
-   * The amount of VAT withheld for the transaction, in cents.
+   * The refunded payment intent.
    */
-  vatWithheld: number;
+  paymentIntent: {
+    /**
+     * Unique identifier for the payment intent.
+     */
+    id: string;
+  };
 
   /**
-   * The currency in which the VAT is withheld.
+   * The date and time when the refund was created, in ISO date format.
    */
-  vatWithheldCurrency: string;
+  createdAt: string;
 
   /**
-   * Customer details associated with the failed payment attempt.
+   * Optional metadata for additional information about the refund.
    */
-  customer: {
-    /**
-     * The customer's email address.
-     */
-    email: string;
+  metadata?: Record<string, string>;
+}
 
-    /**
-     * The customer's full name.
-     */
-    fullName: string;
+/**
+ * Represents the response from the API when fetching all refunds.
+ * It is an array of refund objects.
+ */
+export type GetAllRefundsResponse = RefundResponse[];
 
-    /**
-     * Unique identifier for the customer.
-     */
-    id: string;
-  };
+/*
+
+Customers
+
+*/
 
+/**
+ * Represents a customer (also called subscriber) of the Recurrente account.
+ */
+export interface Customer {
   /**
-   * Additional payment details.
+   * Unique identifier for the customer.
    */
-  payment: {
-    /**
-     * Unique identifier for the payment.
-     */
-    id: string;
-
-    /**
-     * Details about the paymentable entity, including address and tax information.
-     */
-    paymentable: {
-      /**
-       * Unique identifier for the paymentable entity.
-       */
-      id: string;
+  id: string;
+  /**
+   * The customer's email address.
+   */
+  email: string;
+  /**
+   * The full name of the customer, typically a combination of first and last names.
+   */
+  fullName: string;
+  /**
+   * The customer's first name.
+   */
+  firstName: string;
+  /**
+   * The customer's last name.
+   */
+  lastName: string;
+  /**
+   * The customer's phone number, if provided.
+   * If no phone number is provided, this will be null.
+   */
+  phoneNumber: string | null;
+  /**
+   * The date and time when the customer was created, in ISO date format.
+   * Not included when the customer is embedded in another object.
+   */
+  createdAt?: string;
+  /**
+   * Optional metadata for additional information about the customer.
+   */
+  metadata?: Record<string, string>;
+}
 
-      /**
-       * The tax identification number, if applicable.
-       * Null if no tax is applied.
-       */
-      taxId: string | null;
+/**
+ * Represents the subset of customer details included in webhook events.
+ */
+export type CustomerSummary = Pick<Customer, 'id' | 'email' | 'fullName'>;
 
-      /**
-       * The name of the tax applied, if applicable.
-       * Null if no tax is applied.
-       */
-      taxName: string | null;
+/**
+ * Represents the details required to create a customer.
+ */
+export interface CreateCustomerRequest {
+  /**
+   * The customer's email address.
+   * @required
+   */
+  email: string;
 
-      /**
-       * The type of paymentable entity (e.g., 'Subscription').
-       */
-      type: string;
+  /**
+   * The customer's full name.
+   * @optional
+   */
+  fullName?: string;
 
+  /**
+   * The customer's first name.
+   * @optional
+   */
+  firstName?: string;
+
+  /**
+   * The customer's last name.
+   * @optional
+   */
+  lastName?: string;
+
+  /**
+   * The customer's phone number.
+   * @optional
+   */
+  phoneNumber?: string;
+
+  /**
+   * Optional metadata for additional information about the customer.
+   * @optional
+   */
+  metadata?: Record<string, string>;
+}
+
+/**
+ * Represents the details required to update a customer.
+ * Only the given fields are changed.
+ */
+export type UpdateCustomerRequest = Partial<CreateCustomerRequest>;
+
+/**
+ * Represents the filters accepted when listing customers.
+ */
+export interface ListCustomersFilters {
+  /**
+   * Only include customers with this email address.
+   * @optional
+   */
+  email?: string;
+}
+
+/**
+ * Represents the response from the API when fetching all customers.
+ * It is an array of customer objects.
+ */
+export type GetAllCustomersResponse = Customer[];
+
+/**
+ * Represents a payment made by a customer.
+ */
+export interface CustomerPayment {
+  /**
+   * Unique identifier for the payment.
+   */
+  id: string;
+  /**
+   * The status of the payment (e.g., 'succeeded', 'failed').
+   */
+  status: string;
+  /**
+   * The amount of the payment in cents.
+   */
+  amountInCents: number;
+  /**
+   * The currency of the payment (e.g., 'GTQ', 'USD').
+   */
+  currency: string;
+  /**
+   * The date and time when the payment was made, in ISO date format.
+   */
+  createdAt: string;
+  /**
+   * The checkout in which the payment was made.
+   */
+  checkout: {
+    /**
+     * Unique identifier for the checkout.
+     */
+    id: string;
+  };
+  /**
+   * The product paid for, if the payment belongs to a product.
+   */
+  product: {
+    /**
+     * Unique identifier for the product.
+     */
+    id: string;
+  } | null;
+}
+
+/*
+
+Webhooks
+
+*/
+
+/**
+ * Represents the details of a successful payment intent event.
+ * This webhook event is triggered when a payment is successfully completed.
+ */
+export interface PaymentIntentSucceeded {
+  /**
+   * Unique identifier for the payment intent.
+   */
+  id: string;
+
+  /**
+   * The event type, which is 'payment_intent.succeeded' for this event.
+   */
+  eventType: 'payment_intent.succeeded';
+
+  /**
+   * The version of the API used during the event.
+   */
+  apiVersion: string;
+
+  /**
+   * Checkout details associated with the payment intent.
+   */
+  checkout: {
+    /**
+     * Unique identifier for the checkout session.
+     */
+    id: string;
+
+    /**
+     * The status of the checkout session.
+     */
+    status: string;
+
+    /**
+     * Payment details associated with the checkout.
+     */
+    payment: {
       /**
-       * The address associated with the paymentable entity.
+       * Unique identifier for the payment.
        */
-      address: {
+      id: string;
+
+      /**
+       * Details about the entity responsible for the payment, e.g., a subscription or one-time payment.
+       */
+      paymentable: {
         /**
-         * The first line of the address.
+         * The type of paymentable entity (e.g., 'OneTimePayment').
          */
-        addressLine1: string;
+        type: string;
+
+        /**
+         * Unique identifier for the paymentable entity.
+         */
+        id: string;
+
+        /**
+         * The name of the tax applied, if applicable.
+         * Null if no tax is applied.
+         */
+        taxName: string | null;
+
+        /**
+         * The tax identification number, if applicable.
+         * Null if no tax is applied.
+         */
+        taxId: string | null;
+
+        /**
+         * The address associated with the payment, if provided.
+         * Null if no address is provided.
+         */
+        address: string | null;
+
+        /**
+         * The phone number associated with the payment, if provided.
+         * Null if no phone number is provided.
+         */
+        phoneNumber: string | null;
+      };
+    };
+
+    /**
+     * Details of the payment method used for the checkout.
+     */
+    paymentMethod: {
+      /**
+       * Unique identifier for the payment method.
+       */
+      id: string;
+
+      /**
+       * The type of payment method, e.g., 'card'.
+       */
+      type: string;
+
+      /**
+       * Card details for the payment method.
+       */
+      card: {
+        /**
+         * The last four digits of the card used.
+         */
+        last4: string;
+
+        /**
+         * The card network, e.g., 'visa'.
+         */
+        network: string;
+      };
+    };
+
+    /**
+     * Array of transfer setups, if any are needed for the payment.
+     */
+    transferSetups: string[];
+
+    /**
+     * Optional metadata for additional information.
+     * This is a key-value map storing extra details about the checkout session.
+     */
+    metadata: Record<string, string>;
+  };
+
+  /**
+   * The date and time when the payment intent was created, in ISO date format.
+   */
+  createdAt: string;
+
+  /**
+   * The reason for any failure, or null if the payment was successful.
+   */
+  failureReason: string | null;
+
+  /**
+   * The total amount of the payment in cents.
+   */
+  amountInCents: number;
+
+  /**
+   * The currency of the payment (e.g., 'GTQ', 'USD').
+   */
+  currency: string;
+
+  /**
+   * The fee charged for the transaction, in cents.
+   */
+  fee: number;
+
+  /**
+   * The amount of VAT withheld for the transaction, in cents.
+   */
+  vatWithheld: number;
+
+  /**
+   * The currency in which the VAT is withheld.
+   */
+  vatWithheldCurrency: string;
+
+  /**
+   * Customer details associated with the payment.
+   */
+  customer: CustomerSummary;
+
+  /**
+   * Additional payment details.
+   */
+  payment: {
+    /**
+     * Unique identifier for the payment.
+     */
+    id: string;
+
+    /**
+     * Details about the paymentable entity, including address and tax information.
+     */
+    paymentable: {
+      /**
+       * Unique identifier for the paymentable entity.
+       */
+      id: string;
+
+      /**
+       * The tax identification number, if applicable.
+       */
+      taxId: string | null;
+
+      /**
+       * The name of the tax applied, if applicable.
+       */
+      taxName: string | null;
+
+      /**
+       * The type of paymentable entity (e.g., 'Subscription').
+       */
+      type: string;
+
+      /**
+       * The address associated with the paymentable entity.
+       */
+      address: {
+        /**
+         * The first line of the address.
+         */
+        addressLine1: string;
+
+        /**
+         * The second line of the address, if any.
+         */
+        addressLine2: string | null;
+
+        /**
+         * The city associated with the address.
+         */
+        city: string;
+
+        /**
+         * The country associated with the address.
+         */
+        country: string;
+
+        /**
+         * The postal code or zip code for the address.
+         */
+        zipCode: string;
+      };
+
+      /**
+       * The phone number associated with the paymentable entity.
+       */
+      phoneNumber: string;
+    };
+  };
+
+  /**
+   * The product associated with the payment intent.
+   */
+  product: {
+    /**
+     * Unique identifier for the product.
+     */
+    id: string;
+  };
+
+  /**
+   * Invoice details related to the payment, if available.
+   */
+  invoice: {
+    /**
+     * Unique identifier for the invoice.
+     */
+    id: string;
+
+    /**
+     * The URL to view or download the tax invoice, if available.
+     * Null if no tax invoice is available.
+     */
+    taxInvoiceUrl: string | null;
+  };
+}
+
+/**
+ * Represents the details of a failed payment intent event.
+ * This webhook event is triggered when a payment attempt fails.
+ */
+export interface PaymentIntentFailed {
+  /**
+   * Unique identifier for the payment intent.
+   */
+  id: string;
+
+  /**
+   * The event type, which is 'payment_intent.failed' for this event.
+   */
+  eventType: 'payment_intent.failed';
+
+  /**
+   * The version of the API used during the event.
+   */
+  apiVersion: string;
+
+  /**
+   * Checkout details associated with the failed payment intent.
+   */
+  checkout: {
+    /**
+     * Unique identifier for the checkout session.
+     */
+    id: string;
+  };
+
+  /**
+   * The date and time when the payment intent was created, in ISO date format.
+   */
+  createdAt: string;
+
+  /**
+   * The reason for the failure of the payment attempt.
+   */
+  failureReason: string;
+
+  /**
+   * The total amount of the attempted payment in cents.
+   */
+  amountInCents: number;
+
+  /**
+   * The currency of the attempted payment (e.g., 'GTQ', 'USD').
+   */
+  currency: string;
+
+  /**
+   * The fee charged for the transaction, in cents, even if the payment failed.
+   */
+  fee: number;
+
+  /**
+   * The amount of VAT withheld for the transaction, in cents.
+   */
+  vatWithheld: number;
+
+  /**
+   * The currency in which the VAT is withheld.
+   */
+  vatWithheldCurrency: string;
+
+  /**
+   * Customer details associated with the failed payment attempt.
+   */
+  customer: CustomerSummary;
+
+  /**
+   * Additional payment details.
+   */
+  payment: {
+    /**
+     * Unique identifier for the payment.
+     */
+    id: string;
+
+    /**
+     * Details about the paymentable entity, including address and tax information.
+     */
+    paymentable: {
+      /**
+       * Unique identifier for the paymentable entity.
+       */
+      id: string;
+
+      /**
+       * The tax identification number, if applicable.
+       * Null if no tax is applied.
+       */
+      taxId: string | null;
+
+      /**
+       * The name of the tax applied, if applicable.
+       * Null if no tax is applied.
+       */
+      taxName: string | null;
+
+      /**
+       * The type of paymentable entity (e.g., 'Subscription').
+       */
+      type: string;
+
+      /**
+       * The address associated with the paymentable entity.
+       */
+      address: {
+        /**
+         * The first line of the address.
+         */
+        addressLine1: string;
+
+        /**
+         * The second line of the address, if any.
+         */
+        addressLine2: string | null;
+
+        /**
+         * The city associated with the address.
+         */
+        city: string;
+
+        /**
+         * The country associated with the address.
+         */
+        country: string;
+
+        /**
+         * The postal code or zip code for the address.
+         */
+        zipCode: string;
+      };
+
+      /**
+       * The phone number associated with the paymentable entity.
+       */
+      phoneNumber: string;
+    };
+  };
+
+  /**
+   * The product associated with the failed payment intent.
+   */
+  product: {
+    /**
+     * Unique identifier for the product.
+     */
+    id: string;
+  };
+
+  /**
+   * Invoice details related to the payment, if available.
+   */
+  invoice: {
+    /**
+     * Unique identifier for the invoice.
+     */
+    id: string;
+
+    /**
+     * The URL to view or download the tax invoice, if available.
+     * Null if no tax invoice is available.
+     */
+    taxInvoiceUrl: string | null;
+  };
+}
+
+/**
+ * Represents the details of a subscription creation event.
+ * This webhook event is triggered when a new subscription is created.
+ */
+export interface SubscriptionCreate {
+  /**
+   * Unique identifier for the subscription event.
+   */
+  id: string;
+
+  /**
+   * The event type, which is 'subscription.create' for this event.
+   */
+  eventType: 'subscription.create';
+
+  /**
+   * The version of the API used during the event.
+   */
+  apiVersion: string;
+
+  /**
+   * The date and time when the subscription was created, in ISO date format.
+   */
+  createdAt: string;
+
+  /**
+   * The email address of the customer who created the subscription.
+   */
+  customerEmail: string;
+
+  /**
+   * Unique identifier for the customer.
+   */
+  customerId: string;
+
+  /**
+   * The full name of the customer who created the subscription.
+   */
+  customerName: string;
+}
+
+/**
+ * Represents the details of a subscription past due event.
+ * This webhook event is triggered when a subscription becomes past due, indicating that payment has not been made on time.
+ */
+export interface SubscriptionPastDue {
+  /**
+   * Unique identifier for the past due subscription event.
+   */
+  id: string;
+
+  /**
+   * The event type, which is 'subscription.past_due' for this event.
+   */
+  eventType: 'subscription.past_due';
+
+  /**
+   * The version of the API used during the event.
+   */
+  apiVersion: string;
+
+  /**
+   * The date and time when the subscription became past due, in ISO date format.
+   */
+  createdAt: string;
+
+  /**
+   * The email address of the customer with the past due subscription.
+   */
+  customerEmail: string;
+
+  /**
+   * Unique identifier for the customer with the past due subscription.
+   */
+  customerId: string;
+
+  /**
+   * The full name of the customer with the past due subscription.
+   */
+  customerName: string;
+}
+
+/**
+ * Represents the details of a subscription paused event.
+ * This webhook event is triggered when a subscription is paused.
+ */
+export interface SubscriptionPaused {
+  /**
+   * Unique identifier for the paused subscription event.
+   */
+  id: string;
+
+  /**
+   * The event type, which is 'subscription.paused' for this event.
+   */
+  eventType: 'subscription.paused';
+
+  /**
+   * The version of the API used during the event.
+   */
+  apiVersion: string;
+
+  /**
+   * The date and time when the subscription was paused, in ISO date format.
+   */
+  createdAt: string;
+
+  /**
+   * The email address of the customer with the paused subscription.
+   */
+  customerEmail: string;
+
+  /**
+   * Unique identifier for the customer with the paused subscription.
+   */
+  customerId: string;
+
+  /**
+   * The full name of the customer with the paused subscription.
+   */
+  customerName: string;
+}
+
+/**
+ * Represents the details of a subscription cancellation event.
+ * This webhook event is triggered when a subscription is canceled.
+ */
+export interface SubscriptionCancel {
+  /**
+   * Unique identifier for the canceled subscription event.
+   */
+  id: string;
+
+  /**
+   * The event type, which is 'subscription.cancel' for this event.
+   */
+  eventType: 'subscription.cancel';
+
+  /**
+   * The version of the API used during the event.
+   */
+  apiVersion: string;
+
+  /**
+   * The date and time when the subscription was canceled, in ISO date format.
+   */
+  createdAt: string;
+
+  /**
+   * The email address of the customer whose subscription was canceled.
+   */
+  customerEmail: string;
+
+  /**
+   * Unique identifier for the customer whose subscription was canceled.
+   */
+  customerId: string;
+
+  /**
+   * The full name of the customer whose subscription was canceled.
+   */
+  customerName: string;
+}
+
+/**
+ * Represents the details of a refund event.
+ * This webhook event is triggered when a payment is fully or partially refunded.
+ */
+export interface RefundCreated {
+  /**
+   * Unique identifier for the refund.
+   */
+  id: string;
+
+  /**
+   * The event type, which is 'refund.created' for this event.
+   */
+  eventType: 'refund.created';
+
+  /**
+   * The version of the API used during the event.
+   */
+  apiVersion: string;
+
+  /**
+   * The date and time when the refund was created, in ISO date format.
+   */
+  createdAt: string;
+
+  /**
+   * The status of the refund.
+   */
+  status: 'pending' | 'succeeded' | 'failed';
+
+  /**
+   * The refunded amount, in cents.
+   */
+  amountInCents: number;
+
+  /**
+   * The currency of the refund (e.g., 'GTQ', 'USD').
+   */
+  currency: string;
+
+  /**
+   * The reason for the refund, if one was given.
+   */
+  reason: string | null;
+
+  /**
+   * The refunded payment intent.
+   */
+  paymentIntent: {
+    /**
+     * Unique identifier for the payment intent.
+     */
+    id: string;
+  };
+
+  /**
+   * Customer details associated with the refunded payment.
+   */
+  customer: CustomerSummary;
+}
+
+/**
+ * Represents the possible webhook events that can be triggered in the Recurrente system.
+ * These events correspond to various stages of the payment or subscription lifecycle.
+ */
+export type RecurrenteWebhookEvent =
+  | PaymentIntentSucceeded
+  | PaymentIntentFailed
+  | SubscriptionCreate
+  | SubscriptionPastDue
+  | SubscriptionPaused
+  | SubscriptionCancel
+  | RefundCreated;
+
+/**
+ * Represents a webhook event whose type is unknown to this version of the
+ * library (e.g., an event type added by Recurrente after its release).
+ * Its fields are passed through as received, in camelCase.
+ */
+export interface UnknownWebhookEvent {
+  /**
+   * The event ID.
+   */
+  id: string;
+
+  /**
+   * The event type, as sent by Recurrente.
+   */
+  eventType: string;
+
+  /**
+   * Every other field of the event.
+   */
+  [key: string]: unknown;
+}
+
+/**
+ * Any webhook event: one of the known `RecurrenteWebhookEvent` types, or an
+ * `UnknownWebhookEvent`. Use `isKnownWebhookEvent` to tell them apart.
+ */
+export type WebhookEvent = RecurrenteWebhookEvent | UnknownWebhookEvent;
+
+/**
+ * A generic type for handling webhook events.
+ * The handler function receives an event of type T and performs some action.
+ * Returned promises are awaited by `WebhookRouter`.
+ *
+ * @template T - The type of the webhook event being handled.
+ * @param event - The webhook event object.
+ * @param delivery - The delivery that carried the event, when it was received by a webhook endpoint.
+ */
+export type WebhookHandler<T> = (
+  event: T,
+  delivery?: WebhookDelivery
+) => void | Promise<void>;
+
+/**
+ * Represents the Svix delivery that carried a webhook event.
+ */
+export interface WebhookDelivery {
+  /**
+   * The Svix message ID (`svix-id` or `webhook-id` header), shared by every
+   * retry of a delivery.
+   */
+  id: string;
+
+  /**
+   * Whether the message ID was already processed. Only set to `true` by
+   * endpoints with an idempotency store and the `'flag'` duplicate policy.
+   */
+  duplicate: boolean;
+}
+
+/**
+ * The type of every known webhook event (e.g., 'subscription.cancel').
+ */
+export type WebhookEventType = RecurrenteWebhookEvent['eventType'];
+
+/**
+ * The resource part of an event type (e.g., 'subscription' for 'subscription.cancel').
+ */
+type WebhookEventResource<T> = T extends `${infer Resource}.${string}`
+  ? Resource
+  : never;
+
+/**
+ * The patterns accepted by `WebhookRouter.on`: an exact event type, every
+ * event of a resource (e.g., 'subscription.*') or every event ('*').
+ */
+export type WebhookEventPattern =
+  | WebhookEventType
+  | `${WebhookEventResource<WebhookEventType>}.*`
+  | '*';
+
+/**
+ * The events matched by a pattern. Wildcards also match events of types
+ * unknown to this version of the library.
+ *
+ * @template P - The pattern.
+ */
+export type WebhookEventForPattern<P extends WebhookEventPattern> =
+  P extends '*'
+    ? WebhookEvent
+    : P extends `${infer Resource}.*`
+      ?
+          | Extract<
+              RecurrenteWebhookEvent,
+              {eventType: `${Resource}.${string}`}
+            >
+          | UnknownWebhookEvent
+      : Extract<RecurrenteWebhookEvent, {eventType: P}>;
+
+/**
+ * Represents the options used to create a `WebhookRouter`.
+ */
+export interface WebhookRouterOptions {
+  /**
+   * What to do with events that no handler matches:
+   * - `'ignore'`: nothing.
+   * - `'warn'`: log a warning with the event type and ID (default).
+   * - `'throw'`: reject with an `UnhandledWebhookEventError`.
+   * @optional
+   */
+  unhandled?: UnhandledWebhookEventPolicy;
+
+  /**
+   * Receives the unhandled event warnings. Defaults to `console`.
+   * @optional
+   */
+  logger?: Logger;
+
+  /**
+   * How the handlers matching an event are run:
+   * - `'sequential'`: one after another, in registration order (default).
+   * - `'parallel'`: all at once.
+   * A failing handler never prevents the others from running.
+   * @optional
+   */
+  execution?: 'sequential' | 'parallel';
+}
+
+/**
+ * Represents what a `WebhookRouter` does with events that no handler matches.
+ */
+export type UnhandledWebhookEventPolicy = 'ignore' | 'warn' | 'throw';
+
+/**
+ * Represents a handler that threw (or rejected) while processing an event.
+ */
+export interface WebhookHandlerFailure {
+  /**
+   * The pattern the handler was registered for.
+   */
+  pattern: WebhookEventPattern;
+
+  /**
+   * The name of the handler function, or `anonymous` if it has none.
+   */
+  handler: string;
+
+  /**
+   * The error thrown by the handler.
+   */
+  error: unknown;
+}
+
+/**
+ * Represents the outcome of dispatching an event to its handlers.
+ */
+export interface WebhookDispatchResult {
+  /**
+   * The dispatched event.
+   */
+  event: WebhookEvent;
+
+  /**
+   * The number of handlers that matched the event.
+   */
+  handlerCount: number;
+
+  /**
+   * The handlers that failed, in registration order.
+   */
+  failures: WebhookHandlerFailure[];
+
+  /**
+   * Whether every matching handler succeeded.
+   */
+  ok: boolean;
+}
+
+/**
+ * Represents the options of the ready-made webhook endpoints (Express,
+ * Fastify, Node `http` and Fetch API handlers).
+ */
+export interface WebhookEndpointOptions {
+  /**
+   * The router that receives the verified events, such as a `WebhookRouter`.
+   * Defaults to the handlers registered with `registerWebhookHandler`.
+   * @optional
+   */
+  router?: {
+    dispatch(
+      event: WebhookEvent,
+      overrides?: Pick<WebhookRouterOptions, 'unhandled' | 'logger'>,
+      delivery?: WebhookDelivery
+    ): Promise<WebhookDispatchResult>;
+  };
+
+  /**
+   * The signing secrets and timestamp tolerance used to verify deliveries.
+   * @optional
+   */
+  verification?: WebhookVerificationOptions;
+
+  /**
+   * How the verified events are decoded. Defaults to lenient decoding.
+   * @optional
+   */
+  decoding?: DecodingOptions;
+
+  /**
+   * What to do with events without a handler. Overrides the policy of the
+   * `router` when set; defaults to the router's policy, or to `'warn'`.
+   * @optional
+   */
+  unhandled?: UnhandledWebhookEventPolicy;
+
+  /**
+   * Receives the warnings emitted while handling deliveries, also those of
+   * the `router`. Defaults to the router's logger, or to `console`.
+   * @optional
+   */
+  logger?: Logger;
+
+  /**
+   * Called with every error that made a delivery fail: verification and
+   * decoding errors, and the errors thrown by handlers.
+   * @optional
+   */
+  onError?: (error: unknown) => void;
+
+  /**
+   * Records the processed deliveries to detect the ones Svix sends again.
+   * Without it, every delivery is dispatched.
+   * @optional
+   */
+  idempotency?: WebhookIdempotencyOptions;
+
+  /**
+   * The largest body the Node and Express handlers read from the request
+   * stream, in bytes; larger deliveries get a 413. Defaults to 1 MB.
+   * @optional
+   */
+  maxBodySize?: number;
+}
+
+/**
+ * Represents the options used to verify a webhook delivery.
+ */
+export interface WebhookVerificationOptions {
+  /**
+   * The endpoint signing secret (`whsec_...`). While rotating it, pass both
+   * the new and the old secret: a delivery signed with any of them is valid.
+   * Defaults to the `RECURRENTE_SVIX_SIGNING_SECRET` environment variable.
+   * @optional
+   */
+  secret?: string | string[];
+
+  /**
+   * How far the delivery timestamp may be from the current time, in
+   * milliseconds, to protect against replayed deliveries. Defaults to 5 minutes.
+   * @optional
+   */
+  tolerance?: number;
+
+  /**
+   * The paths of further opaque values of the payload, such as extra fields
+   * holding your own data (e.g., `['checkout.customFields']`), whose keys are
+   * kept as sent instead of being converted to camelCase. Paths list camelCase
+   * property names separated by dots, with `[]` for the items of an array.
+   * @optional
+   */
+  opaquePaths?: string[];
+}
+
+/**
+ * Represents a store of the Svix message IDs already processed by a webhook
+ * endpoint. `MemoryIdempotencyStore` and `FileIdempotencyStore` are provided;
+ * implement this interface to keep them in Redis, a SQL table, etc.
+ *
+ * Implement `claim` and `release` together. Without them, the endpoint checks
+ * `has` before dispatching and calls `add` after, which is not atomic: a retry
+ * that arrives while the first delivery is still being processed (e.g., a
+ * handler slower than the Svix timeout) is processed twice.
+ */
+export interface WebhookIdempotencyStore {
+  /**
+   * Checks whether a message ID was recorded and has not expired.
+   *
+   * @param id - The Svix message ID.
+   */
+  has(id: string): Promise<boolean>;
+
+  /**
+   * Records a processed message ID, replacing its claim if any.
+   *
+   * @param id - The Svix message ID.
+   * @param retention - How long to keep the ID, in milliseconds.
+   */
+  add(id: string, retention: number): Promise<void>;
+
+  /**
+   * Atomically claims a message ID before its delivery is processed: sets it
+   * only if it is neither recorded nor claimed (e.g., `SET id NX PX lease` in
+   * Redis). The claim expires after `lease`, so a crashed process does not
+   * block the retries for good.
+   *
+   * @param id - The Svix message ID.
+   * @param lease - How long the claim lasts, in milliseconds.
+   * @returns Whether the ID was claimed; false if it is recorded or claimed already.
+   * @optional
+   */
+  claim?(id: string, lease: number): Promise<boolean>;
+
+  /**
+   * Drops the claim of a message ID whose delivery failed, so a retry can
+   * process it.
+   *
+   * @param id - The Svix message ID.
+   * @optional
+   */
+  release?(id: string): Promise<void>;
+}
+
+/**
+ * Represents the deduplication options of a webhook endpoint.
+ */
+export interface WebhookIdempotencyOptions {
+  /**
+   * Where the processed message IDs are recorded.
+   * @required
+   */
+  store: WebhookIdempotencyStore;
+
+  /**
+   * How long a processed message ID is remembered, in milliseconds.
+   * Defaults to 3 days, longer than the Svix retry schedule.
+   * @optional
+   */
+  retention?: number;
+
+  /**
+   * How long a delivery being processed holds its message ID, in
+   * milliseconds, with stores that implement `claim`. Defaults to 10 minutes;
+   * set it longer than the slowest handler.
+   * @optional
+   */
+  lease?: number;
+
+  /**
+   * What to do with a delivery whose message ID was already processed:
+   * - `'skip'`: respond 200 without dispatching it (default).
+   * - `'flag'`: dispatch it with `delivery.duplicate` set to `true`.
+   * @optional
+   */
+  duplicates?: 'skip' | 'flag';
+}
+
+/**
+ * Represents the options used to create a `MemoryIdempotencyStore`.
+ */
+export interface MemoryIdempotencyStoreOptions {
+  /**
+   * The maximum number of message IDs kept; the least recently used ones are
+   * evicted first. Defaults to 10,000.
+   * @optional
+   */
+  maxSize?: number;
+}
+
+/**
+ * Represents the HTTP response of a webhook endpoint for a delivery.
+ *
+ * - 200: the event was verified and dispatched (or deliberately ignored, as
+ *   unhandled events and skipped duplicates).
+ * - 400: the delivery could not be verified or decoded; it is not retried usefully.
+ * - 409: another delivery of the same message is still being processed;
+ *   Recurrente retries it later.
+ * - 422: the event was not handled and the `'throw'` policy is set.
+ * - 500: a handler failed or the endpoint is misconfigured; Recurrente retries it.
+ */
+export interface WebhookEndpointResponse {
+  /**
+   * The HTTP status code.
+   */
+  status: number;
+
+  /**
+   * The JSON body.
+   */
+  body: {received: true; duplicate?: true} | {error: string};
+}
+
+/**
+ * A recursively optional version of a type, used to override the fields of
+ * a fixture event. Arrays are replaced rather than merged.
+ *
+ * @template T - The overridden type.
+ */
+export type DeepPartial<T> = T extends (infer U)[]
+  ? U[]
+  : T extends object
+    ? {[K in keyof T]?: DeepPartial<T[K]>}
+    : T;
+
+/**
+ * Represents the Svix headers of a signed webhook delivery.
+ */
+export interface SignedWebhookHeaders {
+  /**
+   * The message ID.
+   */
+  'svix-id': string;
+
+  /**
+   * The time the delivery was signed, in seconds since the epoch.
+   */
+  'svix-timestamp': string;
+
+  /**
+   * The signature, as `v1,<base64 HMAC>`.
+   */
+  'svix-signature': string;
+
+  /**
+   * Allows passing the headers wherever a request header record is expected.
+   */
+  [header: string]: string;
+}
+
+/**
+ * Represents the options used to sign a webhook payload.
+ */
+export interface SignWebhookOptions {
+  /**
+   * The signing secret (`whsec_...`), as passed to `verifySvixSignature`.
+   * @required
+   */
+  secret: string;
+
+  /**
+   * The message ID. Defaults to a random `msg_` ID.
+   * @optional
+   */
+  id?: string;
+
+  /**
+   * The signing time. Defaults to now.
+   * @optional
+   */
+  timestamp?: Date;
+}
+
+/**
+ * Represents a fixture event with its signed wire format, ready to pass to
+ * `verifySvixSignature`, `processWebhook` or an HTTP request.
+ *
+ * @template T - The type of the event.
+ */
+export interface SignedWebhook<T> {
+  /**
+   * The event, in camelCase, as handlers receive it.
+   */
+  event: T;
+
+  /**
+   * The request body: the event in snake_case JSON.
+   */
+  payload: string;
+
+  /**
+   * The Svix headers signing the payload.
+   */
+  headers: SignedWebhookHeaders;
+}
+
+/*
+
+Client
+
+*/
+
+/**
+ * Represents the options used to create a `RecurrenteClient`.
+ */
+export interface RecurrenteClientConfig {
+  /**
+   * The public key of the Recurrente account.
+   * @required
+   */
+  publicKey: string;
+
+  /**
+   * The secret key of the Recurrente account.
+   * @required
+   */
+  secretKey: string;
+
+  /**
+   * Base URL of the Recurrente API, without the `/api` suffix.
+   * Defaults to `https://app.recurrente.com`.
+   * @optional
+   */
+  baseUrl?: string;
+
+  /**
+   * Request timeout in milliseconds. No timeout is applied when omitted.
+   * @optional
+   */
+  timeout?: number;
+
+  /**
+   * Extra headers sent with every request (e.g., a custom `User-Agent`).
+   * The authentication headers cannot be overridden.
+   * @optional
+   */
+  headers?: Record<string, string>;
+
+  /**
+   * Retry policy for transient failures, or `false` to disable retries.
+   * Retries are enabled with the default `RetryPolicy` when omitted.
+   * @optional
+   */
+  retry?: RetryPolicy | false;
+
+  /**
+   * How responses are checked against their expected shape.
+   * Defaults to `'lenient'`.
+   * @optional
+   */
+  decoding?: DecodingMode;
+
+  /**
+   * Receives the warnings emitted by the client (e.g., lenient decoding
+   * reports). Warnings are dropped when omitted.
+   * @optional
+   */
+  logger?: Logger;
+}
+
+/**
+ * Represents how responses and webhook payloads are checked at runtime.
+ *
+ * - `'strict'`: any missing, mistyped or unknown field throws a `DecodingError`.
+ * - `'lenient'`: missing and mistyped fields are reported to the logger as a
+ *   structured warning and the payload is returned as received. Unknown fields
+ *   are passed through without a warning.
+ */
+export type DecodingMode = 'strict' | 'lenient';
+
+/**
+ * Represents the options used to decode a payload.
+ */
+export interface DecodingOptions {
+  /**
+   * The decoding mode. Defaults to `'lenient'`.
+   * @optional
+   */
+  mode?: DecodingMode;
+
+  /**
+   * Receives lenient decoding warnings. Warnings are dropped when omitted.
+   * @optional
+   */
+  logger?: Logger;
+}
+
+/**
+ * Represents a destination for the warnings emitted by the library.
+ * `console` satisfies this interface, as do most logging libraries.
+ */
+export interface Logger {
+  /**
+   * Logs a warning with structured details.
+   * @required
+   */
+  warn(message: string, details?: Record<string, unknown>): void;
+}
+
+/**
+ * Represents the retry policy applied to transient request failures.
+ *
+ * Failed requests are retried with exponential backoff: the delay before retry
+ * `n` is `initialDelay * backoffFactor ^ (n - 1)`, capped at `maxDelay`.
+ */
+export interface RetryPolicy {
+  /**
+   * Maximum number of attempts, including the first one. `1` disables retries.
+   * Defaults to 3.
+   * @optional
+   */
+  maxAttempts?: number;
+
+  /**
+   * Delay before the first retry, in milliseconds. Defaults to 500.
+   * @optional
+   */
+  initialDelay?: number;
+
+  /**
+   * Upper bound for the delay between attempts, in milliseconds. Defaults to 8000.
+   * @optional
+   */
+  maxDelay?: number;
+
+  /**
+   * Multiplier applied to the delay after each attempt. Defaults to 2.
+   * @optional
+   */
+  backoffFactor?: number;
+
+  /**
+   * Whether to randomize each delay between 0 and the computed backoff
+   * ("full jitter") to avoid synchronized retries. Defaults to true.
+   * @optional
+   */
+  jitter?: boolean;
+
+  /**
+   * HTTP status codes considered transient.
+   * Defaults to 408, 429, 500, 502, 503 and 504.
+   * @optional
+   */
+  retryableStatusCodes?: number[];
+
+  /**
+   * HTTP methods that are always safe to retry.
+   * Defaults to GET, HEAD, OPTIONS, PUT and DELETE. Any other method (e.g., POST)
+   * is only retried when the request carries an `Idempotency-Key` header.
+   * @optional
+   */
+  retryableMethods?: string[];
+
+  /**
+   * Whether to wait for the delay requested by a `Retry-After` header. When
+   * it is longer than `maxDelay`, the request is not retried: a 429 fails with
+   * a `RateLimitError` whose `retryAfter` holds the requested delay, a 5xx with
+   * a `ServerError`. Defaults to true.
+   * @optional
+   */
+  respectRetryAfter?: boolean;
+}
+
+/**
+ * Represents per-request options accepted by the API methods.
+ */
+export interface RequestOptions {
+  /**
+   * Key that makes a mutating request safe to repeat.
+   * Sent as the `Idempotency-Key` header; repeating a call with the same key
+   * returns the first result instead of performing the operation again.
+   * A key is generated automatically for creations and updates when retries are enabled.
+   * @optional
+   */
+  idempotencyKey?: string;
+}
+
+/**
+ * Represents the options accepted by paginated `list()` methods.
+ *
+ * @template T - The type of the listed items.
+ */
+export interface PaginationOptions<T> {
+  /**
+   * The first page to fetch. Defaults to 1.
+   * @optional
+   */
+  startPage?: number;
+
+  /**
+   * Callback invoked with every page as soon as it is fetched, before its
+   * items are yielded. Returned promises are awaited.
+   * @optional
+   */
+  onPage?: (items: T[], page: number) => void | Promise<void>;
+}
+
+/*
+
+Mock Server
+
+*/
+
+/**
+ * Represents the options used to create a `MockRecurrenteServer`.
+ */
+export interface MockServerOptions {
+  /**
+   * The public key the server accepts. Defaults to `'pk_test_mock'`.
+   * @optional
+   */
+  publicKey?: string;
+
+  /**
+   * The secret key the server accepts. Defaults to `'sk_test_mock'`.
+   * @optional
+   */
+  secretKey?: string;
+
+  /**
+   * A delay added to every response, in milliseconds. Defaults to 0.
+   * @optional
+   */
+  latency?: number;
+
+  /**
+   * The number of items in each page of a list. Defaults to 10.
+   * @optional
+   */
+  pageSize?: number;
+
+  /**
+   * Where and how the server delivers the webhooks that follow its state changes.
+   * @optional
+   */
+  webhooks?: MockWebhookOptions;
+}
+
+/**
+ * Represents the webhook delivery settings of a `MockRecurrenteServer`.
+ */
+export interface MockWebhookOptions {
+  /**
+   * The URL that receives the signed events (e.g., 'http://127.0.0.1:3000/webhooks').
+   * When omitted, events are signed and recorded but not sent.
+   * @optional
+   */
+  url?: string;
+
+  /**
+   * The signing secret, in the `whsec_` format used by Svix. Defaults to a
+   * test secret, available as `webhookSecret` on the server.
+   * @optional
+   */
+  secret?: string;
+}
+
+/**
+ * Represents a failure injected into the responses of a `MockRecurrenteServer`.
+ */
+export interface MockFault {
+  /**
+   * Only affect requests with this HTTP method (e.g., 'POST'). Defaults to any method.
+   * @optional
+   */
+  method?: string;
+
+  /**
+   * Only affect requests whose path, relative to `/api`, starts with this
+   * string (e.g., '/products') or matches this expression. Defaults to any path.
+   * @optional
+   */
+  path?: string | RegExp;
+
+  /**
+   * The status code to respond with instead of handling the request
+   * (e.g., 503 or 429). When omitted, the request is handled normally after
+   * the `latency`.
+   * @optional
+   */
+  status?: number;
+
+  /**
+   * The JSON body of the injected response. Defaults to an error message.
+   * @optional
+   */
+  body?: unknown;
+
+  /**
+   * The value of the `Retry-After` header, in seconds.
+   * @optional
+   */
+  retryAfter?: number;
+
+  /**
+   * A delay before responding, in milliseconds.
+   * @optional
+   */
+  latency?: number;
+
+  /**
+   * The number of requests affected. Defaults to 1; use `Infinity` for every request.
+   * @optional
+   */
+  times?: number;
+}
 
-        /**
-         * The second line of the address, if any.
-         */
-        addressLine2: string | null;
+/**
+ * Represents a request received by a `MockRecurrenteServer`.
+ */
+export interface MockRequest {
+  /**
+   * The HTTP method.
+   */
+  method: string;
 
-        /**
-         * The city associated with the address.
-         */
-        city: string;
+  /**
+   * The path, relative to `/api` (e.g., '/products/prod_000001').
+   */
+  path: string;
 
-        /**
-         * The country associated with the address.
-         */
-        country: string;
+  /**
+   * The query string parameters.
+   */
+  query: Record<string, string | string[]>;
 
-        /**
-         * The postal code or zip code for the address.
-         */
-        zipCode: string;
-      };
+  /**
+   * The request headers, with lower-case names.
+   */
+  headers: Record<string, string | string[] | undefined>;
 
-      /**
-       * The phone number associated with the paymentable entity.
-       */
-      phoneNumber: string;
-    };
-  };
+  /**
+   * The parsed JSON body, if any.
+   */
+  body: unknown;
+}
 
+/**
+ * Represents a subscription added directly to the state of a
+ * `MockRecurrenteServer`, as if a customer had paid its checkout.
+ */
+export interface MockSubscriptionInput {
   /**
-   * The product associated with the failed payment intent.
+   * The ID of a recurring price of a product created on the server.
+   * @required
    */
-  product: {
-    /**
-     * Unique identifier for the product.
-     */
-    id: string;
-  };
+  priceId: string;
 
   /**
-   * Invoice details related to the payment, if available.
+   * The initial status. Defaults to `'active'`.
+   * @optional
    */
-  invoice: {
-    /**
-     * Unique identifier for the invoice.
-     */
-    id: string;
+  status?: SubscriptionStatus;
 
-    /**
-     * The URL to view or download the tax invoice, if available.
-     * Null if no tax invoice is available.
-     */
-    taxInvoiceUrl: string | null;
+  /**
+   * The subscriber. Defaults to a test customer.
+   * @optional
+   */
+  subscriber?: {
+    email?: string;
+    fullName?: string;
   };
 }
 
 /**
- * Represents the details of a subscription creation event.
- * This webhook event is triggered when a new subscription is created.
+ * Represents a checkout paid on a `MockRecurrenteServer`.
  */
-export interface SubscriptionCreate {
+export interface MockCheckoutInput {
   /**
-   * Unique identifier for the subscription event.
+   * The ID of the price paid. A recurring price also starts a subscription.
+   * @required
    */
-  id: string;
+  priceId: string;
 
   /**
-   * The event type, which is 'subscription.create' for this event.
+   * The customer who pays. Defaults to a test customer; customers are
+   * reused by email.
+   * @optional
    */
-  eventType: 'subscription.create';
+  subscriber?: {
+    email?: string;
+    fullName?: string;
+  };
 
   /**
-   * The version of the API used during the event.
+   * Metadata attached to the checkout, sent back in `payment_intent.succeeded`.
+   * @optional
    */
-  apiVersion: string;
+  metadata?: Record<string, string>;
+}
 
+/**
+ * Represents the outcome of a checkout paid on a `MockRecurrenteServer`.
+ */
+export interface MockCheckoutResult {
   /**
-   * The date and time when the subscription was created, in ISO date format.
+   * The ID of the checkout.
    */
-  createdAt: string;
+  checkoutId: string;
 
   /**
-   * The email address of the customer who created the subscription.
+   * The ID of the payment.
    */
-  customerEmail: string;
+  paymentId: string;
 
   /**
-   * Unique identifier for the customer.
+   * The subscription started by the checkout, for recurring prices.
    */
-  customerId: string;
+  subscription?: SubscriptionStatusResponse;
+}
 
+/**
+ * Represents the options used to advance the clock of a `MockRecurrenteServer`.
+ */
+export interface MockClockOptions {
   /**
-   * The full name of the customer who created the subscription.
+   * Decline the renewal payments charged while the clock advances, making
+   * active subscriptions past due and canceling past due ones.
+   * Defaults to false.
+   * @optional
    */
-  customerName: string;
+  declinePayments?: boolean;
 }
 
 /**
- * Represents the details of a subscription past due event.
- * This webhook event is triggered when a subscription becomes past due, indicating that payment has not been made on time.
+ * Represents a webhook event emitted by a `MockRecurrenteServer`.
  */
-export interface SubscriptionPastDue {
+export interface MockWebhookDelivery {
   /**
-   * Unique identifier for the past due subscription event.
+   * The event, in camelCase.
    */
-  id: string;
+  event: RecurrenteWebhookEvent;
 
   /**
-   * The event type, which is 'subscription.past_due' for this event.
+   * The request body, in snake_case.
    */
-  eventType: 'subscription.past_due';
+  payload: string;
 
   /**
-   * The version of the API used during the event.
+   * The Svix signature headers sent with the payload.
    */
-  apiVersion: string;
+  headers: SignedWebhookHeaders;
 
   /**
-   * The date and time when the subscription became past due, in ISO date format.
+   * The status code returned by the webhook URL, once delivered.
    */
-  createdAt: string;
+  status?: number;
 
   /**
-   * The email address of the customer with the past due subscription.
+   * The error that prevented the delivery, if any.
    */
-  customerEmail: string;
+  error?: unknown;
+}
 
-  /**
-   * Unique identifier for the customer with the past due subscription.
-   */
-  customerId: string;
+/*
+
+Catalog Sync
 
+*/
+
+/**
+ * Represents a catalog manifest: the products and prices that should exist in
+ * the account, each keyed by a stable external ID.
+ */
+export interface CatalogManifest {
   /**
-   * The full name of the customer with the past due subscription.
+   * The products of the catalog.
+   * @required
    */
-  customerName: string;
+  products: CatalogManifestProduct[];
 }
 
 /**
- * Represents the details of a subscription paused event.
- * This webhook event is triggered when a subscription is paused.
+ * Represents a product in a catalog manifest. Optional fields left out of the
+ * manifest are not managed, and keep whatever value the product has.
  */
-export interface SubscriptionPaused {
+export interface CatalogManifestProduct {
   /**
-   * Unique identifier for the paused subscription event.
+   * The stable ID of the product, stored in its `external_id` metadata.
+   * @required
    */
-  id: string;
+  externalId: string;
 
   /**
-   * The event type, which is 'subscription.paused' for this event.
+   * The name of the product.
+   * @required
    */
-  eventType: 'subscription.paused';
+  name: string;
 
   /**
-   * The version of the API used during the event.
+   * The description of the product.
+   * @optional
    */
-  apiVersion: string;
+  description?: string;
 
   /**
-   * The date and time when the subscription was paused, in ISO date format.
+   * URL to redirect the user after a successful transaction.
+   * @optional
    */
-  createdAt: string;
+  successUrl?: string;
 
   /**
-   * The email address of the customer with the paused subscription.
+   * URL to redirect the user after canceling.
+   * @optional
    */
-  customerEmail: string;
+  cancelUrl?: string;
 
   /**
-   * Unique identifier for the customer with the paused subscription.
+   * Custom terms and conditions for the product.
+   * @optional
    */
-  customerId: string;
+  customTermsAndConditions?: string;
 
   /**
-   * The full name of the customer with the paused subscription.
+   * Defines whether a phone number is required. New products default to 'none'.
+   * @optional
    */
-  customerName: string;
+  phoneRequirement?: 'required' | 'optional' | 'none';
+
+  /**
+   * Defines whether an address is required. New products default to 'none'.
+   * @optional
+   */
+  addressRequirement?: 'required' | 'optional' | 'none';
+
+  /**
+   * Defines whether billing information is required. New products default to 'none'.
+   * @optional
+   */
+  billingInfoRequirement?: 'optional' | 'none';
+
+  /**
+   * The metadata of the product, besides the keys used by the sync. When
+   * given, it replaces the metadata of the product.
+   * @optional
+   */
+  metadata?: Record<string, string>;
+
+  /**
+   * The prices of the product: all one-time, or all recurring.
+   * @required
+   */
+  prices: CatalogManifestPrice[];
 }
 
 /**
- * Represents the details of a subscription cancellation event.
- * This webhook event is triggered when a subscription is canceled.
+ * Represents a price in a catalog manifest. Prices with a billing interval are
+ * recurring; the others are one-time.
  */
-export interface SubscriptionCancel {
+export interface CatalogManifestPrice {
   /**
-   * Unique identifier for the canceled subscription event.
+   * The stable ID of the price, unique within its product.
+   * @required
    */
-  id: string;
+  externalId: string;
 
   /**
-   * The event type, which is 'subscription.cancel' for this event.
+   * The amount to charge in cents.
+   * @required
    */
-  eventType: 'subscription.cancel';
+  amountInCents: number;
 
   /**
-   * The version of the API used during the event.
+   * The currency of the price. Defaults to 'GTQ'.
+   * @optional
    */
-  apiVersion: string;
+  currency?: 'GTQ' | 'USD';
 
   /**
-   * The date and time when the subscription was canceled, in ISO date format.
+   * The billing interval period, for recurring prices.
+   * @optional
    */
-  createdAt: string;
+  billingInterval?: 'month' | 'week' | 'year';
 
   /**
-   * The email address of the customer whose subscription was canceled.
+   * The number of intervals between charges. Defaults to 1 for recurring prices.
+   * @optional
    */
-  customerEmail: string;
+  billingIntervalCount?: number;
+}
 
+/**
+ * Represents a step of a catalog sync plan.
+ */
+export type CatalogSyncAction =
+  | {
+      /**
+       * Creates a product that is in the manifest but not in the account.
+       */
+      type: 'create';
+
+      /**
+       * The external ID of the product.
+       */
+      externalId: string;
+
+      /**
+       * The request that creates the product.
+       */
+      request: CreateProductRequest | ProductSubscription;
+
+      /**
+       * The external IDs of the prices, in the order of `pricesAttributes`.
+       */
+      priceExternalIds: string[];
+    }
+  | {
+      /**
+       * Updates a product that differs from the manifest.
+       */
+      type: 'update';
+
+      /**
+       * The external ID of the product.
+       */
+      externalId: string;
+
+      /**
+       * The ID of the product in the account.
+       */
+      productId: string;
+
+      /**
+       * The patch sent to `updateProduct`, including price changes and
+       * `_destroy` removals.
+       */
+      request: UpdateProductRequest;
+
+      /**
+       * A description of each change (e.g., 'name: "Plan" -> "Plan Pro"').
+       */
+      changes: string[];
+    };
+
+/**
+ * Represents a difference between the manifest and the account that the sync
+ * cannot resolve, such as a new price for an existing product.
+ */
+export interface CatalogSyncConflict {
   /**
-   * Unique identifier for the customer whose subscription was canceled.
+   * The external ID of the product.
    */
-  customerId: string;
+  externalId: string;
 
   /**
-   * The full name of the customer whose subscription was canceled.
+   * The description of the conflict.
    */
-  customerName: string;
+  message: string;
 }
 
 /**
- * Represents the possible webhook events that can be triggered in the Recurrente system.
- * These events correspond to various stages of the payment or subscription lifecycle.
+ * Represents the changes needed to make the account match a manifest.
  */
-export type RecurrenteWebhookEvent =
-  | PaymentIntentSucceeded
-  | PaymentIntentFailed
-  | SubscriptionCreate
-  | SubscriptionPastDue
-  | SubscriptionPaused
-  | SubscriptionCancel;
+export interface CatalogSyncPlan {
+  /**
+   * The creates and updates to apply, in manifest order.
+   */
+  actions: CatalogSyncAction[];
+
+  /**
+   * The differences that cannot be applied. A plan with conflicts is not applied.
+   */
+  conflicts: CatalogSyncConflict[];
+
+  /**
+   * The external IDs of the products that already match the manifest.
+   */
+  unchanged: string[];
+}
 
 /**
- * A generic type for handling webhook events.
- * The handler function receives an event of type T and performs some action.
- *
- * @template T - The type of the webhook event being handled.
- * @param event - The webhook event object.
+ * Represents the outcome of applying a catalog sync plan.
  */
-export type WebhookHandler<T> = (event: T) => void;
+export interface CatalogSyncResult {
+  /**
+   * The products created, keyed by external ID.
+   */
+  created: Record<string, GetProductResponse>;
+
+  /**
+   * The products updated, keyed by external ID.
+   */
+  updated: Record<string, GetProductResponse>;
+}
@@ -1,3 +1,134 @@
+/**
+ * The paths of the opaque, user-defined values of each request, response,
+ * webhook event and manifest type, keyed by type name.
+ *
+ * A path lists camelCase property names separated by dots, with `[]` standing
+ * for the items of an array: `[].subscriber.metadata` is the `metadata` of the
+ * subscriber of every item of a list. The property at the end of a path is
+ * still converted, but its value is copied untouched, so user-supplied keys
+ * like `orderId` or `user_ref` survive a round trip through the API. Types
+ * without opaque values are not listed.
+ */
+export const OPAQUE_PATHS: Readonly<Record<string, readonly string[]>> = {
+  // Requests
+  CreateProductRequest: ['metadata'],
+  UpdateProductRequest: ['metadata'],
+  ProductSubscription: ['metadata'],
+  CreateCheckoutRequest: ['metadata'],
+  CreateRefundRequest: ['metadata'],
+  CreateCustomerRequest: ['metadata'],
+  UpdateCustomerRequest: ['metadata'],
+
+  // Responses
+  CreateProductResponse: ['metadata'],
+  GetProductResponse: ['metadata'],
+  GetAllProductsResponse: ['[].metadata'],
+  CreateSubscriptionResponse: ['metadata'],
+  SubscriptionStatusResponse: ['subscriber.metadata'],
+  GetAllSubscriptionsResponse: ['[].subscriber.metadata'],
+  CheckoutResponse: ['metadata'],
+  GetAllCheckoutsResponse: ['[].metadata'],
+  RefundResponse: ['metadata'],
+  GetAllRefundsResponse: ['[].metadata'],
+  Customer: ['metadata'],
+  GetAllCustomersResponse: ['[].metadata'],
+
+  // Webhook events
+  PaymentIntentSucceeded: ['checkout.metadata'],
+
+  // Catalog manifests
+  CatalogManifest: ['products[].metadata'],
+};
+
+/**
+ * Options accepted by `toSnakeCase` and `toCamelCase`.
+ */
+export interface ConversionOptions {
+  /**
+   * The name of the converted type (e.g., `CreateProductRequest`), whose
+   * `OPAQUE_PATHS` are copied untouched.
+   */
+  type?: string;
+
+  /**
+   * Further paths whose values are copied untouched, in the format of
+   * `OPAQUE_PATHS`.
+   */
+  opaquePaths?: readonly string[];
+}
+
+/**
+ * Converts a single camelCase key to snake_case (e.g., "myKey" to "my_key").
+ *
+ * @param {string} key - The key to convert.
+ * @returns {string} The snake_case key.
+ */
+const snakeKey = (key: string): string =>
+  key.replace(/([A-Z])/g, '_$1').toLowerCase();
+
+/**
+ * Converts a single snake_case key to camelCase (e.g., "my_key" to "myKey").
+ *
+ * Leading underscores are kept, so keys like `_destroy` are left unchanged.
+ *
+ * @param {string} key - The key to convert.
+ * @returns {string} The camelCase key.
+ */
+const camelKey = (key: string): string =>
+  key.replace(/(?<=[a-z0-9])_([a-z0-9])/g, (match, letter) =>
+    letter.toUpperCase()
+  );
+
+/**
+ * Recursively converts the keys of a value with the given key converter,
+ * copying the values at opaque paths untouched.
+ *
+ * @param {unknown} value - The value to convert.
+ * @param {(key: string) => string} convertKey - The converter applied to each key.
+ * @param {Set<string>} opaquePaths - The opaque paths, in camelCase.
+ * @param {string} [path] - The path of the value, in camelCase.
+ * @returns {unknown} The converted value.
+ */
+const convertKeys = (
+  value: unknown,
+  convertKey: (key: string) => string,
+  opaquePaths: Set<string>,
+  path = ''
+): unknown => {
+  if (Array.isArray(value)) {
+    // Recursively convert each element in the array
+    return value.map(item =>
+      convertKeys(item, convertKey, opaquePaths, `${path}[]`)
+    );
+  } else if (value !== null && typeof value === 'object') {
+    return Object.keys(value).reduce(
+      (result, key) => {
+        const original = (value as Record<string, unknown>)[key];
+        const keyPath = path ? `${path}.${camelKey(key)}` : camelKey(key);
+        result[convertKey(key)] = opaquePaths.has(keyPath)
+          ? original
+          : convertKeys(original, convertKey, opaquePaths, keyPath);
+        return result;
+      },
+      {} as Record<string, unknown>
+    );
+  }
+  // Return non-object values as they are
+  return value;
+};
+
+/**
+ * Builds the set of opaque paths of a conversion.
+ *
+ * @param {ConversionOptions} options - The conversion options.
+ * @returns {Set<string>} The opaque paths of the type and the further paths.
+ */
+const opaquePathSet = (options: ConversionOptions): Set<string> =>
+  new Set([
+    ...((options.type !== undefined && OPAQUE_PATHS[options.type]) || []),
+    ...(options.opaquePaths || []),
+  ]);
+
 /**
  * Recursively converts all keys in an object or array from camelCase to snake_case.
  *
@@ -5,27 +136,14 @@
  * It maps camelCase keys to snake_case, which is commonly used in API requests.
  *
  * It processes nested objects and arrays recursively while preserving the original type structure.
+ * The values at the opaque paths of the type, such as its `metadata`, are copied as they are.
  *
  * @param {T} obj - The object or array to convert.
+ * @param {ConversionOptions} [options] - The converted type and further opaque paths.
  * @returns {T} The converted object or array with snake_case keys, maintaining the original structure.
  */
-export const toSnakeCase = <T>(obj: T): T => {
-  if (Array.isArray(obj)) {
-    // Recursively convert each element in the array
-    return obj.map(v => toSnakeCase(v)) as unknown as T;
-  } else if (obj !== null && typeof obj === 'object') {
-    // Convert each key in the object to snake_case and recursively process values
-    return Object.keys(obj).reduce((result, key) => {
-      const snakeKey = key.replace(/([A-Z])/g, '_$1').toLowerCase();
-      (result as Record<string, unknown>)[snakeKey] = toSnakeCase(
-        (obj as Record<string, unknown>)[key]
-      );
-      return result;
-    }, {} as T);
-  }
-  // Return non-object values as they are
-  return obj;
-};
+export const toSnakeCase = <T>(obj: T, options: ConversionOptions = {}): T =>
+  convertKeys(obj, snakeKey, opaquePathSet(options)) as T;
 
 /**
  * Recursively converts all keys in an object or array from snake_case to camelCase.
@@ -35,24 +153,11 @@ export const toSnakeCase = <T>(obj: T): T => {
  * JavaScript-based applications.
  *
  * It processes nested objects and arrays recursively while preserving the original type structure.
+ * The values at the opaque paths of the type, such as its `metadata`, are copied as they are.
  *
  * @param {T} data - The object or array to convert.
+ * @param {ConversionOptions} [options] - The converted type and further opaque paths.
  * @returns {T} The converted object or array with camelCase keys, maintaining the original structure.
  */
-export const toCamelCase = <T>(data: T): T => {
-  if (Array.isArray(data)) {
-    return data.map(item => toCamelCase(item)) as unknown as T;
-  } else if (data !== null && typeof data === 'object') {
-    return Object.keys(data).reduce((acc, key) => {
-      const camelKey = key.replace(/_([a-z])/g, (match, letter) =>
-        letter.toUpperCase()
-      );
-      (acc as Record<string, unknown>)[camelKey] = toCamelCase(
-        (data as Record<string, unknown>)[key]
-      );
-      return acc;
-    }, {} as T);
-  }
-  // Return non-object values as they are
-  return data;
-};
+export const toCamelCase = <T>(data: T, options: ConversionOptions = {}): T =>
+  convertKeys(data, camelKey, opaquePathSet(options)) as T;
@@ -0,0 +1,586 @@
+import {
+  CreateProductResponse,
+  GetProductResponse,
+  GetAllProductsResponse,
+  CreateSubscriptionResponse,
+  SubscriptionStatusResponse,
+  GetAllSubscriptionsResponse,
+  ProrationPreview,
+  CreateCheckoutResponse,
+  CheckoutResponse,
+  GetAllCheckoutsResponse,
+  PaymentIntentResponse,
+  RefundResponse,
+  GetAllRefundsResponse,
+  Customer,
+  GetAllCustomersResponse,
+  CustomerPayment,
+  PaymentIntentSucceeded,
+  PaymentIntentFailed,
+  SubscriptionCreate,
+  SubscriptionPastDue,
+  SubscriptionPaused,
+  SubscriptionCancel,
+  RefundCreated,
+  RecurrenteWebhookEvent,
+  UnknownWebhookEvent,
+  WebhookEvent,
+  DecodingOptions,
+} from '../types/globals';
+import {DecodingError, RecurrenteErrorDetails} from '../api/errors';
+import {
+  Schema,
+  checkSchema,
+  groupIssues,
+  optional,
+  nullable,
+  string,
+  number,
+  boolean,
+  oneOf,
+  array,
+  record,
+  object,
+} from './schema';
+
+/**
+ * A schema tied to the type it describes.
+ *
+ * @template T - The type of the decoded value.
+ */
+export interface Decoder<T> {
+  /**
+   * The name of the type, used in warnings and errors.
+   */
+  readonly name: string;
+
+  /**
+   * The schema of the type.
+   */
+  readonly schema: Schema;
+
+  /**
+   * Never set; only carries the decoded type.
+   */
+  readonly type?: T;
+}
+
+/**
+ * Creates a decoder for a type.
+ *
+ * @template T - The type of the decoded value.
+ * @param {string} name - The name of the type.
+ * @param {Schema} schema - The schema of the type.
+ * @returns {Decoder<T>} The decoder.
+ */
+const decoder = <T>(name: string, schema: Schema): Decoder<T> => ({
+  name,
+  schema,
+});
+
+const currency = oneOf('GTQ', 'USD');
+const interval = oneOf('month', 'week', 'year');
+const requirement = oneOf('required', 'optional', 'none');
+const billingInfoRequirement = oneOf('optional', 'none');
+const metadata = optional(record(string()));
+const reference = object({id: string()});
+
+const productFields = {
+  id: string(),
+  status: oneOf('active', 'inactive'),
+  name: string(),
+  description: optional(string()),
+  successUrl: string(),
+  cancelUrl: string(),
+  customTermsAndConditions: optional(string()),
+  phoneRequirement: requirement,
+  addressRequirement: requirement,
+  billingInfoRequirement,
+  storefrontLink: string(),
+  metadata,
+};
+
+const trialFields = {
+  periodsBeforeAutomaticCancellation: optional(nullable(number())),
+  freeTrialIntervalCount: optional(nullable(number())),
+  freeTrialInterval: optional(nullable(interval)),
+};
+
+const productSchema = object({
+  ...productFields,
+  prices: array(
+    object({
+      id: string(),
+      amountInCents: number(),
+      currency,
+      billingIntervalCount: number(),
+      billingInterval: oneOf('month', 'week', 'year', ''),
+      chargeType: oneOf('one_time', 'recurring'),
+      ...trialFields,
+    })
+  ),
+});
+
+const customerSchema = object({
+  id: string(),
+  email: string(),
+  fullName: string(),
+  firstName: string(),
+  lastName: string(),
+  phoneNumber: nullable(string()),
+  createdAt: optional(string()),
+  metadata,
+});
+
+const customerSummarySchema = object({
+  id: string(),
+  email: string(),
+  fullName: string(),
+});
+
+const subscriptionSchema = object({
+  id: string(),
+  description: string(),
+  status: oneOf(
+    'active',
+    'inactive',
+    'pending',
+    'canceled',
+    'paused',
+    'past_due'
+  ),
+  createdAt: string(),
+  updatedAt: string(),
+  currentPeriodStart: string(),
+  currentPeriodEnd: string(),
+  taxName: nullable(string()),
+  taxId: nullable(string()),
+  subscriber: customerSchema,
+  checkout: reference,
+  product: reference,
+  cancelAtPeriodEnd: optional(boolean()),
+  pausedAt: optional(nullable(string())),
+  resumesAt: optional(nullable(string())),
+});
+
+const checkoutSchema = object({
+  id: string(),
+  status: oneOf('unpaid', 'paid', 'expired'),
+  checkoutUrl: string(),
+  items: array(
+    object({
+      priceId: nullable(string()),
+      name: string(),
+      amountInCents: number(),
+      currency,
+      quantity: number(),
+    })
+  ),
+  totalInCents: number(),
+  successUrl: nullable(string()),
+  cancelUrl: nullable(string()),
+  createdAt: string(),
+  expiresAt: nullable(string()),
+  metadata,
+});
+
+const refundSchema = object({
+  id: string(),
+  status: oneOf('pending', 'succeeded', 'failed'),
+  amountInCents: number(),
+  currency: string(),
+  reason: nullable(string()),
+  paymentIntent: reference,
+  createdAt: string(),
+  metadata,
+});
+
+/*
+
+Responses
+
+*/
+
+export const createProductResponseDecoder = decoder<CreateProductResponse>(
+  'CreateProductResponse',
+  object({
+    ...productFields,
+    prices: array(
+      object({
+        id: string(),
+        amountInCents: number(),
+        currency,
+        chargeType: oneOf('one_time'),
+      })
+    ),
+  })
+);
+
+export const getProductResponseDecoder = decoder<GetProductResponse>(
+  'GetProductResponse',
+  productSchema
+);
+
+export const getAllProductsResponseDecoder = decoder<GetAllProductsResponse>(
+  'GetAllProductsResponse',
+  array(productSchema)
+);
+
+export const createSubscriptionResponseDecoder =
+  decoder<CreateSubscriptionResponse>(
+    'CreateSubscriptionResponse',
+    object({
+      ...productFields,
+      status: oneOf('active', 'inactive', 'pending'),
+      prices: array(
+        object({
+          id: string(),
+          amountInCents: number(),
+          currency,
+          billingIntervalCount: number(),
+          billingInterval: interval,
+          chargeType: oneOf('recurring'),
+          ...trialFields,
+        })
+      ),
+    })
+  );
+
+export const subscriptionStatusResponseDecoder =
+  decoder<SubscriptionStatusResponse>(
+    'SubscriptionStatusResponse',
+    subscriptionSchema
+  );
+
+export const getAllSubscriptionsResponseDecoder =
+  decoder<GetAllSubscriptionsResponse>(
+    'GetAllSubscriptionsResponse',
+    array(subscriptionSchema)
+  );
+
+export const prorationPreviewDecoder = decoder<ProrationPreview>(
+  'ProrationPreview',
+  object({
+    subscriptionId: string(),
+    currentPriceId: string(),
+    newPriceId: string(),
+    prorationAmountInCents: number(),
+    nextInvoiceAmountInCents: number(),
+    currency: string(),
+    effectiveAt: string(),
+  })
+);
+
+export const createCheckoutResponseDecoder = decoder<CreateCheckoutResponse>(
+  'CreateCheckoutResponse',
+  object({id: string(), checkoutUrl: string()})
+);
+
+export const checkoutResponseDecoder = decoder<CheckoutResponse>(
+  'CheckoutResponse',
+  checkoutSchema
+);
+
+export const getAllCheckoutsResponseDecoder = decoder<GetAllCheckoutsResponse>(
+  'GetAllCheckoutsResponse',
+  array(checkoutSchema)
+);
+
+export const paymentIntentResponseDecoder = decoder<PaymentIntentResponse>(
+  'PaymentIntentResponse',
+  object({
+    id: string(),
+    status: string(),
+    amountInCents: number(),
+    refundedAmountInCents: optional(number()),
+    currency: string(),
+  })
+);
+
+export const refundResponseDecoder = decoder<RefundResponse>(
+  'RefundResponse',
+  refundSchema
+);
+
+export const getAllRefundsResponseDecoder = decoder<GetAllRefundsResponse>(
+  'GetAllRefundsResponse',
+  array(refundSchema)
+);
+
+export const customerDecoder = decoder<Customer>('Customer', customerSchema);
+
+export const getAllCustomersResponseDecoder = decoder<GetAllCustomersResponse>(
+  'GetAllCustomersResponse',
+  array(customerSchema)
+);
+
+export const getAllCustomerPaymentsResponseDecoder = decoder<CustomerPayment[]>(
+  'CustomerPayment[]',
+  array(
+    object({
+      id: string(),
+      status: string(),
+      amountInCents: number(),
+      currency: string(),
+      createdAt: string(),
+      checkout: reference,
+      product: nullable(reference),
+    })
+  )
+);
+
+/*
+
+Webhooks
+
+*/
+
+const webhookFields = {
+  id: string(),
+  apiVersion: string(),
+  createdAt: string(),
+};
+
+const paymentFields = {
+  ...webhookFields,
+  amountInCents: number(),
+  currency: string(),
+  fee: number(),
+  vatWithheld: number(),
+  vatWithheldCurrency: string(),
+  customer: customerSummarySchema,
+  payment: object({
+    id: string(),
+    paymentable: object({
+      id: string(),
+      taxId: nullable(string()),
+      taxName: nullable(string()),
+      type: string(),
+      address: object({
+        addressLine1: string(),
+        addressLine2: nullable(string()),
+        city: string(),
+        country: string(),
+        zipCode: string(),
+      }),
+      phoneNumber: string(),
+    }),
+  }),
+  product: reference,
+  invoice: object({
+    id: string(),
+    taxInvoiceUrl: nullable(string()),
+  }),
+};
+
+const subscriptionEventFields = {
+  ...webhookFields,
+  customerEmail: string(),
+  customerId: string(),
+  customerName: string(),
+};
+
+export const paymentIntentSucceededDecoder = decoder<PaymentIntentSucceeded>(
+  'PaymentIntentSucceeded',
+  object({
+    ...paymentFields,
+    eventType: oneOf('payment_intent.succeeded'),
+    checkout: object({
+      id: string(),
+      status: string(),
+      payment: object({
+        id: string(),
+        paymentable: object({
+          type: string(),
+          id: string(),
+          taxName: nullable(string()),
+          taxId: nullable(string()),
+          address: nullable(string()),
+          phoneNumber: nullable(string()),
+        }),
+      }),
+      paymentMethod: object({
+        id: string(),
+        type: string(),
+        card: object({last4: string(), network: string()}),
+      }),
+      transferSetups: array(string()),
+      metadata: record(string()),
+    }),
+    failureReason: nullable(string()),
+  })
+);
+
+export const paymentIntentFailedDecoder = decoder<PaymentIntentFailed>(
+  'PaymentIntentFailed',
+  object({
+    ...paymentFields,
+    eventType: oneOf('payment_intent.failed'),
+    checkout: reference,
+    failureReason: string(),
+  })
+);
+
+export const subscriptionCreateDecoder = decoder<SubscriptionCreate>(
+  'SubscriptionCreate',
+  object({...subscriptionEventFields, eventType: oneOf('subscription.create')})
+);
+
+export const subscriptionPastDueDecoder = decoder<SubscriptionPastDue>(
+  'SubscriptionPastDue',
+  object({
+    ...subscriptionEventFields,
+    eventType: oneOf('subscription.past_due'),
+  })
+);
+
+export const subscriptionPausedDecoder = decoder<SubscriptionPaused>(
+  'SubscriptionPaused',
+  object({
+    ...subscriptionEventFields,
+    eventType: oneOf('subscription.paused'),
+  })
+);
+
+export const subscriptionCancelDecoder = decoder<SubscriptionCancel>(
+  'SubscriptionCancel',
+  object({...subscriptionEventFields, eventType: oneOf('subscription.cancel')})
+);
+
+export const refundCreatedDecoder = decoder<RefundCreated>(
+  'RefundCreated',
+  object({
+    ...webhookFields,
+    eventType: oneOf('refund.created'),
+    status: oneOf('pending', 'succeeded', 'failed'),
+    amountInCents: number(),
+    currency: string(),
+    reason: nullable(string()),
+    paymentIntent: reference,
+    customer: customerSummarySchema,
+  })
+);
+
+/**
+ * The decoder of each webhook event type.
+ */
+export const webhookEventDecoders: {
+  [K in RecurrenteWebhookEvent['eventType']]: Decoder<
+    Extract<RecurrenteWebhookEvent, {eventType: K}>
+  >;
+} = {
+  'payment_intent.succeeded': paymentIntentSucceededDecoder,
+  'payment_intent.failed': paymentIntentFailedDecoder,
+  'subscription.create': subscriptionCreateDecoder,
+  'subscription.past_due': subscriptionPastDueDecoder,
+  'subscription.paused': subscriptionPausedDecoder,
+  'subscription.cancel': subscriptionCancelDecoder,
+  'refund.created': refundCreatedDecoder,
+};
+
+/**
+ * Decoder used for events of a type unknown to this version of the library.
+ * Only the envelope is checked; every other field is passed through.
+ */
+const unknownWebhookEventDecoder = decoder<UnknownWebhookEvent>(
+  'UnknownWebhookEvent',
+  (value, path, context) =>
+    object({id: string(), eventType: string({nonEmpty: true})})(value, path, {
+      ...context,
+      reportUnknownKeys: false,
+    })
+);
+
+/**
+ * Checks whether an event has a type known to this version of the library.
+ *
+ * @param {WebhookEvent} event - The webhook event.
+ * @returns {boolean} Whether the event is a `RecurrenteWebhookEvent`.
+ */
+export const isKnownWebhookEvent = (
+  event: WebhookEvent
+): event is RecurrenteWebhookEvent =>
+  Object.prototype.hasOwnProperty.call(webhookEventDecoders, event.eventType);
+
+/**
+ * Checks a camelCased payload against its decoder.
+ *
+ * In strict mode any missing, mistyped or unknown field throws. In lenient
+ * mode missing and mistyped fields are reported to the logger, if one is
+ * given, and the payload is returned untouched; unknown fields are not
+ * reported, as the API may add fields at any time, and are passed through.
+ *
+ * @template T - The type of the decoded value.
+ * @param {Decoder<T>} expected - The decoder of the expected type.
+ * @param {unknown} data - The payload to decode.
+ * @param {DecodingOptions} [options] - The decoding mode and logger.
+ * @param {RecurrenteErrorDetails} [details] - Request details attached to warnings and errors.
+ * @returns {T} The payload, typed.
+ * @throws {DecodingError} In strict mode, if the payload does not match.
+ */
+export function decode<T>(
+  expected: Decoder<T>,
+  data: unknown,
+  options: DecodingOptions = {},
+  details: RecurrenteErrorDetails = {}
+): T {
+  const issues = checkSchema(expected.schema, data, {
+    reportUnknownKeys: options.mode === 'strict',
+  });
+
+  if (issues.length > 0) {
+    const message = `Unexpected ${expected.name} payload`;
+
+    if (options.mode === 'strict') {
+      throw new DecodingError(message, expected.name, groupIssues(issues), {
+        ...details,
+        body: data,
+      });
+    }
+
+    options.logger?.warn(message, {
+      type: expected.name,
+      method: details.method,
+      path: details.path,
+      requestId: details.requestId,
+      issues,
+    });
+  }
+
+  return data as T;
+}
+
+/**
+ * Finds the decoder of a webhook event type: the decoder of the known type,
+ * or the decoder of `UnknownWebhookEvent`.
+ *
+ * @param {unknown} eventType - The `eventType` of the event.
+ * @returns {Decoder<WebhookEvent>} The decoder of the event.
+ */
+export const webhookEventDecoderOf = (
+  eventType: unknown
+): Decoder<WebhookEvent> =>
+  typeof eventType === 'string' &&
+  Object.prototype.hasOwnProperty.call(webhookEventDecoders, eventType)
+    ? webhookEventDecoders[eventType as keyof typeof webhookEventDecoders]
+    : unknownWebhookEventDecoder;
+
+/**
+ * Decodes a camelCased webhook event with the decoder of its `eventType`.
+ *
+ * Events of a type unknown to this version of the library are passed through
+ * as `UnknownWebhookEvent`, so new Recurrente event types never fail decoding.
+ *
+ * @param {unknown} event - The camelCased event payload.
+ * @param {DecodingOptions} [options] - The decoding mode and logger.
+ * @returns {WebhookEvent} The event, typed.
+ * @throws {DecodingError} In strict mode, if the event does not match.
+ */
+export function decodeWebhookEvent(
+  event: unknown,
+  options: DecodingOptions = {}
+): WebhookEvent {
+  const eventType = (event as {eventType?: unknown} | null)?.eventType;
+
+  return decode(webhookEventDecoderOf(eventType), event, options);
+}
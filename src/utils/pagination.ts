@@ -0,0 +1,110 @@
+import {PaginationOptions} from '../types/globals';
+
+/**
+ * Lazily walks every page of a paginated API endpoint.
+ *
+ * Pages are only requested while the caller keeps consuming items, and the
+ * walk stops at the first empty page.
+ *
+ * @template T - The type of the listed items.
+ *
+ * @example
+ * for await (const product of client.products.list()) {
+ *   console.log(product.name);
+ * }
+ *
+ * const firstTen = await client.products.list().first(10);
+ */
+export class PaginatedList<T> implements AsyncIterable<T> {
+  /**
+   * @param {(page: number) => Promise<T[]>} fetchPage - Fetches a single page by its number.
+   * @param {PaginationOptions<T>} [options] - Where to start and an optional per-page callback.
+   */
+  constructor(
+    private readonly fetchPage: (page: number) => Promise<T[]>,
+    private readonly options: PaginationOptions<T> = {}
+  ) {}
+
+  /**
+   * Iterates over the pages instead of the individual items.
+   *
+   * @returns {AsyncGenerator<T[]>} The non-empty pages, in order.
+   */
+  async *pages(): AsyncGenerator<T[]> {
+    let page = this.options.startPage || 1;
+
+    for (;;) {
+      const items = await this.fetchPage(page);
+      if (items.length === 0) {
+        return;
+      }
+
+      if (this.options.onPage) {
+        await this.options.onPage(items, page);
+      }
+
+      yield items;
+      page++;
+    }
+  }
+
+  async *[Symbol.asyncIterator](): AsyncIterator<T> {
+    for await (const items of this.pages()) {
+      yield* items;
+    }
+  }
+
+  /**
+   * Collects the items into an array.
+   *
+   * @param {{limit?: number}} [options] - Stops after `limit` items when set.
+   * @returns {Promise<T[]>} The collected items.
+   */
+  async toArray(options: {limit?: number} = {}): Promise<T[]> {
+    const {limit} = options;
+    const result: T[] = [];
+
+    if (limit !== undefined && limit <= 0) {
+      return result;
+    }
+
+    for await (const item of this) {
+      result.push(item);
+      if (limit !== undefined && result.length >= limit) {
+        break;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Returns the first `count` items, fetching only the pages needed.
+   *
+   * @param {number} count - The number of items to return.
+   * @returns {Promise<T[]>} Up to `count` items.
+   */
+  first(count: number): Promise<T[]> {
+    return this.toArray({limit: count});
+  }
+
+  /**
+   * Invokes a callback with every page until the list is exhausted or the
+   * callback returns `false`.
+   *
+   * @param {(items: T[], page: number) => unknown} callback - Called with the items and number of each page.
+   * @returns {Promise<void>} Resolves once every page has been processed.
+   */
+  async eachPage(
+    callback: (items: T[], page: number) => unknown
+  ): Promise<void> {
+    let page = this.options.startPage || 1;
+
+    for await (const items of this.pages()) {
+      if ((await callback(items, page)) === false) {
+        return;
+      }
+      page++;
+    }
+  }
+}
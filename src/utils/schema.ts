@@ -0,0 +1,321 @@
+/**
+ * A single problem found while checking a value against a schema.
+ */
+export interface SchemaIssue {
+  /**
+   * The path of the offending field (e.g., `pricesAttributes[0].amountInCents`).
+   * Empty for the root value.
+   */
+  path: string;
+
+  /**
+   * A human-readable description of the problem.
+   */
+  message: string;
+}
+
+/**
+ * State shared while checking a value.
+ */
+export interface SchemaContext {
+  /**
+   * The problems found so far.
+   */
+  issues: SchemaIssue[];
+
+  /**
+   * Whether object properties not described by the schema are reported.
+   */
+  reportUnknownKeys?: boolean;
+}
+
+/**
+ * A runtime description of a value.
+ *
+ * Calling a schema checks the value and records every problem in the context
+ * instead of stopping at the first one.
+ */
+export interface Schema {
+  (value: unknown, path: string, context: SchemaContext): void;
+
+  /**
+   * Whether the value may be `undefined` (or absent from its parent object).
+   */
+  optional?: boolean;
+}
+
+/**
+ * Joins a parent path and a property name.
+ *
+ * @param {string} path - The parent path.
+ * @param {string} key - The property name.
+ * @returns {string} The joined path.
+ */
+const joinPath = (path: string, key: string): string =>
+  path ? `${path}.${key}` : key;
+
+/**
+ * Records a problem in the context.
+ *
+ * @param {SchemaContext} context - The context to record the problem in.
+ * @param {string} path - The path of the offending field.
+ * @param {string} message - The description of the problem.
+ */
+const report = (context: SchemaContext, path: string, message: string) => {
+  context.issues.push({path, message});
+};
+
+/**
+ * Checks a value against a schema.
+ *
+ * @param {Schema} schema - The schema to check against.
+ * @param {unknown} value - The value to check.
+ * @param {Omit<SchemaContext, 'issues'>} [options] - Extra checking options.
+ * @returns {SchemaIssue[]} Every problem found; empty if the value is valid.
+ */
+export function checkSchema(
+  schema: Schema,
+  value: unknown,
+  options: Omit<SchemaContext, 'issues'> = {}
+): SchemaIssue[] {
+  const context: SchemaContext = {...options, issues: []};
+  schema(value, '', context);
+  return context.issues;
+}
+
+/**
+ * Groups schema issues by path, as in the `errors` map of API validation errors.
+ *
+ * @param {SchemaIssue[]} issues - The issues to group.
+ * @returns {Record<string, string[]>} The messages of each offending path.
+ */
+export function groupIssues(issues: SchemaIssue[]): Record<string, string[]> {
+  return issues.reduce(
+    (errors, issue) => {
+      const path = issue.path || '(root)';
+      (errors[path] = errors[path] || []).push(issue.message);
+      return errors;
+    },
+    {} as Record<string, string[]>
+  );
+}
+
+/**
+ * Makes a schema accept `undefined`.
+ *
+ * @param {Schema} schema - The schema for defined values.
+ * @returns {Schema} The optional schema.
+ */
+export const optional = (schema: Schema): Schema => {
+  const optionalSchema: Schema = (value, path, context) => {
+    if (value !== undefined) {
+      schema(value, path, context);
+    }
+  };
+  optionalSchema.optional = true;
+  return optionalSchema;
+};
+
+/**
+ * Makes a schema accept `null`.
+ *
+ * @param {Schema} schema - The schema for non-null values.
+ * @returns {Schema} The nullable schema.
+ */
+export const nullable = (schema: Schema): Schema => {
+  const nullableSchema: Schema = (value, path, context) => {
+    if (value !== null) {
+      schema(value, path, context);
+    }
+  };
+  nullableSchema.optional = schema.optional;
+  return nullableSchema;
+};
+
+/**
+ * Accepts any value.
+ */
+export const unknown = (): Schema => () => {};
+
+/**
+ * Accepts strings, optionally requiring them to be non-empty.
+ *
+ * @param {{nonEmpty?: boolean}} [options] - Whether empty strings are rejected.
+ * @returns {Schema} The string schema.
+ */
+export const string =
+  (options: {nonEmpty?: boolean} = {}): Schema =>
+  (value, path, context) => {
+    if (typeof value !== 'string') {
+      report(context, path, 'must be a string');
+    } else if (options.nonEmpty && value.trim() === '') {
+      report(context, path, 'must not be empty');
+    }
+  };
+
+/**
+ * Accepts strings that can be parsed as a date (e.g., ISO date strings).
+ *
+ * @returns {Schema} The date string schema.
+ */
+export const dateString = (): Schema => (value, path, context) => {
+  if (typeof value !== 'string' || isNaN(Date.parse(value))) {
+    report(context, path, 'must be a valid date string');
+  }
+};
+
+/**
+ * Accepts finite numbers, optionally restricted to integers and a minimum.
+ *
+ * @param {{integer?: boolean, min?: number}} [options] - The numeric constraints.
+ * @returns {Schema} The number schema.
+ */
+export const number =
+  (options: {integer?: boolean; min?: number} = {}): Schema =>
+  (value, path, context) => {
+    if (typeof value !== 'number' || !isFinite(value)) {
+      report(context, path, 'must be a number');
+    } else if (options.integer && !Number.isInteger(value)) {
+      report(context, path, 'must be an integer');
+    } else if (options.min !== undefined && value < options.min) {
+      report(context, path, `must be greater than or equal to ${options.min}`);
+    }
+  };
+
+/**
+ * Accepts booleans.
+ *
+ * @returns {Schema} The boolean schema.
+ */
+export const boolean = (): Schema => (value, path, context) => {
+  if (typeof value !== 'boolean') {
+    report(context, path, 'must be a boolean');
+  }
+};
+
+/**
+ * Accepts one of the given literal values.
+ *
+ * @param {...(string | number | boolean)} values - The accepted values.
+ * @returns {Schema} The literal schema.
+ */
+export const oneOf =
+  (...values: (string | number | boolean)[]): Schema =>
+  (value, path, context) => {
+    if (!values.includes(value as string | number | boolean)) {
+      report(
+        context,
+        path,
+        `must be one of ${values.map(v => `'${v}'`).join(', ')}`
+      );
+    }
+  };
+
+/**
+ * Accepts arrays whose items all match a schema.
+ *
+ * @param {Schema} item - The schema of each item.
+ * @param {{minLength?: number}} [options] - The minimum number of items.
+ * @returns {Schema} The array schema.
+ */
+export const array =
+  (item: Schema, options: {minLength?: number} = {}): Schema =>
+  (value, path, context) => {
+    if (!Array.isArray(value)) {
+      report(context, path, 'must be an array');
+      return;
+    }
+    if (options.minLength !== undefined && value.length < options.minLength) {
+      report(
+        context,
+        path,
+        `must contain at least ${options.minLength} item(s)`
+      );
+    }
+    value.forEach((element, index) =>
+      item(element, `${path}[${index}]`, context)
+    );
+  };
+
+/**
+ * Accepts plain objects whose values all match a schema (e.g., metadata maps).
+ *
+ * @param {Schema} valueSchema - The schema of each value.
+ * @returns {Schema} The record schema.
+ */
+export const record =
+  (valueSchema: Schema): Schema =>
+  (value, path, context) => {
+    if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+      report(context, path, 'must be an object');
+      return;
+    }
+    for (const [key, entry] of Object.entries(value)) {
+      valueSchema(entry, joinPath(path, key), context);
+    }
+  };
+
+/**
+ * Accepts objects with the given properties.
+ *
+ * Properties whose schema is not optional must be present. Extra properties
+ * are reported only when the context asks for it, and an optional `refine`
+ * callback can add cross-field checks once the properties are valid.
+ *
+ * @param {Record<string, Schema>} shape - The schema of each property.
+ * @param {(value: Record<string, unknown>, path: string, context: SchemaContext) => void} [refine] - Extra cross-field checks.
+ * @returns {Schema} The object schema.
+ */
+export const object =
+  (
+    shape: Record<string, Schema>,
+    refine?: (
+      value: Record<string, unknown>,
+      path: string,
+      context: SchemaContext
+    ) => void
+  ): Schema =>
+  (value, path, context) => {
+    if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+      report(context, path, 'must be an object');
+      return;
+    }
+
+    const properties = value as Record<string, unknown>;
+    const issueCount = context.issues.length;
+
+    for (const [key, schema] of Object.entries(shape)) {
+      if (properties[key] === undefined && !schema.optional) {
+        report(context, joinPath(path, key), 'is required');
+      } else {
+        schema(properties[key], joinPath(path, key), context);
+      }
+    }
+
+    if (context.reportUnknownKeys) {
+      for (const key of Object.keys(properties)) {
+        if (!(key in shape)) {
+          report(context, joinPath(path, key), 'is not a known property');
+        }
+      }
+    }
+
+    if (refine && context.issues.length === issueCount) {
+      refine(properties, path, context);
+    }
+  };
+
+/**
+ * Records a cross-field problem from a `refine` callback.
+ *
+ * @param {SchemaContext} context - The context to record the problem in.
+ * @param {string} path - The path of the parent object.
+ * @param {string} key - The offending property.
+ * @param {string} message - The description of the problem.
+ */
+export const reportIssue = (
+  context: SchemaContext,
+  path: string,
+  key: string,
+  message: string
+) => report(context, joinPath(path, key), message);
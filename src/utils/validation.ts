@@ -0,0 +1,271 @@
+import {ValidationError} from '../api/errors';
+import {
+  Schema,
+  SchemaContext,
+  checkSchema,
+  groupIssues,
+  optional,
+  string,
+  dateString,
+  number,
+  boolean,
+  oneOf,
+  array,
+  record,
+  object,
+  reportIssue,
+} from './schema';
+
+const currency = oneOf('GTQ', 'USD');
+const interval = oneOf('month', 'week', 'year');
+const requirement = oneOf('required', 'optional', 'none');
+const billingInfoRequirement = oneOf('optional', 'none');
+const amountInCents = number({integer: true, min: 1});
+const positiveInteger = number({integer: true, min: 1});
+const metadata = record(string());
+
+/**
+ * Requires a free trial interval and its count to be given together.
+ *
+ * @param {Record<string, unknown>} price - The price attributes.
+ * @param {string} path - The path of the price attributes.
+ * @param {SchemaContext} context - The context to record problems in.
+ */
+const checkFreeTrial = (
+  price: Record<string, unknown>,
+  path: string,
+  context: SchemaContext
+) => {
+  const hasInterval = price.freeTrialInterval !== undefined;
+  const hasCount = price.freeTrialIntervalCount !== undefined;
+
+  if (hasInterval && !hasCount) {
+    reportIssue(
+      context,
+      path,
+      'freeTrialIntervalCount',
+      'is required when freeTrialInterval is set'
+    );
+  }
+  if (hasCount && !hasInterval) {
+    reportIssue(
+      context,
+      path,
+      'freeTrialInterval',
+      'is required when freeTrialIntervalCount is set'
+    );
+  }
+};
+
+/**
+ * Schema of `CreateProductRequest`.
+ */
+export const createProductRequestSchema: Schema = object({
+  name: string({nonEmpty: true}),
+  description: optional(string()),
+  imageUrl: optional(string()),
+  pricesAttributes: array(
+    object({
+      currency,
+      chargeType: oneOf('one_time'),
+      amountInCents,
+    }),
+    {minLength: 1}
+  ),
+  cancelUrl: optional(string()),
+  successUrl: optional(string()),
+  customTermsAndConditions: optional(string()),
+  phoneRequirement: requirement,
+  addressRequirement: requirement,
+  billingInfoRequirement,
+  adjustableQuantity: optional(boolean()),
+  metadata: optional(metadata),
+});
+
+/**
+ * Schema of `UpdateProductRequest`.
+ */
+export const updateProductRequestSchema: Schema = object({
+  name: optional(string({nonEmpty: true})),
+  description: optional(string()),
+  successUrl: optional(string()),
+  cancelUrl: optional(string()),
+  customTermsAndConditions: optional(string()),
+  phoneRequirement: optional(requirement),
+  addressRequirement: optional(requirement),
+  billingInfoRequirement: optional(billingInfoRequirement),
+  pricesAttributes: optional(
+    array(
+      object({
+        id: string({nonEmpty: true}),
+        amountInCents: optional(amountInCents),
+        currency: optional(currency),
+        billingIntervalCount: optional(positiveInteger),
+        billingInterval: optional(oneOf('month', 'week', 'year', '')),
+        chargeType: optional(oneOf('one_time', 'recurring')),
+        _destroy: optional(boolean()),
+      })
+    )
+  ),
+  metadata: optional(metadata),
+});
+
+/**
+ * Schema of `ProductSubscription`.
+ */
+export const productSubscriptionSchema: Schema = object({
+  product: object({
+    name: string({nonEmpty: true}),
+    description: optional(string()),
+    imageUrl: optional(string()),
+    pricesAttributes: array(
+      object(
+        {
+          currency,
+          chargeType: oneOf('recurring'),
+          amountInCents,
+          billingIntervalCount: positiveInteger,
+          billingInterval: interval,
+          freeTrialIntervalCount: optional(positiveInteger),
+          freeTrialInterval: optional(interval),
+          periodsBeforeAutomaticCancellation: optional(positiveInteger),
+          periodsBeforeAllowedToCancel: optional(positiveInteger),
+        },
+        checkFreeTrial
+      ),
+      {minLength: 1}
+    ),
+    cancelUrl: optional(string()),
+    successUrl: optional(string()),
+    customTermsAndConditions: optional(string()),
+    phoneRequirement: optional(requirement),
+    addressRequirement: optional(requirement),
+    billingInfoRequirement: optional(billingInfoRequirement),
+    adjustableQuantity: optional(boolean()),
+  }),
+  metadata: optional(metadata),
+});
+
+/**
+ * Schema of `CreateCheckoutRequest`.
+ */
+export const createCheckoutRequestSchema: Schema = object({
+  items: array(
+    object(
+      {
+        priceId: optional(string({nonEmpty: true})),
+        name: optional(string({nonEmpty: true})),
+        description: optional(string()),
+        imageUrl: optional(string()),
+        amountInCents: optional(amountInCents),
+        currency: optional(currency),
+        quantity: optional(positiveInteger),
+      },
+      (item, path, context) => {
+        if (item.priceId !== undefined) {
+          return;
+        }
+        for (const key of ['name', 'amountInCents', 'currency']) {
+          if (item[key] === undefined) {
+            reportIssue(context, path, key, 'is required without priceId');
+          }
+        }
+      }
+    ),
+    {minLength: 1}
+  ),
+  successUrl: optional(string()),
+  cancelUrl: optional(string()),
+  userId: optional(string({nonEmpty: true})),
+  expiresAt: optional(dateString()),
+  metadata: optional(metadata),
+});
+
+/**
+ * Schema of `CreateRefundRequest`.
+ */
+export const createRefundRequestSchema: Schema = object({
+  paymentIntentId: string({nonEmpty: true}),
+  amountInCents: optional(amountInCents),
+  reason: optional(string()),
+  metadata: optional(metadata),
+});
+
+/**
+ * Schema of `PauseSubscriptionRequest`.
+ */
+export const pauseSubscriptionRequestSchema: Schema = object({
+  resumesAt: optional(dateString()),
+});
+
+/**
+ * Schema of `ChangeSubscriptionPriceRequest`.
+ */
+export const changeSubscriptionPriceRequestSchema: Schema = object({
+  priceId: string({nonEmpty: true}),
+  prorationBehavior: optional(oneOf('create_prorations', 'none')),
+});
+
+/**
+ * Schema of `CreateCustomerRequest`.
+ */
+export const createCustomerRequestSchema: Schema = object(
+  {
+    email: string({nonEmpty: true}),
+    fullName: optional(string()),
+    firstName: optional(string()),
+    lastName: optional(string()),
+    phoneNumber: optional(string()),
+    metadata: optional(metadata),
+  },
+  (customer, path, context) => {
+    if (!/^[^\s@]+@[^\s@]+$/.test(customer.email as string)) {
+      reportIssue(context, path, 'email', 'must be a valid email address');
+    }
+  }
+);
+
+/**
+ * Schema of `UpdateCustomerRequest`.
+ */
+export const updateCustomerRequestSchema: Schema = object({
+  email: optional(string({nonEmpty: true})),
+  fullName: optional(string()),
+  firstName: optional(string()),
+  lastName: optional(string()),
+  phoneNumber: optional(string()),
+  metadata: optional(metadata),
+});
+
+/**
+ * Validates a request payload before it is sent.
+ *
+ * Every offending field is reported at once, keyed by its path, so callers
+ * building payloads from form input can show all problems together.
+ *
+ * @param {Schema} schema - The schema of the request.
+ * @param {unknown} payload - The request payload.
+ * @throws {ValidationError} If the payload does not match the schema.
+ */
+export function validateRequest(schema: Schema, payload: unknown): void {
+  const issues = checkSchema(schema, payload);
+
+  if (issues.length > 0) {
+    throw new ValidationError('Invalid request payload', groupIssues(issues));
+  }
+}
+
+/**
+ * Validates an identifier used in a request path.
+ *
+ * @param {string} name - The name of the parameter (e.g., 'productId').
+ * @param {unknown} id - The identifier.
+ * @throws {ValidationError} If the identifier is not a non-empty string.
+ */
+export function validateId(name: string, id: unknown): void {
+  if (typeof id !== 'string' || id.trim() === '') {
+    throw new ValidationError(`Invalid ${name}`, {
+      [name]: ['must be a non-empty string'],
+    });
+  }
+}
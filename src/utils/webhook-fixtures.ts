@@ -0,0 +1,285 @@
+import {Webhook} from 'svix';
+import {
+  RecurrenteWebhookEvent,
+  WebhookEventType,
+  WebhookEventForPattern,
+  DeepPartial,
+  SignedWebhookHeaders,
+  SignWebhookOptions,
+  SignedWebhook,
+  CustomerSummary,
+} from '../types/globals';
+import {toSnakeCase} from './conversion';
+import {webhookEventDecoderOf} from './decoders';
+
+/*
+
+Fixtures
+
+*/
+
+const API_VERSION = '2024-04-24';
+const CREATED_AT = '2024-05-01T12:00:00.000Z';
+
+const customer: CustomerSummary = {
+  id: 'us_fixture',
+  email: 'ana.lopez@example.com',
+  fullName: 'Ana López',
+};
+
+const payment = {
+  id: 'pa_fixture',
+  paymentable: {
+    id: 'ch_fixture',
+    taxId: null,
+    taxName: null,
+    type: 'Checkout',
+    address: {
+      addressLine1: '5a Avenida 10-50',
+      addressLine2: null,
+      city: 'Guatemala',
+      country: 'GT',
+      zipCode: '01010',
+    },
+    phoneNumber: '+50255550100',
+  },
+};
+
+const paymentFields = {
+  apiVersion: API_VERSION,
+  createdAt: CREATED_AT,
+  amountInCents: 15000,
+  currency: 'GTQ',
+  fee: 645,
+  vatWithheld: 0,
+  vatWithheldCurrency: 'GTQ',
+  customer,
+  payment,
+  product: {id: 'prod_fixture'},
+  invoice: {id: 'inv_fixture', taxInvoiceUrl: null},
+};
+
+const subscriptionFields = {
+  apiVersion: API_VERSION,
+  createdAt: CREATED_AT,
+  customerEmail: customer.email,
+  customerId: customer.id,
+  customerName: customer.fullName,
+};
+
+/**
+ * A realistic event of each type, matching the payloads sent by Recurrente.
+ */
+const fixtures: {
+  [K in WebhookEventType]: () => WebhookEventForPattern<K>;
+} = {
+  'payment_intent.succeeded': () => ({
+    ...paymentFields,
+    id: 'evt_payment_intent_succeeded',
+    eventType: 'payment_intent.succeeded',
+    checkout: {
+      id: 'ch_fixture',
+      status: 'paid',
+      payment: {
+        id: payment.id,
+        paymentable: {
+          type: 'Checkout',
+          id: 'ch_fixture',
+          taxName: null,
+          taxId: null,
+          address: null,
+          phoneNumber: null,
+        },
+      },
+      paymentMethod: {
+        id: 'pm_fixture',
+        type: 'card',
+        card: {last4: '4242', network: 'visa'},
+      },
+      transferSetups: [],
+      metadata: {},
+    },
+    failureReason: null,
+  }),
+  'payment_intent.failed': () => ({
+    ...paymentFields,
+    id: 'evt_payment_intent_failed',
+    eventType: 'payment_intent.failed',
+    checkout: {id: 'ch_fixture'},
+    failureReason: 'card_declined',
+  }),
+  'subscription.create': () => ({
+    ...subscriptionFields,
+    id: 'evt_subscription_create',
+    eventType: 'subscription.create',
+  }),
+  'subscription.past_due': () => ({
+    ...subscriptionFields,
+    id: 'evt_subscription_past_due',
+    eventType: 'subscription.past_due',
+  }),
+  'subscription.paused': () => ({
+    ...subscriptionFields,
+    id: 'evt_subscription_paused',
+    eventType: 'subscription.paused',
+  }),
+  'subscription.cancel': () => ({
+    ...subscriptionFields,
+    id: 'evt_subscription_cancel',
+    eventType: 'subscription.cancel',
+  }),
+  'refund.created': () => ({
+    id: 'evt_refund_created',
+    eventType: 'refund.created',
+    apiVersion: API_VERSION,
+    createdAt: CREATED_AT,
+    status: 'succeeded',
+    amountInCents: 15000,
+    currency: 'GTQ',
+    reason: 'requested_by_customer',
+    paymentIntent: {id: 'pa_fixture'},
+    customer,
+  }),
+};
+
+/**
+ * Every known webhook event type, in the order of `RecurrenteWebhookEvent`.
+ */
+export const webhookEventTypes = Object.keys(fixtures) as WebhookEventType[];
+
+/*
+
+Helpers
+
+*/
+
+/**
+ * Checks whether a value is a plain object, whose fields can be merged.
+ *
+ * @param {unknown} value - The value to check.
+ * @returns {boolean} Whether the value is a non-null, non-array object.
+ */
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Recursively merges overrides into a value. Arrays, `null` and primitive
+ * overrides replace the original value.
+ *
+ * @param {unknown} value - The original value.
+ * @param {unknown} overrides - The fields to override.
+ * @returns {unknown} A merged copy; the original value is not modified.
+ */
+const merge = (value: unknown, overrides: unknown): unknown => {
+  if (!isPlainObject(value) || !isPlainObject(overrides)) {
+    return overrides === undefined ? value : overrides;
+  }
+
+  const merged: Record<string, unknown> = {...value};
+  for (const key of Object.keys(overrides)) {
+    merged[key] = merge(value[key], overrides[key]);
+  }
+  return merged;
+};
+
+/**
+ * Generates a random message ID, in the format used by Svix.
+ *
+ * @returns {string} The message ID.
+ */
+const randomMessageId = (): string =>
+  `msg_${Math.random().toString(36).slice(2)}${Date.now().toString(36)}`;
+
+/*
+
+Public API
+
+*/
+
+/**
+ * Builds a realistic webhook event of a given type, for tests.
+ *
+ * @template T - The event type.
+ * @param {T} eventType - The type of the event (e.g., 'payment_intent.succeeded').
+ * @param {DeepPartial<WebhookEventForPattern<T>>} [overrides] - Fields to override, merged recursively.
+ * @returns {WebhookEventForPattern<T>} The event, in camelCase.
+ *
+ * @example
+ * const event = createWebhookEvent('payment_intent.succeeded', {
+ *   checkout: {metadata: {orderId: '1234'}},
+ * });
+ */
+export function createWebhookEvent<T extends WebhookEventType>(
+  eventType: T,
+  overrides?: DeepPartial<WebhookEventForPattern<T>>
+): WebhookEventForPattern<T> {
+  if (!Object.prototype.hasOwnProperty.call(fixtures, eventType)) {
+    throw new Error(`Unknown webhook event type: ${eventType}`);
+  }
+  return merge(fixtures[eventType](), overrides) as WebhookEventForPattern<T>;
+}
+
+/**
+ * Serializes an event in the snake_case JSON format sent by Recurrente,
+ * leaving the opaque values of its type, such as checkout metadata, as they are.
+ *
+ * @param {RecurrenteWebhookEvent | Record<string, unknown>} event - The event, in camelCase.
+ * @returns {string} The request body.
+ */
+export function serializeWebhookEvent(
+  event: RecurrenteWebhookEvent | Record<string, unknown>
+): string {
+  return JSON.stringify(
+    toSnakeCase(event, {type: webhookEventDecoderOf(event.eventType).name})
+  );
+}
+
+/**
+ * Signs a webhook payload the way Svix does, producing the headers expected
+ * by `verifySvixSignature`.
+ *
+ * @param {string} payload - The request body, exactly as it will be sent.
+ * @param {SignWebhookOptions} options - The signing secret, and optionally the message ID and signing time.
+ * @returns {SignedWebhookHeaders} The `svix-id`, `svix-timestamp` and `svix-signature` headers.
+ */
+export function signWebhookPayload(
+  payload: string,
+  options: SignWebhookOptions
+): SignedWebhookHeaders {
+  const {id = randomMessageId(), timestamp = new Date()} = options;
+
+  return {
+    'svix-id': id,
+    'svix-timestamp': String(Math.floor(timestamp.getTime() / 1000)),
+    'svix-signature': new Webhook(options.secret).sign(id, timestamp, payload),
+  };
+}
+
+/**
+ * Builds a fixture event, serializes it and signs it: everything needed to
+ * test a webhook endpoint or handler end to end.
+ *
+ * @template T - The event type.
+ * @param {T} eventType - The type of the event (e.g., 'subscription.cancel').
+ * @param {SignWebhookOptions & {overrides?: DeepPartial<WebhookEventForPattern<T>>}} options - The signing options, and the fields to override.
+ * @returns {SignedWebhook<WebhookEventForPattern<T>>} The event, its payload and the signed headers.
+ *
+ * @example
+ * const {payload, headers} = createSignedWebhook('subscription.cancel', {
+ *   secret: 'whsec_...',
+ *   overrides: {customerEmail: 'ana@example.com'},
+ * });
+ * const event = verifySvixSignature(payload, headers, {secret: 'whsec_...'});
+ */
+export function createSignedWebhook<T extends WebhookEventType>(
+  eventType: T,
+  options: SignWebhookOptions & {
+    overrides?: DeepPartial<WebhookEventForPattern<T>>;
+  }
+): SignedWebhook<WebhookEventForPattern<T>> {
+  const {overrides, ...signing} = options;
+  const event = createWebhookEvent(eventType, overrides);
+  const payload = serializeWebhookEvent(event);
+
+  return {event, payload, headers: signWebhookPayload(payload, signing)};
+}
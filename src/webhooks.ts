@@ -3,3 +3,25 @@ export {
   registerWebhookHandler,
   verifySvixSignature,
 } from './api/recurrente-webhooks';
+export {decodeWebhookEvent, isKnownWebhookEvent} from './utils/decoders';
+export {WebhookRouter} from './api/webhook-router';
+export {
+  WebhookError,
+  WebhookVerificationError,
+  MissingWebhookHeadersError,
+  WebhookTimestampError,
+  InvalidWebhookSignatureError,
+  UnhandledWebhookEventError,
+} from './api/webhook-errors';
+export {processWebhook} from './api/webhook-endpoint';
+export {
+  createNodeWebhookHandler,
+  createExpressWebhookHandler,
+  createFastifyWebhookHandler,
+  createFastifyWebhookPlugin,
+} from './api/webhook-adapters';
+export {handleWebhookRequest} from './api/webhook-fetch';
+export {
+  MemoryIdempotencyStore,
+  FileIdempotencyStore,
+} from './api/webhook-stores';